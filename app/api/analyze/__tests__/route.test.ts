@@ -1,8 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NextRequest } from 'next/server';
 import { POST } from '../route';
 import * as analyzer from '@/src/lib/analyzer';
 import * as rateLimit from '@/src/lib/rateLimit';
+import { annualIncome } from '@/src/lib/analyzer/income';
+import { durationMonths } from '@/src/lib/analyzer/duration';
+import { credentialCost } from '@/src/lib/analyzer/cost';
 
 // Mock the analyzer module
 vi.mock('@/src/lib/analyzer', () => ({
@@ -10,6 +13,9 @@ vi.mock('@/src/lib/analyzer', () => ({
   VeteranProfileSchema: {
     parse: vi.fn(),
   },
+  AnalysisRequestSchema: {
+    parse: vi.fn(),
+  },
 }));
 
 // Mock the rate limit module
@@ -57,9 +63,15 @@ const mockAnalysisResult = {
       type: 'fast-income' as const,
       title: 'Security Analyst',
       description: 'Entry-level security role',
-      incomeTrajectory: { year1: '$70k', year3: '$90k', year5: '$120k' },
-      roadmap: [{ phase: 'Phase 1', duration: '3 months', steps: ['Get certified'] }],
-      requiredCredentials: [{ name: 'Security+', timeline: '2 months', cost: '$400' }],
+      incomeTrajectory: {
+        year1: annualIncome(70000),
+        year3: annualIncome(90000),
+        year5: annualIncome(120000),
+      },
+      roadmap: [{ phase: 'Phase 1', duration: durationMonths(3), steps: ['Get certified'] }],
+      requiredCredentials: [
+        { name: 'Security+', timeline: durationMonths(2), cost: credentialCost(400) },
+      ],
       familyImpact: {
         timeCommitment: 'Full-time',
         flexibility: 'Moderate',
@@ -72,9 +84,15 @@ const mockAnalysisResult = {
       type: 'balanced' as const,
       title: 'IT Project Manager',
       description: 'Mid-level management role',
-      incomeTrajectory: { year1: '$75k', year3: '$95k', year5: '$130k' },
-      roadmap: [{ phase: 'Phase 1', duration: '6 months', steps: ['Get PMP'] }],
-      requiredCredentials: [{ name: 'PMP', timeline: '6 months', cost: '$600' }],
+      incomeTrajectory: {
+        year1: annualIncome(75000),
+        year3: annualIncome(95000),
+        year5: annualIncome(130000),
+      },
+      roadmap: [{ phase: 'Phase 1', duration: durationMonths(6), steps: ['Get PMP'] }],
+      requiredCredentials: [
+        { name: 'PMP', timeline: durationMonths(6), cost: credentialCost(600) },
+      ],
       familyImpact: {
         timeCommitment: 'Full-time',
         flexibility: 'High',
@@ -87,9 +105,15 @@ const mockAnalysisResult = {
       type: 'max-upside' as const,
       title: 'Cloud Architect',
       description: 'Senior technical role',
-      incomeTrajectory: { year1: '$90k', year3: '$140k', year5: '$180k' },
-      roadmap: [{ phase: 'Phase 1', duration: '12 months', steps: ['AWS certs'] }],
-      requiredCredentials: [{ name: 'AWS SAA', timeline: '4 months', cost: '$300' }],
+      incomeTrajectory: {
+        year1: annualIncome(90000),
+        year3: annualIncome(140000),
+        year5: annualIncome(180000),
+      },
+      roadmap: [{ phase: 'Phase 1', duration: durationMonths(12), steps: ['AWS certs'] }],
+      requiredCredentials: [
+        { name: 'AWS SAA', timeline: durationMonths(4), cost: credentialCost(300) },
+      ],
       familyImpact: {
         timeCommitment: 'Full-time+',
         flexibility: 'High',
@@ -101,9 +125,28 @@ const mockAnalysisResult = {
   ],
 };
 
-function createMockRequest(body: unknown, options: { contentLength?: string; ip?: string } = {}) {
+// Mock provenance metadata
+const mockMetadata = {
+  provider: 'real',
+  attemptedProviders: ['real'],
+  fallback: false,
+  model: 'claude-test',
+  promptVersion: 'v1',
+  latencyMs: 1200,
+};
+
+function createMockRequest(
+  body: unknown,
+  options: { contentLength?: string; ip?: string; accept?: string; authorization?: string } = {}
+) {
   const headers = new Headers();
   headers.set('content-type', 'application/json');
+  if (options.authorization) {
+    headers.set('authorization', options.authorization);
+  }
+  if (options.accept) {
+    headers.set('accept', options.accept);
+  }
   if (options.contentLength) {
     headers.set('content-length', options.contentLength);
   }
@@ -130,7 +173,10 @@ describe('POST /api/analyze', () => {
       resetTime: Date.now() + 15 * 60 * 1000,
     });
     vi.mocked(analyzer.VeteranProfileSchema.parse).mockReturnValue(validProfile);
-    vi.mocked(analyzer.analyzeProfile).mockResolvedValue(mockAnalysisResult);
+    vi.mocked(analyzer.analyzeProfile).mockResolvedValue({
+      result: mockAnalysisResult,
+      metadata: mockMetadata,
+    });
   });
 
   describe('successful requests', () => {
@@ -140,8 +186,16 @@ describe('POST /api/analyze', () => {
 
       expect(response.status).toBe(200);
       const data = await response.json();
-      expect(data.summary).toBe('Test summary');
-      expect(data.pathways).toHaveLength(3);
+      expect(data.result.summary).toBe('Test summary');
+      expect(data.result.pathways).toHaveLength(3);
+    });
+
+    it('returns provenance metadata alongside the result', async () => {
+      const request = createMockRequest(validProfile);
+      const response = await POST(request);
+
+      const data = await response.json();
+      expect(data.metadata).toEqual(mockMetadata);
     });
 
     it('includes rate limit headers in successful response', async () => {
@@ -164,7 +218,74 @@ describe('POST /api/analyze', () => {
       const request = createMockRequest(validProfile);
       await POST(request);
 
-      expect(analyzer.analyzeProfile).toHaveBeenCalledWith(validProfile);
+      expect(analyzer.analyzeProfile).toHaveBeenCalledWith(validProfile, {});
+    });
+
+    it('passes pathway options from a { profile, options } body', async () => {
+      const options = { pathwayTypes: ['entrepreneurship' as const] };
+      vi.mocked(analyzer.AnalysisRequestSchema.parse).mockReturnValue({
+        profile: validProfile,
+        options,
+      });
+
+      const request = createMockRequest({ profile: validProfile, options });
+      await POST(request);
+
+      expect(analyzer.AnalysisRequestSchema.parse).toHaveBeenCalledWith({
+        profile: validProfile,
+        options,
+      });
+      expect(analyzer.VeteranProfileSchema.parse).not.toHaveBeenCalled();
+      expect(analyzer.analyzeProfile).toHaveBeenCalledWith(validProfile, options);
+    });
+  });
+
+  describe('model overrides', () => {
+    const options = { model: 'claude-sonnet-4-5', maxTokens: 8000 };
+    let originalToken: string | undefined;
+
+    beforeEach(() => {
+      originalToken = process.env.ANALYSIS_OVERRIDE_TOKEN;
+      process.env.ANALYSIS_OVERRIDE_TOKEN = 'override-secret';
+      vi.mocked(analyzer.AnalysisRequestSchema.parse).mockReturnValue({
+        profile: validProfile,
+        options,
+      });
+    });
+
+    afterEach(() => {
+      if (originalToken !== undefined) {
+        process.env.ANALYSIS_OVERRIDE_TOKEN = originalToken;
+      } else {
+        delete process.env.ANALYSIS_OVERRIDE_TOKEN;
+      }
+    });
+
+    it('returns 403 when the caller is not authorized', async () => {
+      const response = await POST(createMockRequest({ profile: validProfile, options }));
+
+      expect(response.status).toBe(403);
+      expect(analyzer.analyzeProfile).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 for a wrong token', async () => {
+      const request = createMockRequest(
+        { profile: validProfile, options },
+        { authorization: 'Bearer wrong-secret' }
+      );
+
+      expect((await POST(request)).status).toBe(403);
+    });
+
+    it('passes overrides through for authorized callers', async () => {
+      const request = createMockRequest(
+        { profile: validProfile, options },
+        { authorization: 'Bearer override-secret' }
+      );
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(analyzer.analyzeProfile).toHaveBeenCalledWith(validProfile, options);
     });
   });
 
@@ -362,6 +483,20 @@ describe('POST /api/analyze', () => {
       expect(data.error).not.toContain('sk-ant');
     });
 
+    it('returns 500 without field details when validation fails outside the request body', async () => {
+      const { ZodError } = await import('zod');
+      vi.mocked(analyzer.analyzeProfile).mockRejectedValue(
+        new ZodError([{ code: 'custom', path: ['timeoutMs'], message: 'Invalid setting' } as never])
+      );
+
+      const request = createMockRequest(validProfile);
+      const response = await POST(request);
+
+      expect(response.status).toBe(500);
+      const data = await response.json();
+      expect(data).toEqual({ error: 'Failed to analyze profile' });
+    });
+
     it('handles non-Error exceptions', async () => {
       vi.mocked(analyzer.analyzeProfile).mockRejectedValue('string error');
 
@@ -374,6 +509,64 @@ describe('POST /api/analyze', () => {
     });
   });
 
+  describe('streaming', () => {
+    const readEvents = async (response: Response) => {
+      const text = await response.text();
+      return text
+        .split('\n\n')
+        .filter(Boolean)
+        .map((message) => JSON.parse(message.split('data: ')[1]));
+    };
+
+    it('streams the summary, each pathway and the final response as Server-Sent Events', async () => {
+      vi.mocked(analyzer.analyzeProfile).mockImplementation(async (_profile, _options, onEvent) => {
+        onEvent?.({ type: 'summary', summary: mockAnalysisResult.summary });
+        onEvent?.({ type: 'pathway', index: 0, pathway: mockAnalysisResult.pathways[0] });
+        return { result: mockAnalysisResult, metadata: mockMetadata };
+      });
+
+      const request = createMockRequest(validProfile, { accept: 'text/event-stream' });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+
+      const events = await readEvents(response);
+      expect(events.map((event) => event.type)).toEqual(['summary', 'pathway', 'complete']);
+      expect(events[1].pathway.title).toBe('Security Analyst');
+      expect(events[2]).toEqual({
+        type: 'complete',
+        result: mockAnalysisResult,
+        metadata: mockMetadata,
+      });
+    });
+
+    it('ends the stream with a sanitized error event when analysis fails', async () => {
+      vi.mocked(analyzer.analyzeProfile).mockRejectedValue(
+        new Error('API key invalid: sk-ant-xxxx')
+      );
+
+      const request = createMockRequest(validProfile, { accept: 'text/event-stream' });
+      const events = await readEvents(await POST(request));
+
+      expect(events).toEqual([{ type: 'error', error: 'Failed to analyze profile' }]);
+    });
+
+    it('still validates the body before streaming', async () => {
+      const { ZodError } = await import('zod');
+      vi.mocked(analyzer.VeteranProfileSchema.parse).mockImplementation(() => {
+        throw new ZodError([]);
+      });
+
+      const request = createMockRequest({}, { accept: 'text/event-stream' });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(analyzer.analyzeProfile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('IP extraction', () => {
     it('extracts client IP from request headers', async () => {
       const request = createMockRequest(validProfile, { ip: '192.168.1.100' });
@@ -1,17 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzeProfile, VeteranProfileSchema } from '@/src/lib/analyzer';
+import {
+  analyzeProfile,
+  AnalysisOptions,
+  AnalysisRequestSchema,
+  AnalysisStreamEvent,
+  VeteranProfile,
+  VeteranProfileSchema,
+} from '@/src/lib/analyzer';
+import { formatServerSentEvent } from '@/src/lib/analyzer/sse';
+import { classifyError } from '@/src/lib/analyzer/errors';
 import { checkRateLimit, getClientIP } from '@/src/lib/rateLimit';
+import { isAuthorizedCaller } from '@/src/lib/auth';
 import { logger } from '@/src/lib/logger';
 import { z } from 'zod';
 
 /**
  * POST /api/analyze
  *
- * Analyzes a veteran profile and returns career pathway recommendations.
+ * Analyzes a veteran profile and returns career pathway recommendations
+ * wrapped in a provenance envelope: `{ result, metadata }`.
+ *
+ * The body is either a bare VeteranProfile or `{ profile, options }`, where
+ * `options.pathwayTypes` / `options.count` choose which pathways to generate.
+ * `options.model` / `options.maxTokens` override the Real Mode model and token
+ * budget and require `Authorization: Bearer <ANALYSIS_OVERRIDE_TOKEN>` (403
+ * otherwise).
  *
  * **Demo Mode** (no API key): Returns deterministic pathways
  * **Real Mode** (API key present): Uses Anthropic AI for personalized analysis
  *
+ * **Streaming**: With `Accept: text/event-stream` the response is a stream of
+ * Server-Sent Events instead (see AnalysisStreamEventSchema): the summary and
+ * each pathway as soon as they are ready, then `complete` with the same
+ * `{ result, metadata }` envelope, or `error`. Both modes use this protocol.
+ *
  * **Security**:
  * - Rate limiting: 10 requests per IP per 15 minutes
  * - Request size limit: 100KB
@@ -73,23 +95,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 4. Validate request body with Zod
-    const profile = VeteranProfileSchema.parse(body);
-
-    // 5. Analyze profile (automatically selects Demo or Real mode)
-    const result = await analyzeProfile(profile);
-
-    // 6. Return successful result with rate limit headers
-    return NextResponse.json(result, {
-      headers: {
-        'X-RateLimit-Limit': '10',
-        'X-RateLimit-Remaining': String(rateLimitResult.remaining),
-        'X-RateLimit-Reset': String(rateLimitResult.resetTime),
-      },
-    });
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
+    // 4. Validate request body with Zod (bare profile or { profile, options })
+    const hasOptions = typeof body === 'object' && body !== null && 'profile' in body;
+    let profile: VeteranProfile;
+    let options: AnalysisOptions;
+    try {
+      ({ profile, options } = hasOptions
+        ? AnalysisRequestSchema.parse(body)
+        : { profile: VeteranProfileSchema.parse(body), options: {} });
+    } catch (error) {
+      // Only the body is reported as invalid; other validation failures are server errors
+      if (!(error instanceof z.ZodError)) throw error;
       return NextResponse.json(
         {
           error: 'Invalid request body',
@@ -102,17 +118,99 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle other errors (don't leak stack traces or sensitive info)
+    // Model overrides spend API budget, so only trusted callers may set them
+    const overridesModel = options.model !== undefined || options.maxTokens !== undefined;
+    if (overridesModel && !isAuthorizedCaller(request.headers)) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Model and token budget overrides require an authorized caller',
+        },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitHeaders = {
+      'X-RateLimit-Limit': '10',
+      'X-RateLimit-Remaining': String(rateLimitResult.remaining),
+      'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+    };
+
+    // 5. Stream events instead when the client asks for Server-Sent Events
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamAnalysis(profile, options, rateLimitHeaders);
+    }
+
+    // 6. Analyze profile (runs the configured provider fallback chain)
+    const analysis = await analyzeProfile(profile, options);
+
+    // 7. Return result and provenance metadata with rate limit headers
+    return NextResponse.json(analysis, { headers: rateLimitHeaders });
+  } catch (error) {
+    // Handle errors (don't leak stack traces or sensitive info)
     logger.error(
       'Profile analysis failed',
-      { endpoint: '/api/analyze' },
+      { endpoint: '/api/analyze', errorKind: classifyError(error).kind },
       error instanceof Error ? error : new Error('Unknown error')
     );
 
-    const message =
-      error instanceof Error && !error.message.includes('API')
-        ? error.message
-        : 'Failed to analyze profile';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return NextResponse.json({ error: describeFailure(error) }, { status: 500 });
   }
 }
+
+/**
+ * Client-visible message for a failed analysis (API errors may name keys or
+ * limits, and validation errors outside the request body name internal fields)
+ */
+function describeFailure(error: unknown): string {
+  return error instanceof Error && !(error instanceof z.ZodError) && !error.message.includes('API')
+    ? error.message
+    : 'Failed to analyze profile';
+}
+
+/**
+ * Run the analysis and send its progress as Server-Sent Events
+ */
+function streamAnalysis(
+  profile: VeteranProfile,
+  options: AnalysisOptions,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Keep analyzing after a disconnect so the provider call is not left half-read
+      const send = (event: AnalysisStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+      };
+
+      try {
+        const analysis = await analyzeProfile(profile, options, send);
+        send({ type: 'complete', ...analysis });
+      } catch (error) {
+        logger.error(
+          'Profile analysis failed',
+          { endpoint: '/api/analyze', streaming: true, errorKind: classifyError(error).kind },
+          error instanceof Error ? error : new Error('Unknown error')
+        );
+        send({ type: 'error', error: describeFailure(error) });
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...headers,
+    },
+  });
+}
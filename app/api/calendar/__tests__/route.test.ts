@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { annualIncome } from '@/src/lib/analyzer/income';
+import { durationMonths } from '@/src/lib/analyzer/duration';
+
+const pathway = {
+  type: 'fast-income',
+  title: 'Network Technician',
+  description: 'Entry-level network support',
+  incomeTrajectory: {
+    year1: annualIncome(50000),
+    year3: annualIncome(60000),
+    year5: annualIncome(75000),
+  },
+  roadmap: [{ phase: 'Job Search', duration: durationMonths(2), steps: ['Apply'] }],
+  requiredCredentials: [],
+  familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+  whyThisPath: '',
+};
+
+function callRoute(body: unknown) {
+  const request = new NextRequest('http://localhost:3000/api/calendar', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return POST(request);
+}
+
+describe('POST /api/calendar', () => {
+  it('returns the roadmap as an .ics attachment', async () => {
+    const response = await callRoute({ pathway, startDate: '2027-06-30' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="network-technician-roadmap.ics"'
+    );
+    const ics = await response.text();
+    expect(ics).toContain('DTSTART;VALUE=DATE:20270630');
+    expect(ics).toContain('SUMMARY:Job Search');
+  });
+
+  it('rejects invalid start dates and pathways', async () => {
+    const response = await callRoute({ pathway, startDate: 'next June' });
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.details[0].field).toBe('startDate');
+
+    expect((await callRoute({ startDate: '2027-06-30' })).status).toBe(400);
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const response = await callRoute('BEGIN:VCALENDAR');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects bodies over 100KB', async () => {
+    const response = await callRoute({
+      pathway: { ...pathway, description: 'x'.repeat(150 * 1024) },
+    });
+
+    expect(response.status).toBe(413);
+    const data = await response.json();
+    expect(data.error).toBe('Request too large');
+  });
+});
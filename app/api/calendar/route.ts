@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarFileName, CalendarRequestSchema, roadmapToIcs } from '@/src/lib/calendar';
+import { z } from 'zod';
+
+const MAX_SIZE = 100 * 1024; // 100KB
+
+/**
+ * POST /api/calendar
+ *
+ * Converts a pathway's roadmap into an iCalendar (RFC 5545) file: one all-day
+ * event per phase, sized from the phase duration and laid back to back from
+ * `startDate`, and one to-do per step.
+ *
+ * The body is `{ pathway, startDate? }` with `pathway` as returned by
+ * /api/analyze and `startDate` an ISO calendar date.
+ *
+ * **Responses**:
+ * - 200: `text/calendar` attachment
+ * - 400: Invalid body
+ * - 413: Body over 100KB
+ */
+export async function POST(request: NextRequest) {
+  const tooLarge = () =>
+    NextResponse.json(
+      { error: 'Request too large', message: 'Request body exceeds 100KB limit' },
+      { status: 413 }
+    );
+
+  const contentLength = request.headers.get('content-length');
+  if (contentLength && parseInt(contentLength) > MAX_SIZE) return tooLarge();
+
+  try {
+    // Check the body too, in case content-length is missing
+    const body = await request.text();
+    if (body.length > MAX_SIZE) return tooLarge();
+
+    const { pathway, startDate } = CalendarRequestSchema.parse(JSON.parse(body));
+
+    return new NextResponse(roadmapToIcs(pathway, { startDate }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${calendarFileName(pathway)}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', message: 'Body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    throw error;
+  }
+}
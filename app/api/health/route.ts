@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getCurrentMode } from '@/src/lib/analyzer';
 
 /**
  * Health Check Endpoint
@@ -11,13 +12,11 @@ import { NextResponse } from 'next/server';
  * - Includes timestamp and mode for debugging
  */
 export async function GET() {
-  const isRealMode = !!process.env.ANTHROPIC_API_KEY;
-
   return NextResponse.json(
     {
       status: 'healthy',
       timestamp: new Date().toISOString(),
-      mode: isRealMode ? 'real' : 'demo',
+      mode: getCurrentMode(),
       version: process.env.npm_package_version || '0.1.0',
     },
     {
@@ -1,19 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getCurrentMode } from '@/src/lib/analyzer';
+import { getActiveProvider, getProviderChain } from '@/src/lib/analyzer';
 
 /**
  * GET /api/mode
  *
- * Returns the current operating mode (demo or real)
+ * Returns the current operating mode (the first available provider in the
+ * fallback chain) and the configured chain itself
  */
 export async function GET() {
-  const mode = getCurrentMode();
+  const provider = getActiveProvider();
 
   return NextResponse.json({
-    mode,
-    description:
-      mode === 'demo'
-        ? 'Running in Demo Mode - using deterministic templates (no API key required)'
-        : 'Running in Real Mode - using Anthropic AI for personalized analysis',
+    mode: provider?.name ?? 'none',
+    description: provider?.description ?? 'No analysis provider is available',
+    providers: getProviderChain().map((candidate) => ({
+      name: candidate.name,
+      available: candidate.isAvailable(),
+    })),
   });
 }
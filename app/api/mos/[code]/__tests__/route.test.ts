@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { getCrosswalkVersion } from '@/src/lib/crosswalk';
+
+function callRoute(code: string, query = '') {
+  const request = new NextRequest(
+    `http://localhost:3000/api/mos/${encodeURIComponent(code)}${query}`
+  );
+  return GET(request, { params: Promise.resolve({ code }) });
+}
+
+describe('GET /api/mos/[code]', () => {
+  it('returns civilian equivalents for a known code', async () => {
+    const response = await callRoute('25B');
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.crosswalkVersion).toBe(getCrosswalkVersion().version);
+    expect(data.matches).toHaveLength(1);
+    expect(data.matches[0].occupations[0]).toEqual({
+      socCode: '15-1232.00',
+      title: 'Computer User Support Specialists',
+    });
+  });
+
+  it('filters shared codes by branch', async () => {
+    const response = await callRoute('IT', '?branch=Coast%20Guard');
+
+    const data = await response.json();
+    expect(data.branch).toBe('Coast Guard');
+    expect(data.matches.map((match: { branch: string }) => match.branch)).toEqual(['Coast Guard']);
+  });
+
+  it('accepts branch names in any case', async () => {
+    const response = await callRoute('BM', '?branch=navy');
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.branch).toBe('Navy');
+    expect(data.matches.map((match: { branch: string }) => match.branch)).toEqual(['Navy']);
+  });
+
+  it('returns 404 for unknown codes', async () => {
+    const response = await callRoute('99Z');
+
+    expect(response.status).toBe(404);
+    const data = await response.json();
+    expect(data.error).toBe('Not found');
+  });
+
+  it('returns 400 for unknown branches', async () => {
+    const response = await callRoute('11B', '?branch=Merchant%20Marine');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 400 for overly long codes', async () => {
+    const response = await callRoute('X'.repeat(17));
+
+    expect(response.status).toBe(400);
+  });
+});
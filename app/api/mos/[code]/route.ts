@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMilitaryBranch, getCrosswalkVersion, lookupMilitaryCode } from '@/src/lib/crosswalk';
+
+/**
+ * GET /api/mos/[code]
+ *
+ * Returns the civilian (O*NET-SOC) equivalents of a military job code from the
+ * bundled crosswalk. Pass `?branch=Navy` (any case) to disambiguate codes shared
+ * between branches; the response names the branch as the crosswalk spells it.
+ *
+ * **Responses**:
+ * - 200: `{ code, branch, crosswalkVersion, onetTaxonomy, matches }`
+ * - 400: Unknown branch or code too long
+ * - 404: Code not found in the crosswalk
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const branchParam = request.nextUrl.searchParams.get('branch');
+  const branch = branchParam ? findMilitaryBranch(branchParam) : undefined;
+
+  if (code.length > 16) {
+    return NextResponse.json(
+      { error: 'Invalid code', message: 'Job codes are at most 16 characters' },
+      { status: 400 }
+    );
+  }
+
+  if (branchParam && !branch) {
+    return NextResponse.json(
+      { error: 'Invalid branch', message: `Unknown branch "${branchParam}"` },
+      { status: 400 }
+    );
+  }
+
+  const { version, onetTaxonomy } = getCrosswalkVersion();
+  const matches = lookupMilitaryCode(code, branch);
+
+  if (!matches.length) {
+    return NextResponse.json(
+      {
+        error: 'Not found',
+        message: `No civilian equivalents found for "${code}"`,
+        crosswalkVersion: version,
+      },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    code,
+    branch: branch ?? null,
+    crosswalkVersion: version,
+    onetTaxonomy,
+    matches,
+  });
+}
@@ -4,43 +4,87 @@ import { useState } from 'react';
 import IntakeForm from '@/components/IntakeForm';
 import ResultsDisplay from '@/components/ResultsDisplay';
 import ResultsSkeleton from '@/components/ResultsSkeleton';
-import { VeteranProfile, AnalysisResult } from '@/types';
+import { readServerSentEvents } from '@/src/lib/analyzer/sse';
+import { VeteranProfile, AnalysisResult, AnalysisMetadata, CareerPathway } from '@/types';
 
 export default function Home() {
   const [stage, setStage] = useState<'intake' | 'loading' | 'results' | 'error'>('intake');
   const [results, setResults] = useState<AnalysisResult | null>(null);
+  const [metadata, setMetadata] = useState<AnalysisMetadata | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState(false);
 
   const handleFormComplete = async (profile: VeteranProfile) => {
     setStage('loading');
+    setStreaming(true);
 
     try {
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify(profile),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to analyze profile');
       }
 
-      const result: AnalysisResult = await response.json();
-      setResults(result);
+      // Show pathways as they arrive; the complete event replaces them with the final result
+      let summary = '';
+      let pathways: CareerPathway[] = [];
+      let completed = false;
+
+      await readServerSentEvents(response.body, (event) => {
+        switch (event.type) {
+          case 'summary':
+            summary = event.summary;
+            break;
+          case 'pathway':
+            pathways = [...pathways];
+            pathways[event.index] = event.pathway;
+            break;
+          case 'reset':
+            summary = '';
+            pathways = [];
+            setStage('loading');
+            return;
+          case 'complete':
+            completed = true;
+            setResults(event.result);
+            setMetadata(event.metadata);
+            setStage('results');
+            return;
+          case 'error':
+            throw new Error(event.error);
+        }
+
+        const arrived = pathways.filter(Boolean);
+        if (arrived.length) {
+          setResults({ summary, pathways: arrived });
+          setStage('results');
+        }
+      });
+
+      if (!completed) {
+        throw new Error('Analysis stream ended before the result');
+      }
       setErrorMessage(null);
-      setStage('results');
     } catch (error) {
       console.error('Error:', error);
       setErrorMessage('We were unable to generate pathways. Please try again.');
       setStage('error');
+    } finally {
+      setStreaming(false);
     }
   };
 
   const handleStartOver = () => {
     setStage('intake');
     setResults(null);
+    setMetadata(null);
     setErrorMessage(null);
   };
 
@@ -61,7 +105,12 @@ export default function Home() {
         {stage === 'loading' && <ResultsSkeleton />}
 
         {stage === 'results' && results && (
-          <ResultsDisplay result={results} onStartOver={handleStartOver} />
+          <ResultsDisplay
+            result={results}
+            metadata={metadata}
+            streaming={streaming}
+            onStartOver={handleStartOver}
+          />
         )}
 
         {stage === 'error' && (
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { CareerPathway } from '@/types';
+import { today as currentDate } from '@/src/lib/dates';
+
+interface AddToCalendarProps {
+  pathway: CareerPathway;
+}
+
+export default function AddToCalendar({ pathway }: AddToCalendarProps) {
+  const [startDate, setStartDate] = useState(
+    () => pathway.roadmap.find((phase) => phase.startDate)?.startDate ?? currentDate()
+  );
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  const handleDownload = async () => {
+    setStatus('loading');
+
+    try {
+      const response = await fetch('/api/calendar', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pathway, startDate }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export calendar');
+      }
+
+      const fileName =
+        response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'roadmap.ics';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus('idle');
+    } catch (error) {
+      console.error('Error:', error);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-end gap-3 border-t border-slate-200 pt-4">
+      <label className="text-xs font-medium text-slate-600">
+        Start date
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="mt-1 block rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900"
+        />
+      </label>
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={!startDate || status === 'loading'}
+        className="rounded-full border border-slate-200 bg-white px-4 py-1.5 text-xs font-semibold text-slate-700 shadow-sm hover:border-slate-300 hover:text-slate-900 disabled:opacity-50"
+      >
+        {status === 'loading' ? 'Preparing…' : 'Add to calendar (.ics)'}
+      </button>
+      {status === 'error' ? (
+        <p role="alert" className="w-full text-xs text-rose-700">
+          We could not create the calendar file. Please try again.
+        </p>
+      ) : null}
+    </div>
+  );
+}
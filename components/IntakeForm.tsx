@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { VeteranProfile } from '@/types';
+import { PROFILE_TEXT_LIMITS } from '@/src/lib/analyzer/types';
 
 interface IntakeFormProps {
   onComplete: (profile: VeteranProfile) => void;
@@ -17,7 +18,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
 
   const updateProfile = (
     field: keyof VeteranProfile,
-    value: string | number | boolean | string[]
+    value: string | number | boolean | string[] | undefined
   ) => {
     setProfile({ ...profile, [field]: value });
   };
@@ -36,7 +37,11 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
 
   const addToArray = (field: keyof VeteranProfile, value: string) => {
     const current = (profile[field] as string[]) || [];
-    if (value.trim() && !current.includes(value.trim())) {
+    if (
+      value.trim() &&
+      !current.includes(value.trim()) &&
+      current.length < PROFILE_TEXT_LIMITS.listItems
+    ) {
       updateProfile(field, [...current, value.trim()]);
     }
   };
@@ -102,10 +107,46 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Separation Date (ETS/EAS, optional)
+            </label>
+            <input
+              type="date"
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={profile.separationDate ?? ''}
+              onChange={(e) => updateProfile('separationDate', e.target.value || undefined)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              VA Disability Rating (optional)
+            </label>
+            <select
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={profile.disabilityRating ?? ''}
+              onChange={(e) =>
+                updateProfile(
+                  'disabilityRating',
+                  e.target.value === '' ? undefined : parseInt(e.target.value)
+                )
+              }
+            >
+              <option value="">None / not rated yet</option>
+              {[0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100].map((rating) => (
+                <option key={rating} value={rating}>
+                  {rating}%
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Final Rank</label>
             <input
               type="text"
+              maxLength={PROFILE_TEXT_LIMITS.line}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               value={profile.rank || ''}
               onChange={(e) => updateProfile('rank', e.target.value)}
@@ -117,6 +158,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <label className="block text-sm font-medium text-gray-700 mb-2">MOS / Job Code</label>
             <input
               type="text"
+              maxLength={PROFILE_TEXT_LIMITS.line}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               value={profile.mos || ''}
               onChange={(e) => updateProfile('mos', e.target.value)}
@@ -136,6 +178,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <div className="flex gap-2 mb-2">
               <input
                 type="text"
+                maxLength={PROFILE_TEXT_LIMITS.line}
                 className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 placeholder="Add a skill (e.g., Project Management, Logistics)"
                 onKeyPress={(e) => {
@@ -170,6 +213,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <div className="flex gap-2 mb-2">
               <input
                 type="text"
+                maxLength={PROFILE_TEXT_LIMITS.line}
                 className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 placeholder="Add a certification (e.g., PMP, CompTIA)"
                 onKeyPress={(e) => {
@@ -206,6 +250,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <textarea
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               rows={4}
+              maxLength={PROFILE_TEXT_LIMITS.paragraph}
               value={profile.leadershipExperience || ''}
               onChange={(e) => updateProfile('leadershipExperience', e.target.value)}
               placeholder="Describe your leadership roles and team management experience..."
@@ -276,6 +321,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <label className="block text-sm font-medium text-gray-700 mb-2">Current Location</label>
             <input
               type="text"
+              maxLength={PROFILE_TEXT_LIMITS.line}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               value={profile.currentLocation || ''}
               onChange={(e) => updateProfile('currentLocation', e.target.value)}
@@ -319,6 +365,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
               <div className="flex gap-2 mb-2">
                 <input
                   type="text"
+                  maxLength={PROFILE_TEXT_LIMITS.line}
                   className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="Add a location (e.g., Austin, TX)"
                   onKeyPress={(e) => {
@@ -361,6 +408,7 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             <textarea
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               rows={4}
+              maxLength={PROFILE_TEXT_LIMITS.paragraph}
               value={profile.careerGoals || ''}
               onChange={(e) => updateProfile('careerGoals', e.target.value)}
               placeholder="What kind of career are you looking for? What matters most to you?"
@@ -406,6 +454,27 @@ export default function IntakeForm({ onComplete }: IntakeFormProps) {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GI Bill Months Already Used (optional)
+            </label>
+            <input
+              type="number"
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={profile.giBillMonthsUsed ?? ''}
+              onChange={(e) => {
+                const months = parseInt(e.target.value, 10);
+                updateProfile(
+                  'giBillMonthsUsed',
+                  Number.isNaN(months) ? undefined : Math.min(36, Math.max(0, months))
+                );
+              }}
+              min="0"
+              max="36"
+              placeholder="e.g., 0"
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Timeline to Start Working
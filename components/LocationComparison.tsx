@@ -0,0 +1,118 @@
+'use client';
+
+import { AnalysisResult } from '@/types';
+import { formatIncomeRange } from '@/src/lib/analyzer/income';
+import { getPathwayLabel } from '@/src/lib/analyzer/pathwayTypes';
+
+interface LocationComparisonProps {
+  result: AnalysisResult;
+}
+
+const demandStyles: Record<string, string> = {
+  high: 'bg-emerald-100 text-emerald-800',
+  moderate: 'bg-amber-100 text-amber-800',
+  low: 'bg-rose-100 text-rose-800',
+};
+
+const retirementLabels: Record<string, string> = {
+  exempt: 'Military retirement exempt',
+  partial: 'Military retirement partly taxed',
+  taxed: 'Military retirement taxed',
+};
+
+export default function LocationComparison({ result }: LocationComparisonProps) {
+  const locations = result.locations ?? [];
+  if (locations.length < 2) return null;
+
+  return (
+    <div className="mt-10">
+      <div className="mb-5">
+        <h2 className="text-lg font-semibold text-slate-900">Compare Locations</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Year 1 and year 5 pay in each location, with adjusted figures at U.S.-average prices.
+          Confirm state benefits with the state veterans affairs office.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white/80 shadow-sm">
+        <table className="min-w-full text-left text-sm">
+          <thead className="border-b border-slate-200 text-xs uppercase tracking-wider text-slate-500">
+            <tr>
+              <th scope="col" className="px-4 py-3 font-semibold">
+                Location
+              </th>
+              <th scope="col" className="px-4 py-3 font-semibold">
+                State Benefits
+              </th>
+              {result.pathways.map((pathway) => (
+                <th key={pathway.type} scope="col" className="px-4 py-3 font-semibold">
+                  {getPathwayLabel(pathway.type)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 align-top">
+            {locations.map((location, index) => (
+              <tr key={location.location}>
+                <th scope="row" className="px-4 py-3 font-normal">
+                  <div className="font-semibold text-slate-900">{location.location}</div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    {location.market} · cost of living {location.costIndex}
+                  </div>
+                </th>
+                <td className="max-w-xs px-4 py-3 text-xs text-slate-600">
+                  {location.stateBenefits ? (
+                    <>
+                      <div className="font-semibold text-slate-900">
+                        {location.stateBenefits.state}
+                      </div>
+                      <div className="mt-1">
+                        {location.stateBenefits.incomeTax ? 'State income tax' : 'No income tax'}
+                        {' · '}
+                        {retirementLabels[location.stateBenefits.militaryRetirement]}
+                      </div>
+                      <ul className="mt-1 list-disc space-y-1 pl-4">
+                        {location.stateBenefits.highlights.slice(0, 2).map((highlight) => (
+                          <li key={highlight}>{highlight}</li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    'No state data'
+                  )}
+                </td>
+                {result.pathways.map((pathway) => {
+                  const outlook = pathway.locationBreakdown?.[index];
+                  return (
+                    <td key={pathway.type} className="px-4 py-3">
+                      {outlook ? (
+                        <>
+                          <div className="font-semibold text-slate-900">
+                            {formatIncomeRange(outlook.incomeTrajectory.year1)}
+                          </div>
+                          <div className="text-xs text-slate-500">
+                            {formatIncomeRange(outlook.adjustedTrajectory.year1)} adjusted
+                          </div>
+                          <div className="mt-1 text-xs text-emerald-700">
+                            Year 5: {formatIncomeRange(outlook.incomeTrajectory.year5)}
+                          </div>
+                          <span
+                            className={`mt-2 inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${demandStyles[outlook.demandLevel]}`}
+                          >
+                            {outlook.demandLevel} demand
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-xs text-slate-500">-</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
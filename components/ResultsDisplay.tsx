@@ -1,52 +1,49 @@
 'use client';
 
 import { useMemo, useState, type ReactNode } from 'react';
-import { AnalysisResult, CareerPathway } from '@/types';
+import { AnalysisMetadata, AnalysisResult, CareerPathway, TemplateScore } from '@/types';
 import RoadmapView from '@/components/RoadmapView';
+import AddToCalendar from '@/components/AddToCalendar';
+import LocationComparison from '@/components/LocationComparison';
+import { formatIncomeRange } from '@/src/lib/analyzer/income';
+import { formatDuration, spanDurations, sumDurations } from '@/src/lib/analyzer/duration';
+import { formatCostRange, formatFundingSources, sumOutOfPocket } from '@/src/lib/analyzer/cost';
+import {
+  getPathwayLabel,
+  isPathwayType,
+  PATHWAY_TYPE_DEFINITIONS,
+} from '@/src/lib/analyzer/pathwayTypes';
 
 interface ResultsDisplayProps {
   result: AnalysisResult;
+  metadata?: AnalysisMetadata | null;
+  /** More pathways are still arriving */
+  streaming?: boolean;
   onStartOver: () => void;
 }
 
-const pathwayStyles = {
-  'fast-income': {
-    badge: 'bg-emerald-600',
-    accent: 'from-emerald-50 via-white to-white',
-    border: 'border-emerald-200',
-  },
-  balanced: {
-    badge: 'bg-blue-600',
-    accent: 'from-blue-50 via-white to-white',
-    border: 'border-blue-200',
-  },
-  'max-upside': {
-    badge: 'bg-indigo-600',
-    accent: 'from-indigo-50 via-white to-white',
-    border: 'border-indigo-200',
-  },
-  default: {
-    badge: 'bg-slate-600',
-    accent: 'from-slate-50 via-white to-white',
-    border: 'border-slate-200',
-  },
-} as const;
-
-const getPathwayLabel = (type: string) => {
-  switch (type) {
-    case 'fast-income':
-      return 'Fast Income';
-    case 'balanced':
-      return 'Balanced Growth';
-    case 'max-upside':
-      return 'Maximum Upside';
-    default:
-      return type;
-  }
+const defaultPathwayStyle = {
+  badge: 'bg-slate-600',
+  accent: 'from-slate-50 via-white to-white',
+  border: 'border-slate-200',
+};
+
+const getPathwayStyles = (type: string) =>
+  isPathwayType(type) ? PATHWAY_TYPE_DEFINITIONS[type].style : defaultPathwayStyle;
+
+// Static class names so Tailwind can see them
+const tabColumns: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
 };
 
-const getPathwayStyles = (type: CareerPathway['type']) =>
-  pathwayStyles[type] ?? pathwayStyles.default;
+const cardColumns: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
 
 interface SectionProps {
   title: string;
@@ -90,60 +87,16 @@ function Section({ title, summary, defaultOpen, children }: SectionProps) {
   );
 }
 
-const pluralize = (count: number, singular: string, plural: string) =>
-  `${count} ${count === 1 ? singular : plural}`;
-
-const parseDurationRange = (value: string) => {
-  const lower = value.toLowerCase();
-  const matches = value.match(/[\d.]+/g);
-  if (!matches) return null;
-
-  const values = matches
-    .map((match) => Number.parseFloat(match))
-    .filter((val) => !Number.isNaN(val));
-  if (!values.length) return null;
-
-  let multiplier = 1;
-  if (lower.includes('year')) {
-    multiplier = 12;
-  } else if (lower.includes('week')) {
-    multiplier = 1 / 4;
-  }
-
-  const min = Math.min(...values) * multiplier;
-  const max = Math.max(...values) * multiplier;
-
-  return { min, max };
-};
-
-const formatDurationRange = (range: { min: number; max: number } | null) => {
-  if (!range) return null;
-
-  const min = Math.round(range.min * 10) / 10;
-  const max = Math.round(range.max * 10) / 10;
-  if (max < 12) {
-    const minLabel = Number.isInteger(min) ? `${min}` : `${min}`.replace(/\.0$/, '');
-    const maxLabel = Number.isInteger(max) ? `${max}` : `${max}`.replace(/\.0$/, '');
-    return minLabel === maxLabel ? `${minLabel} months` : `${minLabel}–${maxLabel} months`;
-  }
-
-  const minYears = min / 12;
-  const maxYears = max / 12;
-  const formatYears = (value: number) => `${Math.round(value * 10) / 10}`.replace(/\.0$/, '');
+const trajectoryYears = [
+  { key: 'year1', label: 'Year 1' },
+  { key: 'year3', label: 'Year 3' },
+  { key: 'year5', label: 'Year 5' },
+] as const;
 
-  return formatYears(minYears) === formatYears(maxYears)
-    ? `${formatYears(minYears)} years`
-    : `${formatYears(minYears)}–${formatYears(maxYears)} years`;
-};
-
-const parseCostValue = (value: string) => {
-  const matches = value.match(/[\d,.]+/g);
-  if (!matches) return null;
-  const numberValue = Number.parseFloat(matches[0].replace(/,/g, ''));
-  return Number.isNaN(numberValue) ? null : numberValue;
-};
+const formatDollars = (value: number) => formatCostRange(value, value);
 
-const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+const pluralize = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
 
 const getWhyBullets = (whyThisPath: string) =>
   whyThisPath
@@ -155,39 +108,24 @@ const getWhyBullets = (whyThisPath: string) =>
 function PathwayCard({ pathway }: { pathway: CareerPathway }) {
   const style = getPathwayStyles(pathway.type);
   const totalSteps = pathway.roadmap.reduce((sum, phase) => sum + phase.steps.length, 0);
-  const roadmapDuration = pathway.roadmap.reduce<{ min: number; max: number } | null>(
-    (acc, phase) => {
-      const range = parseDurationRange(phase.duration);
-      if (!range) return acc;
-      if (!acc) return { ...range };
-      return { min: acc.min + range.min, max: acc.max + range.max };
-    },
-    null
-  );
+  const roadmapDuration = sumDurations(pathway.roadmap.map((phase) => phase.duration));
   const roadmapSummaryParts = [
     pluralize(pathway.roadmap.length, 'phase', 'phases'),
     pluralize(totalSteps, 'step', 'steps'),
-    formatDurationRange(roadmapDuration),
+    roadmapDuration ? formatDuration(roadmapDuration) : null,
   ].filter(Boolean);
   const roadmapSummary = roadmapSummaryParts.join(' · ');
 
-  const credentialCosts = pathway.requiredCredentials
-    .map((credential) => parseCostValue(credential.cost))
-    .filter((value): value is number => value !== null);
-  const totalCredentialCost = credentialCosts.reduce((sum, value) => sum + value, 0);
-  const credentialTimelineRange = pathway.requiredCredentials.reduce<{
-    min: number;
-    max: number;
-  } | null>((acc, credential) => {
-    const range = parseDurationRange(credential.timeline);
-    if (!range) return acc;
-    if (!acc) return { ...range };
-    return { min: Math.min(acc.min, range.min), max: Math.max(acc.max, range.max) };
-  }, null);
+  const outOfPocket = sumOutOfPocket(pathway.requiredCredentials);
+  const credentialTimeline = spanDurations(
+    pathway.requiredCredentials.map((credential) => credential.timeline)
+  );
   const credentialSummaryParts = [
     pluralize(pathway.requiredCredentials.length, 'credential', 'credentials'),
-    totalCredentialCost > 0 ? `est ${formatCurrency(totalCredentialCost)}` : null,
-    formatDurationRange(credentialTimelineRange),
+    pathway.requiredCredentials.length
+      ? `${formatCostRange(outOfPocket.min, outOfPocket.max)} out of pocket`
+      : null,
+    credentialTimeline ? formatDuration(credentialTimeline) : null,
   ].filter(Boolean);
   const credentialSummary = credentialSummaryParts.join(' · ');
 
@@ -197,6 +135,8 @@ function PathwayCard({ pathway }: { pathway: CareerPathway }) {
     `Stability ${pathway.familyImpact.stability}`,
   ].join(' · ');
 
+  const { costOfLiving, giBill, incomeComparison } = pathway;
+
   const whyBullets = getWhyBullets(pathway.whyThisPath);
   const shouldRenderWhyBullets = whyBullets.length >= 3;
   const whySummary = whyBullets[0] ?? pathway.whyThisPath;
@@ -212,33 +152,71 @@ function PathwayCard({ pathway }: { pathway: CareerPathway }) {
           >
             {getPathwayLabel(pathway.type)}
           </span>
+          {pathway.filledFrom === 'demo' && (
+            <span className="ml-2 inline-flex items-center rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-900">
+              Template pathway
+            </span>
+          )}
           <h2 className="mt-4 text-3xl font-semibold text-slate-900">{pathway.title}</h2>
+          {pathway.filledFrom === 'demo' && (
+            <p className="mt-1 text-xs text-amber-800">
+              The AI analysis for this pathway could not be validated, so it comes from a curated
+              template and is not personalized.
+            </p>
+          )}
           <p className="mt-2 text-sm leading-relaxed text-slate-700">{pathway.description}</p>
         </div>
       </div>
 
-      <div className="grid grid-cols-2 gap-3 rounded-xl border border-slate-200 bg-white/70 p-4 text-sm">
-        <div>
-          <p className="text-xs uppercase tracking-wider text-slate-500">Year 1</p>
-          <p className="mt-1 font-semibold text-slate-900">{pathway.incomeTrajectory.year1}</p>
-        </div>
-        <div>
-          <p className="text-xs uppercase tracking-wider text-slate-500">Year 3</p>
-          <p className="mt-1 font-semibold text-slate-900">{pathway.incomeTrajectory.year3}</p>
-        </div>
-        <div>
-          <p className="text-xs uppercase tracking-wider text-slate-500">Year 5</p>
-          <p className="mt-1 font-semibold text-emerald-700">{pathway.incomeTrajectory.year5}</p>
-        </div>
-        <div>
-          <p className="text-xs uppercase tracking-wider text-slate-500">Time</p>
-          <p className="mt-1 font-semibold text-slate-900">{pathway.familyImpact.timeCommitment}</p>
+      <div className="rounded-xl border border-slate-200 bg-white/70 p-4 text-sm">
+        <div className="grid grid-cols-2 gap-3">
+          {trajectoryYears.map(({ key, label }) => (
+            <div key={key}>
+              <p className="text-xs uppercase tracking-wider text-slate-500">{label}</p>
+              <p
+                className={`mt-1 font-semibold ${key === 'year5' ? 'text-emerald-700' : 'text-slate-900'}`}
+              >
+                {formatIncomeRange(pathway.incomeTrajectory[key])}
+              </p>
+              {costOfLiving && (
+                <p className="text-xs text-slate-500">
+                  {formatIncomeRange(costOfLiving.adjustedTrajectory[key])} adjusted
+                </p>
+              )}
+            </div>
+          ))}
+          <div>
+            <p className="text-xs uppercase tracking-wider text-slate-500">Time</p>
+            <p className="mt-1 font-semibold text-slate-900">
+              {pathway.familyImpact.timeCommitment}
+            </p>
+          </div>
         </div>
+        {incomeComparison && (
+          <p
+            className={`mt-3 border-t border-slate-200 pt-3 text-xs font-medium ${incomeComparison.meetsExpectation ? 'text-emerald-700' : 'text-amber-700'}`}
+          >
+            Year 1 household income{incomeComparison.vaCompensation ? ' with VA compensation' : ''}:{' '}
+            {formatCostRange(
+              incomeComparison.householdYear1.min,
+              incomeComparison.householdYear1.max
+            )}{' '}
+            {incomeComparison.meetsExpectation ? 'meets' : 'is below'} your{' '}
+            {formatDollars(incomeComparison.expected.min)} expectation.
+          </p>
+        )}
+        {costOfLiving && (
+          <p className="mt-3 border-t border-slate-200 pt-3 text-xs text-slate-500">
+            Pay in {costOfLiving.market} (cost of living {costOfLiving.costIndex} vs. U.S. average
+            100). Adjusted figures show what that pay buys at U.S.-average prices.
+          </p>
+        )}
       </div>
 
       <div className="space-y-3">
         <Section title="Step-by-Step Roadmap" summary={roadmapSummary} defaultOpen>
           <RoadmapView roadmap={pathway.roadmap} />
+          <AddToCalendar pathway={pathway} />
         </Section>
         <Section title="Required Credentials" summary={credentialSummary}>
           {pathway.requiredCredentials.length ? (
@@ -250,8 +228,21 @@ function PathwayCard({ pathway }: { pathway: CareerPathway }) {
                 >
                   <div className="text-sm font-semibold text-slate-900">{cred.name}</div>
                   <div className="mt-2 flex items-center justify-between text-xs text-slate-600">
-                    <span>Timeline: {cred.timeline}</span>
-                    <span>Cost: {cred.cost}</span>
+                    <span>Timeline: {formatDuration(cred.timeline)}</span>
+                    <span>
+                      Cost: {formatCostRange(cred.cost.min, cred.cost.max, cred.cost.currency)}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center justify-between text-xs text-slate-600">
+                    <span>{formatFundingSources(cred.cost) || 'No funding sources listed'}</span>
+                    <span className="font-semibold text-slate-700">
+                      You pay:{' '}
+                      {formatCostRange(
+                        cred.cost.outOfPocket.min,
+                        cred.cost.outOfPocket.max,
+                        cred.cost.currency
+                      )}
+                    </span>
                   </div>
                 </div>
               ))}
@@ -259,6 +250,16 @@ function PathwayCard({ pathway }: { pathway: CareerPathway }) {
           ) : (
             <p className="text-sm text-slate-600">No required credentials listed.</p>
           )}
+          {giBill && (
+            <p className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-xs text-emerald-900">
+              Post-9/11 GI Bill ({giBill.percent}%): about {formatDollars(giBill.monthlyHousing)}
+              /month housing in {giBill.housingMarket} while studying (
+              {formatDollars(giBill.housingWhileStudying)} in total) plus up to{' '}
+              {formatDollars(giBill.annualBookStipend)}
+              /year for books. Uses {giBill.entitlementMonthsUsed} months of entitlement,{' '}
+              {giBill.entitlementMonthsRemaining} left.
+            </p>
+          )}
         </Section>
         <Section title="Family Impact" summary={familySummary}>
           <div className="space-y-3">
@@ -291,7 +292,65 @@ function PathwayCard({ pathway }: { pathway: CareerPathway }) {
   );
 }
 
-export default function ResultsDisplay({ result, onStartOver }: ResultsDisplayProps) {
+function ProvenanceBanner({
+  metadata,
+  templateScore,
+}: {
+  metadata: AnalysisMetadata;
+  templateScore?: TemplateScore;
+}) {
+  // Any provider in the chain may have answered after a fallback; only Demo Mode is templated
+  const fallbackNotice =
+    metadata.fallback && metadata.fallbackReason ? (
+      <p className="mt-1 text-xs">Fallback: {metadata.fallbackReason}</p>
+    ) : null;
+
+  if (metadata.provider !== 'demo') {
+    return (
+      <div className="mb-4 text-xs font-medium text-slate-500">
+        <p>
+          {metadata.provider === 'real'
+            ? 'AI-generated analysis'
+            : `Analysis from the ${metadata.provider} provider`}
+          {metadata.model ? ` · ${metadata.model}` : ''}
+          {metadata.promptVersion ? ` · prompt ${metadata.promptVersion}` : ''}
+        </p>
+        {fallbackNotice}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      className="mb-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900"
+    >
+      <p className="font-semibold">
+        {metadata.fallback
+          ? 'AI analysis was unavailable — showing template-based demo pathways'
+          : 'Demo mode — showing template-based pathways, not AI analysis'}
+      </p>
+      {fallbackNotice}
+      <p className="mt-1 text-xs text-amber-800">
+        These pathways come from curated templates
+        {metadata.demoTemplateId ? ` (${metadata.demoTemplateId})` : ''} and are not personalized by
+        AI. Review them with a counselor before making decisions.
+      </p>
+      {templateScore?.reasons.length ? (
+        <p className="mt-1 text-xs text-amber-800">
+          Template matched on: {templateScore.reasons.join(', ')}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+export default function ResultsDisplay({
+  result,
+  metadata,
+  streaming,
+  onStartOver,
+}: ResultsDisplayProps) {
   const [activeIndex, setActiveIndex] = useState(0);
 
   const pathways = useMemo(() => result.pathways ?? [], [result.pathways]);
@@ -337,18 +396,37 @@ export default function ResultsDisplay({ result, onStartOver }: ResultsDisplayPr
         </button>
       </div>
 
+      {metadata ? (
+        <ProvenanceBanner metadata={metadata} templateScore={result.templateRanking?.[0]} />
+      ) : null}
+
       <div className="rounded-2xl border border-slate-200 bg-white/80 p-6 shadow-sm">
         <p className="max-w-3xl text-base leading-relaxed text-slate-700">{result.summary}</p>
+        {result.vaCompensation ? (
+          <p className="mt-4 border-t border-slate-200 pt-4 text-sm text-slate-700">
+            <span className="font-semibold text-slate-900">Baseline household income:</span> VA
+            disability compensation at {result.vaCompensation.rating}% pays about{' '}
+            {formatDollars(result.vaCompensation.monthly)}/month (
+            {formatDollars(result.vaCompensation.annual)}/year, tax-free) on top of any pathway.
+          </p>
+        ) : null}
       </div>
 
       <div className="mt-8">
         <div className="mb-5 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-slate-900">Compare Pathways</h2>
+          {streaming ? (
+            <p role="status" className="animate-pulse text-xs font-medium text-slate-500">
+              Generating more pathways…
+            </p>
+          ) : null}
           <p className="text-xs text-slate-500 md:hidden">Tap a tab to compare on mobile</p>
         </div>
 
         <div className="md:hidden">
-          <div className="mb-4 grid grid-cols-3 gap-2 rounded-xl border border-slate-200 bg-white/80 p-2">
+          <div
+            className={`mb-4 grid ${tabColumns[pathways.length] ?? 'grid-cols-2'} gap-2 rounded-xl border border-slate-200 bg-white/80 p-2`}
+          >
             {pathways.map((pathway, idx) => {
               const isActive = idx === activeIndex;
               return (
@@ -370,13 +448,17 @@ export default function ResultsDisplay({ result, onStartOver }: ResultsDisplayPr
           <PathwayCard pathway={activePathway} />
         </div>
 
-        <div className="hidden md:grid md:grid-cols-3 md:gap-6">
+        <div
+          className={`hidden md:grid ${cardColumns[pathways.length] ?? 'md:grid-cols-2 xl:grid-cols-3'} md:gap-6`}
+        >
           {pathways.map((pathway, index) => (
             <PathwayCard key={`${pathway.type}-${index}`} pathway={pathway} />
           ))}
         </div>
       </div>
 
+      <LocationComparison result={result} />
+
       <div className="mt-10 rounded-2xl bg-slate-900 p-6 text-white shadow-lg">
         <h3 className="text-xl font-semibold">Ready to Take the Next Step?</h3>
         <p className="mt-2 text-sm text-slate-200">
@@ -1,30 +1,68 @@
 'use client';
 
 import { CareerPathway } from '@/types';
+import { formatDuration } from '@/src/lib/analyzer/duration';
+import { currentPhaseIndex } from '@/src/lib/analyzer/milestones';
+import { formatIsoDate, today as currentDate } from '@/src/lib/dates';
 
 interface RoadmapViewProps {
   roadmap: CareerPathway['roadmap'];
+  /** ISO calendar date for the "today" marker; defaults to the current date */
+  today?: string;
 }
 
-export default function RoadmapView({ roadmap }: RoadmapViewProps) {
+function TodayMarker({ today }: { today: string }) {
+  return (
+    <div className="flex items-center gap-2 text-xs font-semibold text-blue-700">
+      <span className="h-px flex-1 bg-blue-300" />
+      Today, {formatIsoDate(today)}
+      <span className="h-px flex-1 bg-blue-300" />
+    </div>
+  );
+}
+
+export default function RoadmapView({ roadmap, today = currentDate() }: RoadmapViewProps) {
   if (!roadmap.length) {
     return <p className="text-sm text-slate-600">No roadmap steps provided yet.</p>;
   }
 
+  const current = currentPhaseIndex(roadmap, today);
+
   return (
     <div className="space-y-4">
+      {current === -1 ? <TodayMarker today={today} /> : null}
       {roadmap.map((phase, idx) => (
         <div key={`${phase.phase}-${idx}`} className="relative pl-5">
-          <div className="absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full bg-slate-300" />
-          <div className="rounded-lg border border-slate-200 bg-white/70 p-3 shadow-sm">
+          <div
+            className={`absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full ${
+              idx === current ? 'bg-blue-600' : 'bg-slate-300'
+            }`}
+          />
+          <div
+            className={`rounded-lg border bg-white/70 p-3 shadow-sm ${
+              idx === current ? 'border-blue-300 ring-1 ring-blue-200' : 'border-slate-200'
+            }`}
+          >
             <div className="flex items-center justify-between gap-3">
               <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-600">
                 {phase.phase}
               </span>
               <span className="rounded-full bg-slate-100 px-2.5 py-1 text-xs font-medium text-slate-600">
-                {phase.duration}
+                {formatDuration(phase.duration)}
               </span>
             </div>
+            {phase.startDate ? (
+              <p className="mt-1 text-xs font-medium text-slate-500">
+                {phase.endDate
+                  ? `${formatIsoDate(phase.startDate)} - ${formatIsoDate(phase.endDate)}`
+                  : `From ${formatIsoDate(phase.startDate)}`}
+              </p>
+            ) : null}
+            {idx === current ? (
+              <p className="mt-1 text-xs font-semibold text-blue-700">
+                You should be here today ({formatIsoDate(today)})
+              </p>
+            ) : null}
             <ul className="mt-3 space-y-2 text-sm text-slate-700">
               {phase.steps.map((step, stepIdx) => (
                 <li key={`${phase.phase}-${stepIdx}`} className="flex gap-2">
@@ -36,6 +74,7 @@ export default function RoadmapView({ roadmap }: RoadmapViewProps) {
           </div>
         </div>
       ))}
+      {current === roadmap.length ? <TodayMarker today={today} /> : null}
     </div>
   );
 }
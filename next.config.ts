@@ -1,7 +1,11 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Demo pathway templates and prompt templates are read from disk at runtime, so ship
+  // them with the API routes
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./content/pathway-templates/**/*.json', './content/prompts/**/*.txt'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,219 @@
+/**
+ * Pathway template authoring CLI
+ *
+ * Usage:
+ *   npm run templates                       # validate, lint and report coverage
+ *   npm run templates -- lint               # validate and lint only
+ *   npm run templates -- coverage           # crosswalk coverage report only
+ *   npm run templates -- preview <id>       # render a template as an AnalysisResult
+ *   npm run templates -- preview <id> --profile profile.json
+ *   npm run templates -- preview <id> --types entrepreneurship,federal-service
+ *
+ * Options:
+ *   --dir <path>   Template directory (default: content/pathway-templates)
+ *
+ * Exits with status 1 when any template is invalid or has lint errors.
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  DEFAULT_TEMPLATES_DIR,
+  listPathwayTemplateFiles,
+  readPathwayTemplate,
+} from '../src/lib/analyzer/templateLoader';
+import {
+  AuditIssue,
+  buildCoverageReport,
+  lintPathwayTemplate,
+  previewTemplate,
+  SAMPLE_PROFILE,
+} from '../src/lib/analyzer/templateAudit';
+import {
+  AnalysisOptionsSchema,
+  PathwayTemplate,
+  VeteranProfileSchema,
+} from '../src/lib/analyzer/types';
+import {
+  isPathwayType,
+  PATHWAY_TYPES,
+  resolvePathwayTypes,
+} from '../src/lib/analyzer/pathwayTypes';
+
+const USAGE =
+  'Usage: npm run templates -- [check|lint|coverage|preview <id>] [--dir <path>] [--profile <file>] [--types <list>]';
+
+interface CliOptions {
+  command: string;
+  templateId?: string;
+  dir: string;
+  profilePath?: string;
+  pathwayTypes?: string[];
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const positional: string[] = [];
+  let dir = DEFAULT_TEMPLATES_DIR;
+  let profilePath: string | undefined;
+  let pathwayTypes: string[] | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dir') {
+      dir = path.resolve(argv[++i] ?? '');
+    } else if (arg === '--profile') {
+      profilePath = argv[++i];
+    } else if (arg === '--types') {
+      pathwayTypes = (argv[++i] ?? '').split(',').map((type) => type.trim());
+    } else if (arg === '--help' || arg === '-h') {
+      positional.unshift('help');
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return {
+    command: positional[0] ?? 'check',
+    templateId: positional[1],
+    dir,
+    profilePath,
+    pathwayTypes,
+  };
+}
+
+/**
+ * Validate every file, reporting all invalid files rather than stopping at the first
+ */
+function validateAll(dir: string): { templates: PathwayTemplate[]; errors: number } {
+  const files = listPathwayTemplateFiles(dir);
+  const templates: PathwayTemplate[] = [];
+  let errors = 0;
+
+  console.log(`Validating ${files.length} templates in ${path.relative(process.cwd(), dir)}`);
+  if (!files.length) {
+    console.log('  ✗ no templates found');
+    return { templates, errors: 1 };
+  }
+
+  for (const file of files) {
+    try {
+      templates.push(readPathwayTemplate(path.join(dir, file)));
+      console.log(`  ✓ ${file}`);
+    } catch (error) {
+      errors++;
+      console.log(`  ✗ ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { templates, errors };
+}
+
+function printLint(templates: PathwayTemplate[]): number {
+  const issues: AuditIssue[] = templates.flatMap(lintPathwayTemplate);
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+
+  console.log('\nLint');
+  for (const template of templates) {
+    const templateIssues = issues.filter((issue) => issue.templateId === template.id);
+    console.log(`  ${templateIssues.length ? '!' : '✓'} ${template.id}`);
+    templateIssues.forEach((issue) =>
+      console.log(`      ${issue.severity.padEnd(7)} ${issue.message}`)
+    );
+  }
+  console.log(`  ${errors} errors, ${issues.length - errors} warnings`);
+
+  return errors;
+}
+
+function printCoverage(templates: PathwayTemplate[]): void {
+  const coverage = buildCoverageReport(templates);
+  const covered = coverage.filter((field) => field.primaryTemplates.length).length;
+
+  console.log(`\nCoverage (${covered}/${coverage.length} career fields have a primary template)`);
+  for (const field of coverage) {
+    const codes = field.codes.map((entry) => `${entry.branch} ${entry.code}`).join(', ');
+    if (field.primaryTemplates.length) {
+      console.log(`  ✓ ${field.careerField}: ${field.primaryTemplates.join(', ')}`);
+    } else if (field.relatedTemplates.length) {
+      console.log(
+        `  ~ ${field.careerField}: related only (${field.relatedTemplates.join(', ')}) — ${codes}`
+      );
+    } else {
+      console.log(`  ✗ ${field.careerField}: no template — ${codes || 'no crosswalk codes'}`);
+    }
+  }
+}
+
+function runPreview(templates: PathwayTemplate[], options: CliOptions): number {
+  const template = templates.find((candidate) => candidate.id === options.templateId);
+  if (!template) {
+    console.error(
+      `Unknown template "${options.templateId ?? ''}". Available: ${templates
+        .map((candidate) => candidate.id)
+        .join(', ')}`
+    );
+    return 1;
+  }
+
+  const profile = options.profilePath
+    ? VeteranProfileSchema.parse(JSON.parse(readFileSync(options.profilePath, 'utf8')))
+    : SAMPLE_PROFILE;
+  const unknownTypes = options.pathwayTypes?.filter((type) => !isPathwayType(type)) ?? [];
+  if (unknownTypes.length) {
+    console.error(
+      `Unknown pathway type ${unknownTypes.map((type) => `"${type}"`).join(', ')}. Available: ${PATHWAY_TYPES.join(', ')}`
+    );
+    return 1;
+  }
+  const analysisOptions = AnalysisOptionsSchema.safeParse({ pathwayTypes: options.pathwayTypes });
+  if (!analysisOptions.success) {
+    console.error(
+      `Invalid --types: ${analysisOptions.error.issues[0].message}. Available: ${PATHWAY_TYPES.join(', ')}`
+    );
+    return 1;
+  }
+  const pathwayTypes = resolvePathwayTypes(analysisOptions.data);
+
+  console.log(JSON.stringify(previewTemplate(template, profile, pathwayTypes), null, 2));
+  return 0;
+}
+
+function main(argv: string[]): number {
+  const options = parseArgs(argv);
+
+  if (options.command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (options.command === 'preview') {
+    const templates = listPathwayTemplateFiles(options.dir).map((file) =>
+      readPathwayTemplate(path.join(options.dir, file))
+    );
+    return runPreview(templates, options);
+  }
+
+  const { templates, errors } = validateAll(options.dir);
+
+  switch (options.command) {
+    case 'check': {
+      const lintErrors = printLint(templates);
+      printCoverage(templates);
+      return errors + lintErrors > 0 ? 1 : 0;
+    }
+    case 'lint':
+      return errors + printLint(templates) > 0 ? 1 : 0;
+    case 'coverage':
+      printCoverage(templates);
+      return errors > 0 ? 1 : 0;
+    default:
+      console.error(`Unknown command "${options.command}"\n${USAGE}`);
+      return 1;
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
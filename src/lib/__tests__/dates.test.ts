@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, daysBetween, formatIsoDate, laterDate, parseIsoDate, toIsoDate } from '../dates';
+
+describe('dates', () => {
+  it('round-trips ISO dates in UTC', () => {
+    expect(toIsoDate(parseIsoDate('2027-03-31'))).toBe('2027-03-31');
+  });
+
+  it('adds days across month and year boundaries', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2027-03-01', -1)).toBe('2027-02-28');
+  });
+
+  it('counts days between dates', () => {
+    expect(daysBetween('2026-10-19', '2027-04-17')).toBe(180);
+    expect(daysBetween('2027-04-17', '2026-10-19')).toBe(-180);
+  });
+
+  it('picks the later date', () => {
+    expect(laterDate('2026-10-19', '2027-01-01')).toBe('2027-01-01');
+  });
+
+  it('formats dates for display', () => {
+    expect(formatIsoDate('2027-03-31')).toBe('Mar 31, 2027');
+  });
+});
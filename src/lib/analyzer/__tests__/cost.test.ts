@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  credentialCost,
+  formatCostRange,
+  formatFundingSources,
+  parseCostString,
+  sumOutOfPocket,
+  upgradeLegacyCost,
+} from '../cost';
+import { durationMonths } from '../duration';
+
+describe('credentialCost', () => {
+  it('treats costs without funding sources as paid out of pocket', () => {
+    expect(credentialCost(1000, 2000)).toEqual({
+      min: 1000,
+      max: 2000,
+      currency: 'USD',
+      fundingSources: ['out-of-pocket'],
+      outOfPocket: { min: 1000, max: 2000 },
+    });
+  });
+
+  it('defaults out-of-pocket to zero when a funding source covers the cost', () => {
+    expect(credentialCost(40000, 60000, ['post-911-gi-bill']).outOfPocket).toEqual({
+      min: 0,
+      max: 0,
+    });
+  });
+
+  it('keeps an explicit out-of-pocket range', () => {
+    expect(
+      credentialCost(250, 250, ['cool', 'out-of-pocket'], { min: 0, max: 250 }).outOfPocket
+    ).toEqual({ min: 0, max: 250 });
+  });
+});
+
+describe('parseCostString', () => {
+  it('parses plain dollar ranges as out-of-pocket', () => {
+    expect(parseCostString('$1,000 - $1,500')).toEqual(credentialCost(1000, 1500));
+    expect(parseCostString('$250 (exam voucher)')).toEqual(credentialCost(250));
+  });
+
+  it('detects GI Bill funding', () => {
+    expect(parseCostString('$0 (GI Bill)')).toEqual(credentialCost(0, 0, ['post-911-gi-bill']));
+  });
+
+  it('reads amounts next to a funding source as the remaining out-of-pocket cost', () => {
+    expect(parseCostString('$5,000 - $15,000 (post-GI Bill)')).toEqual(
+      credentialCost(5000, 15000, ['post-911-gi-bill', 'out-of-pocket'], {
+        min: 5000,
+        max: 15000,
+      })
+    );
+  });
+
+  it('parses costs without amounts', () => {
+    expect(parseCostString('Often paid by department')).toEqual(
+      credentialCost(0, 0, ['employer-paid'])
+    );
+    expect(parseCostString('Free')).toEqual(credentialCost(0, 0, []));
+  });
+
+  it('ignores numbers in funding source names', () => {
+    expect(parseCostString('$0 (Post-9/11 GI Bill)')).toEqual(
+      credentialCost(0, 0, ['post-911-gi-bill'])
+    );
+  });
+
+  it('returns null when there is no amount or funding source', () => {
+    expect(parseCostString('Varies')).toBeNull();
+  });
+});
+
+describe('upgradeLegacyCost', () => {
+  it('upgrades strings and numbers, passes objects through', () => {
+    const structured = credentialCost(300);
+
+    expect(upgradeLegacyCost('$300')).toEqual(structured);
+    expect(upgradeLegacyCost(300)).toEqual(structured);
+    expect(upgradeLegacyCost(structured)).toBe(structured);
+    expect(upgradeLegacyCost('Varies')).toBe('Varies');
+  });
+});
+
+describe('sumOutOfPocket', () => {
+  it('totals out-of-pocket ranges across credentials', () => {
+    const credentials = [
+      { name: 'Security+', timeline: durationMonths(2), cost: credentialCost(392) },
+      {
+        name: 'Bachelor',
+        timeline: durationMonths(24),
+        cost: credentialCost(40000, 60000, ['post-911-gi-bill']),
+      },
+      {
+        name: 'CISSP',
+        timeline: durationMonths(3),
+        cost: credentialCost(749, 749, ['cool', 'out-of-pocket'], { min: 0, max: 749 }),
+      },
+    ];
+
+    expect(sumOutOfPocket(credentials)).toEqual({ min: 392, max: 1141 });
+    expect(sumOutOfPocket([])).toEqual({ min: 0, max: 0 });
+  });
+});
+
+describe('formatCostRange', () => {
+  it('formats ranges, single amounts and free costs', () => {
+    expect(formatCostRange(1000, 2000)).toBe('$1,000 - $2,000');
+    expect(formatCostRange(250, 250)).toBe('$250');
+    expect(formatCostRange(0, 0)).toBe('Free');
+  });
+});
+
+describe('formatFundingSources', () => {
+  it('labels funding sources', () => {
+    expect(formatFundingSources(credentialCost(500, 500, ['post-911-gi-bill', 'vr-e']))).toBe(
+      'Post-9/11 GI Bill, VR&E'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { localizePathway } from '../costOfLiving';
+import { analyzeDemoMode } from '../demoProvider';
+import { annualIncome } from '../income';
+import { CareerPathway, CareerPathwaySchema } from '../types';
+import { lookupMetro } from '../../costOfLiving';
+
+describe('localizePathway', () => {
+  const pathway = {
+    type: 'fast-income',
+    title: 'Network Technician',
+    description: 'Entry-level network support',
+    incomeTrajectory: {
+      year1: annualIncome(50000, 60000),
+      year3: annualIncome(60000, 75000),
+      year5: annualIncome(75000, 90000),
+    },
+    roadmap: [],
+    requiredCredentials: [],
+    familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+    whyThisPath: '',
+  } satisfies CareerPathway;
+
+  const seattle = lookupMetro('Seattle, WA');
+
+  it('scales national salaries to the market when asked', () => {
+    const localized = localizePathway(pathway, seattle, { scaleWages: true });
+    expect(localized.incomeTrajectory.year1).toEqual(annualIncome(64000, 77000));
+    expect(CareerPathwaySchema.safeParse(localized).success).toBe(true);
+  });
+
+  it('leaves already-local incomes alone by default', () => {
+    expect(localizePathway(pathway, seattle).incomeTrajectory).toEqual(pathway.incomeTrajectory);
+  });
+
+  it('does not scale federal or remote pay', () => {
+    const remote = localizePathway({ ...pathway, type: 'remote-first' }, seattle, {
+      scaleWages: true,
+    });
+    expect(remote.incomeTrajectory).toEqual(pathway.incomeTrajectory);
+  });
+
+  it('attaches cost-of-living-adjusted incomes', () => {
+    const { costOfLiving } = localizePathway(pathway, seattle);
+    expect(costOfLiving).toMatchObject({
+      market: seattle.name,
+      costIndex: seattle.costIndex,
+      wageIndex: seattle.wageIndex,
+    });
+    expect(costOfLiving?.adjustedTrajectory.year1).toEqual(annualIncome(44000, 53000));
+  });
+
+  it('keeps the period of non-annual incomes', () => {
+    const hourly = localizePathway(
+      {
+        ...pathway,
+        incomeTrajectory: {
+          ...pathway.incomeTrajectory,
+          year1: { min: 25, max: 30, currency: 'USD', period: 'hour' },
+        },
+      },
+      seattle
+    );
+    expect(hourly.costOfLiving?.adjustedTrajectory.year1).toEqual({
+      min: 22,
+      max: 27,
+      currency: 'USD',
+      period: 'hour',
+    });
+  });
+});
+
+describe('demo cost-of-living pricing', () => {
+  const profile = {
+    branch: 'Army',
+    yearsOfService: 6,
+    rank: 'E-5',
+    mos: '25B',
+    technicalSkills: ['Networking'],
+    certifications: [],
+    leadershipExperience: 'Team leader',
+    familyStatus: 'Single',
+    dependents: 0,
+    spouseEmployment: 'N/A',
+    currentLocation: 'Fort Liberty, NC',
+    willingToRelocate: false,
+    preferredLocations: ['Seattle, WA'],
+    careerGoals: 'IT career',
+    incomeExpectations: '$60,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  it('prices pathways for the current location', async () => {
+    const result = await analyzeDemoMode(profile);
+    expect(result.pathways.every((p) => p.costOfLiving?.market === 'Fayetteville, NC')).toBe(true);
+    expect(result.summary).toContain('Fayetteville, NC market');
+  });
+
+  it('prices pathways for a preferred location when relocating', async () => {
+    const staying = await analyzeDemoMode(profile);
+    const moving = await analyzeDemoMode({ ...profile, willingToRelocate: true });
+
+    expect(moving.pathways[0].costOfLiving?.market).toBe('Seattle-Tacoma, WA');
+    expect(moving.pathways[0].incomeTrajectory.year1.min).toBeGreaterThan(
+      staying.pathways[0].incomeTrajectory.year1.min
+    );
+  });
+
+  it('prices federal service with locality pay for the same location', async () => {
+    const moving = await analyzeDemoMode({ ...profile, willingToRelocate: true }, [
+      'federal-service',
+    ]);
+    expect(moving.pathways[0].familyImpact.notes).toContain('Seattle-Tacoma locality pay');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeDemoMode } from '../demoProvider';
+import { analyzeDemoMode, selectDemoTemplate } from '../demoProvider';
 import { AnalysisResultSchema } from '../types';
+import { PATHWAY_TYPES } from '../pathwayTypes';
 
 describe('analyzeDemoMode', () => {
   const sampleProfile = {
@@ -36,6 +37,22 @@ describe('analyzeDemoMode', () => {
     expect(types).toContain('max-upside');
   });
 
+  it('generates the requested pathway types in order', async () => {
+    const result = await analyzeDemoMode(sampleProfile, ['federal-service', 'fast-income']);
+
+    expect(result.pathways.map((pathway) => pathway.type)).toEqual([
+      'federal-service',
+      'fast-income',
+    ]);
+  });
+
+  it('generates a valid pathway for every registered type', async () => {
+    const result = await analyzeDemoMode(sampleProfile, [...PATHWAY_TYPES]);
+
+    expect(result.pathways.map((pathway) => pathway.type)).toEqual(PATHWAY_TYPES);
+    expect(AnalysisResultSchema.safeParse(result).success).toBe(true);
+  });
+
   it('returns result that validates against AnalysisResultSchema', async () => {
     const result = await analyzeDemoMode(sampleProfile);
     const validation = AnalysisResultSchema.safeParse(result);
@@ -85,6 +102,17 @@ describe('analyzeDemoMode', () => {
     });
   });
 
+  it('keeps out-of-pocket credential costs within the sticker price', async () => {
+    const result = await analyzeDemoMode(sampleProfile);
+    result.pathways.forEach((pathway) => {
+      pathway.requiredCredentials.forEach(({ cost }) => {
+        expect(cost.fundingSources.length).toBeGreaterThanOrEqual(cost.max > 0 ? 1 : 0);
+        expect(cost.outOfPocket.min).toBeLessThanOrEqual(cost.outOfPocket.max);
+        expect(cost.outOfPocket.max).toBeLessThanOrEqual(cost.max);
+      });
+    });
+  });
+
   it('includes family impact assessment', async () => {
     const result = await analyzeDemoMode(sampleProfile);
     result.pathways.forEach((pathway) => {
@@ -155,14 +183,72 @@ describe('analyzeDemoMode', () => {
     expect(combatResult.pathways[0].title).toBe(combatResult2.pathways[0].title);
   });
 
+  it('selects the template matching the crosswalk career field', () => {
+    expect(selectDemoTemplate({ ...sampleProfile, branch: 'Army', mos: '25B' }).id).toBe(
+      'it-communications'
+    );
+    expect(selectDemoTemplate({ ...sampleProfile, branch: 'Navy', mos: 'HM2' }).id).toBe(
+      'medical-healthcare'
+    );
+    expect(selectDemoTemplate({ ...sampleProfile, branch: 'Air Force', mos: '2S051' }).id).toBe(
+      'logistics-supply-chain'
+    );
+  });
+
+  it('never gives an infantryman a non-combat template on skills alone', () => {
+    const infantry = {
+      ...sampleProfile,
+      branch: 'Army',
+      mos: '11B',
+      technicalSkills: ['Weapons', 'Tactical planning', 'Patrol'],
+      certifications: [],
+      careerGoals: 'Law enforcement or federal agent',
+    };
+
+    expect(selectDemoTemplate(infantry).id).toBe('combat-arms');
+  });
+
+  it('includes an explainable template ranking in the result', async () => {
+    const result = await analyzeDemoMode(sampleProfile);
+
+    expect(result.templateRanking).toHaveLength(5);
+    const [top, ...rest] = result.templateRanking!;
+    expect(top.templateId).toBe(selectDemoTemplate(sampleProfile).id);
+    expect(top.reasons.length).toBeGreaterThan(0);
+    rest.forEach((score) => expect(score.score).toBeLessThanOrEqual(top.score));
+    expect(top.score).toBe(
+      top.breakdown.codeFamily +
+        top.breakdown.skills +
+        top.breakdown.certifications +
+        top.breakdown.careerGoals
+    );
+  });
+
+  it('mentions crosswalk civilian occupations in the summary', async () => {
+    const result = await analyzeDemoMode({ ...sampleProfile, branch: 'Army', mos: '68W' });
+
+    expect(result.summary).toContain('Combat Medic Specialist');
+    expect(result.summary).toContain('Emergency Medical Technicians');
+  });
+
   it('includes realistic salary ranges', async () => {
     const result = await analyzeDemoMode(sampleProfile);
 
     result.pathways.forEach((pathway) => {
-      // Check that year 1 income looks realistic (contains $ and numbers)
-      expect(pathway.incomeTrajectory.year1).toMatch(/\$[\d,]+/);
-      expect(pathway.incomeTrajectory.year3).toMatch(/\$[\d,]+/);
-      expect(pathway.incomeTrajectory.year5).toMatch(/\$[\d,]+/);
+      const { year1, year3, year5 } = pathway.incomeTrajectory;
+
+      // Structured annual USD ranges
+      [year1, year3, year5].forEach((range) => {
+        expect(range.currency).toBe('USD');
+        expect(range.period).toBe('year');
+        expect(range.max).toBeGreaterThanOrEqual(range.min);
+      });
+
+      // Year 1 income looks realistic and grows over time
+      expect(year1.min).toBeGreaterThanOrEqual(20000);
+      expect(year1.max).toBeLessThanOrEqual(300000);
+      expect(year3.min).toBeGreaterThan(year1.min);
+      expect(year5.min).toBeGreaterThan(year3.min);
     });
   });
 });
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  durationDays,
+  durationMonths,
+  durationWeeks,
+  durationYears,
+  formatDuration,
+  ongoing,
+  parseDurationString,
+  spanDurations,
+  sumDurations,
+  upgradeLegacyDuration,
+} from '../duration';
+
+describe('parseDurationString', () => {
+  it('parses month, week, day and year ranges', () => {
+    expect(parseDurationString('18-24 months')).toEqual(durationMonths(18, 24));
+    expect(parseDurationString('6-8 weeks')).toEqual(durationWeeks(6, 8));
+    expect(parseDurationString('1 day')).toEqual(durationDays(1));
+    expect(parseDurationString('2-3 years')).toEqual(durationYears(2, 3));
+  });
+
+  it('ignores trailing qualifiers', () => {
+    expect(parseDurationString('6-12 months (requires experience)')).toEqual(durationMonths(6, 12));
+    expect(parseDurationString('1-2 years experience required')).toEqual(durationYears(1, 2));
+  });
+
+  it('treats "+" as open-ended', () => {
+    expect(parseDurationString('2+ years')).toEqual(durationYears(2, 2, true));
+  });
+
+  it('treats ongoing and career stages as open-ended', () => {
+    expect(parseDurationString('Ongoing')).toEqual(ongoing());
+    expect(parseDurationString('Career')).toEqual(ongoing());
+  });
+
+  it('returns null for amounts without a time unit', () => {
+    expect(parseDurationString('After 1,500 flight hours')).toBeNull();
+    expect(parseDurationString('After graduation')).toBeNull();
+  });
+});
+
+describe('upgradeLegacyDuration', () => {
+  it('upgrades strings and passes other values through', () => {
+    const structured = durationMonths(3);
+
+    expect(upgradeLegacyDuration('3 months')).toEqual(structured);
+    expect(upgradeLegacyDuration(structured)).toBe(structured);
+    expect(upgradeLegacyDuration('Soon')).toBe('Soon');
+  });
+});
+
+describe('sumDurations and spanDurations', () => {
+  it('adds consecutive phases', () => {
+    expect(sumDurations([durationMonths(6), durationYears(2, 3)])).toEqual(durationMonths(30, 42));
+  });
+
+  it('carries open-endedness through the total', () => {
+    expect(sumDurations([durationMonths(12), ongoing()])).toEqual(durationMonths(12, 12, true));
+  });
+
+  it('spans parallel items', () => {
+    expect(spanDurations([durationMonths(2, 3), durationMonths(6, 12)])).toEqual(
+      durationMonths(2, 12)
+    );
+  });
+
+  it('returns null for empty lists', () => {
+    expect(sumDurations([])).toBeNull();
+    expect(spanDurations([])).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats short durations in days and weeks', () => {
+    expect(formatDuration(durationDays(1, 2))).toBe('1–2 days');
+    expect(formatDuration(durationWeeks(6, 8))).toBe('6–8 weeks');
+  });
+
+  it('formats months and whole years', () => {
+    expect(formatDuration(durationMonths(18, 24))).toBe('18–24 months');
+    expect(formatDuration(durationMonths(3))).toBe('3 months');
+    expect(formatDuration(durationYears(2, 3))).toBe('2–3 years');
+    expect(formatDuration(durationYears(1))).toBe('1 year');
+  });
+
+  it('formats open-ended durations', () => {
+    expect(formatDuration(durationYears(2, 2, true))).toBe('2+ years');
+    expect(formatDuration(ongoing())).toBe('Ongoing');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BUSINESS_IDEA,
+  entrepreneurshipIncome,
+  generateEntrepreneurship,
+} from '../entrepreneurship';
+import { loadPathwayTemplates } from '../templateLoader';
+import { renderDemoTemplate } from '../templateRenderer';
+import { CareerPathwaySchema, IncomeRange } from '../types';
+
+describe('generateEntrepreneurship', () => {
+  const profile = {
+    branch: 'Marine Corps',
+    yearsOfService: 8,
+    rank: 'E-6',
+    mos: '0311',
+    technicalSkills: ['Security', 'Training'],
+    certifications: [],
+    leadershipExperience: 'Platoon sergeant',
+    familyStatus: 'Married',
+    dependents: 2,
+    spouseEmployment: 'Not employed',
+    currentLocation: 'Jacksonville, NC',
+    willingToRelocate: false,
+    preferredLocations: [],
+    careerGoals: 'Start my own security business',
+    incomeExpectations: '$60,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  const combatArms = loadPathwayTemplates().find((template) => template.id === 'combat-arms')!;
+  const pathway = generateEntrepreneurship(profile, combatArms);
+  const allSteps = pathway.roadmap.flatMap((phase) => phase.steps).join(' ');
+
+  it('produces a valid entrepreneurship pathway', () => {
+    expect(pathway.type).toBe('entrepreneurship');
+    expect(CareerPathwaySchema.safeParse(pathway).success).toBe(true);
+  });
+
+  it("uses the template's business idea", () => {
+    expect(pathway.title).toBe('Security Consulting Firm Owner');
+    expect(allSteps).toContain('$10,000 - $50,000');
+  });
+
+  it('routes the roadmap through SBA veteran programs', () => {
+    expect(allSteps).toContain('Boots to Business');
+    expect(allSteps).toContain('Veterans Business Outreach Center');
+    expect(allSteps).toContain('SDVOSB');
+    expect(allSteps).toContain('SBA VetCert');
+    expect(pathway.roadmap.map((phase) => phase.phase)).toContain('Startup Capital Planning');
+  });
+
+  it('models income with a wider spread than a salaried pathway', () => {
+    const [fastIncome] = renderDemoTemplate(profile, combatArms).pathways;
+    const spread = (range: IncomeRange) => range.max - range.min;
+
+    expect(spread(pathway.incomeTrajectory.year1)).toBeGreaterThan(
+      spread(fastIncome.incomeTrajectory.year1)
+    );
+    expect(pathway.incomeTrajectory.year1.min).toBeLessThan(fastIncome.incomeTrajectory.year1.min);
+  });
+
+  it('describes income volatility for the family', () => {
+    expect(pathway.familyImpact.stability).toMatch(/varies/);
+    expect(pathway.familyImpact.notes).toContain('2 dependents');
+    expect(pathway.familyImpact.notes).toContain('part-time or contract work');
+  });
+
+  it("leans on a spouse's full-time income when there is one", () => {
+    const { familyImpact } = generateEntrepreneurship(
+      { ...profile, spouseEmployment: 'Full-time', dependents: 0 },
+      combatArms
+    );
+
+    expect(familyImpact.notes).toContain("spouse's full-time income");
+    expect(familyImpact.notes).not.toContain('dependents');
+  });
+
+  it('falls back to a generic business when the template has none', () => {
+    const template = { ...combatArms, business: undefined };
+
+    expect(generateEntrepreneurship(profile, template).title).toBe(
+      `${DEFAULT_BUSINESS_IDEA.title} Owner`
+    );
+  });
+});
+
+describe('entrepreneurshipIncome', () => {
+  it('grows and stays ordered year over year', () => {
+    const { year1, year3, year5 } = entrepreneurshipIncome(50000);
+
+    expect(year1).toMatchObject({ min: 10000, max: 60000 });
+    expect(year3.min).toBeGreaterThan(year1.min);
+    expect(year5.max).toBeGreaterThan(year3.max);
+  });
+});
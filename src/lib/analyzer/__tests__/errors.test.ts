@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  APIConnectionError,
+  AuthenticationError,
+  InternalServerError,
+  PermissionDeniedError,
+  RateLimitError,
+} from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { AnalysisError, classifyError, retryDelay } from '../errors';
+import { MAX_RETRY_DELAY_MS } from '../config';
+
+const headers = (values: Record<string, string> = {}) => new Headers(values);
+
+describe('classifyError', () => {
+  it('classifies Anthropic API errors by status', () => {
+    expect(
+      classifyError(new AuthenticationError(401, {}, 'invalid x-api-key', headers())).kind
+    ).toBe('auth');
+    expect(classifyError(new PermissionDeniedError(403, {}, 'forbidden', headers())).kind).toBe(
+      'auth'
+    );
+    expect(classifyError(new RateLimitError(429, {}, 'rate limited', headers())).kind).toBe(
+      'rate-limited'
+    );
+    expect(classifyError(new InternalServerError(529, {}, 'Overloaded', headers())).kind).toBe(
+      'overloaded'
+    );
+    expect(classifyError(new InternalServerError(500, {}, 'api_error', headers())).kind).toBe(
+      'overloaded'
+    );
+  });
+
+  it('reads the Retry-After header of rate limit errors', () => {
+    const error = classifyError(
+      new RateLimitError(429, {}, 'rate limited', headers({ 'retry-after': '7' }))
+    );
+
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('keeps the message and original error', () => {
+    const original = new RateLimitError(429, {}, 'rate limited', headers());
+    const error = classifyError(original);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.message).toBe(original.message);
+    expect(error.cause).toBe(original);
+  });
+
+  it('classifies timeouts and validation failures', () => {
+    expect(classifyError(new DOMException('signal timed out', 'TimeoutError')).kind).toBe(
+      'timeout'
+    );
+    expect(classifyError(z.string().safeParse(1).error).kind).toBe('invalid-output');
+  });
+
+  it('passes analysis errors through unchanged', () => {
+    const error = new AnalysisError('invalid-output', 'No tool use found');
+
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('treats anything else as unknown and not retryable', () => {
+    const connection = classifyError(new APIConnectionError({ message: 'Connection error.' }));
+    const thrown = classifyError('string error');
+
+    expect(connection.kind).toBe('unknown');
+    expect(thrown.kind).toBe('unknown');
+    expect(thrown.message).toBe('Unknown error');
+    expect(thrown.retryable).toBe(false);
+  });
+
+  it('does not retry auth failures', () => {
+    expect(new AnalysisError('auth', 'invalid x-api-key').retryable).toBe(false);
+  });
+
+  it('does not retry invalid output, which Real Mode repairs itself', () => {
+    expect(new AnalysisError('invalid-output', 'No tool use found').retryable).toBe(false);
+  });
+});
+
+describe('retryDelay', () => {
+  const overloaded = new AnalysisError('overloaded', 'Overloaded');
+
+  it('doubles the base delay on each retry', () => {
+    expect([0, 1, 2].map((attempt) => retryDelay(overloaded, attempt, 1000))).toEqual([
+      1000, 2000, 4000,
+    ]);
+  });
+
+  it('waits at least as long as the server asks', () => {
+    const limited = new AnalysisError('rate-limited', 'rate limited', { retryAfterMs: 5000 });
+
+    expect(retryDelay(limited, 0, 1000)).toBe(5000);
+    expect(retryDelay(limited, 3, 1000)).toBe(8000);
+  });
+
+  it('never waits longer than the maximum delay', () => {
+    const limited = new AnalysisError('rate-limited', 'rate limited', { retryAfterMs: 600_000 });
+
+    expect(retryDelay(overloaded, 10, 1000)).toBe(MAX_RETRY_DELAY_MS);
+    expect(retryDelay(limited, 0, 1000)).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { estimateFederalProfile, federalIncome, generateFederalService } from '../federalService';
+import { loadPathwayTemplates } from '../templateLoader';
+import { CareerPathwaySchema } from '../types';
+import { gsSalary, lookupLocality } from '../../federal';
+
+describe('generateFederalService', () => {
+  const profile = {
+    branch: 'Army',
+    yearsOfService: 8,
+    rank: 'SSG',
+    mos: '25B',
+    technicalSkills: ['Networking', 'Active Directory'],
+    certifications: ['Security+'],
+    leadershipExperience: 'Section sergeant',
+    familyStatus: 'Married',
+    dependents: 2,
+    spouseEmployment: 'Part-time',
+    currentLocation: 'Fort Meade, MD',
+    willingToRelocate: false,
+    preferredLocations: [],
+    careerGoals: 'Stable federal IT career',
+    incomeExpectations: '$70,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  const templates = loadPathwayTemplates();
+  const itTemplate = templates.find((template) => template.id === 'it-communications')!;
+  const pathway = generateFederalService(profile, itTemplate);
+  const allSteps = pathway.roadmap.flatMap((phase) => phase.steps).join(' ');
+
+  it('produces a valid federal-service pathway', () => {
+    expect(pathway.type).toBe('federal-service');
+    expect(CareerPathwaySchema.safeParse(pathway).success).toBe(true);
+  });
+
+  it('estimates grades from the rank', () => {
+    const { grades } = estimateFederalProfile(profile);
+    expect(grades.payGrade).toBe('E-6');
+    expect(pathway.title).toContain('GS-6 to GS-8');
+  });
+
+  it('uses GS pay with locality for the current location', () => {
+    const locality = lookupLocality(profile.currentLocation);
+    expect(locality.id).toBe('washington-baltimore');
+    expect(pathway.incomeTrajectory.year1).toMatchObject({
+      min: gsSalary(6, 1, locality),
+      max: gsSalary(8, 1, locality),
+    });
+    expect(pathway.familyImpact.notes).toContain('Washington-Baltimore-Arlington');
+  });
+
+  it('pays more in a higher locality', () => {
+    const restOfUs = generateFederalService(
+      { ...profile, currentLocation: 'El Paso, TX' },
+      itTemplate
+    );
+    expect(pathway.incomeTrajectory.year1.min).toBeGreaterThan(restOfUs.incomeTrajectory.year1.min);
+  });
+
+  it('never decreases income over time', () => {
+    const { year1, year3, year5 } = federalIncome({ min: 14, max: 15 }, { percent: 46.34 });
+    expect(year3.min).toBeGreaterThanOrEqual(year1.min);
+    expect(year5.max).toBeGreaterThanOrEqual(year3.max);
+  });
+
+  it('builds the roadmap around veterans preference', () => {
+    expect(allSteps).toContain('5-point preference (TP)');
+    expect(allSteps).toContain('VEOA');
+
+    const disabled = generateFederalService({ ...profile, disabilityRating: 40 }, itTemplate);
+    const disabledSteps = disabled.roadmap.flatMap((phase) => phase.steps).join(' ');
+    expect(disabledSteps).toContain('(CPS)');
+    expect(disabledSteps).toContain('SF-15');
+    expect(disabledSteps).toContain('30% or More Disabled Veteran appointment');
+  });
+
+  it('mentions Wage Grade jobs for trades', () => {
+    const mechanic = generateFederalService({ ...profile, mos: '91B', rank: 'E-5' }, templates[0]);
+    expect(mechanic.whyThisPath).toContain('WG-8 to WG-10');
+    expect(pathway.whyThisPath).not.toContain('WG-');
+  });
+
+  it('falls back to years of service for unrecognized ranks', () => {
+    const { grades } = estimateFederalProfile({ ...profile, rank: 'Team Lead' });
+    expect(grades.payGrade).toBe('E-6');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { applyGiBill } from '../giBill';
+import { analyzeDemoMode } from '../demoProvider';
+import { credentialCost } from '../cost';
+import { annualIncome } from '../income';
+import { durationMonths } from '../duration';
+import { CareerPathway, CareerPathwaySchema } from '../types';
+import { estimateGiBill } from '../../benefits';
+
+describe('applyGiBill', () => {
+  const pathway = {
+    type: 'max-upside',
+    title: 'Cybersecurity Analyst',
+    description: 'Degree plus certifications',
+    incomeTrajectory: {
+      year1: annualIncome(60000),
+      year3: annualIncome(80000),
+      year5: annualIncome(100000),
+    },
+    roadmap: [
+      { phase: 'Year 1-2: Degree', duration: durationMonths(24), steps: ['Enroll'] },
+      { phase: 'Job Search', duration: durationMonths(3), steps: ['Apply'] },
+    ],
+    requiredCredentials: [
+      {
+        name: "Bachelor's in Cybersecurity",
+        timeline: durationMonths(24),
+        cost: credentialCost(40000, 80000, ['post-911-gi-bill']),
+      },
+      {
+        name: 'Security+',
+        timeline: durationMonths(2),
+        cost: credentialCost(400, 400, ['cool']),
+      },
+    ],
+    familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+    whyThisPath: '',
+  } satisfies CareerPathway;
+
+  const full = estimateGiBill({ yearsOfService: 4, location: 'San Diego, CA' });
+  const [degree, security] = applyGiBill(pathway, full).requiredCredentials;
+
+  it('covers tuition up to the annual cap', () => {
+    expect(degree.cost.outOfPocket.min).toBe(0);
+    expect(degree.cost.outOfPocket.max).toBeGreaterThan(0);
+    expect(degree.cost.fundingSources).toEqual(['post-911-gi-bill', 'out-of-pocket']);
+  });
+
+  it('leaves credentials funded by other sponsors alone', () => {
+    expect(security).toBe(pathway.requiredCredentials[1]);
+  });
+
+  it('charges partial benefit levels the difference', () => {
+    const partial = estimateGiBill({ yearsOfService: 1, location: 'San Diego, CA' });
+    const [partialDegree] = applyGiBill(pathway, partial).requiredCredentials;
+    expect(partialDegree.cost.outOfPocket.min).toBe(16000);
+  });
+
+  it('prices credentials beyond the remaining entitlement as out-of-pocket', () => {
+    const exhausted = estimateGiBill({
+      yearsOfService: 4,
+      monthsUsed: 36,
+      location: 'San Diego, CA',
+    });
+    const applied = applyGiBill(pathway, exhausted);
+    expect(applied.requiredCredentials[0].cost).toMatchObject({
+      fundingSources: ['out-of-pocket'],
+      outOfPocket: { min: 40000, max: 80000 },
+    });
+    expect(applied.giBill).toBeUndefined();
+  });
+
+  it('reports housing while studying and entitlement use', () => {
+    const applied = applyGiBill(pathway, full);
+    expect(applied.giBill).toMatchObject({
+      percent: 100,
+      entitlementMonthsUsed: 18,
+      entitlementMonthsRemaining: 18,
+      housingWhileStudying: full.monthlyHousing * 18,
+    });
+    expect(applied.roadmap[0].steps.at(-1)).toContain('housing allowance for San Diego, CA');
+    expect(applied.roadmap[1].steps).toEqual(['Apply']);
+    expect(CareerPathwaySchema.safeParse(applied).success).toBe(true);
+  });
+
+  it('returns pathways without GI Bill credentials unchanged', () => {
+    const noDegree = { ...pathway, requiredCredentials: [pathway.requiredCredentials[1]] };
+    expect(applyGiBill(noDegree, full)).toBe(noDegree);
+  });
+});
+
+describe('demo mode GI Bill costing', () => {
+  it('costs degree credentials for the benefit level', async () => {
+    const result = await analyzeDemoMode({
+      branch: 'Army',
+      yearsOfService: 1,
+      rank: 'SPC',
+      mos: '68W',
+      technicalSkills: ['Patient care'],
+      certifications: ['EMT-B'],
+      leadershipExperience: 'Team member',
+      familyStatus: 'Single',
+      dependents: 0,
+      spouseEmployment: 'N/A',
+      currentLocation: 'San Antonio, TX',
+      willingToRelocate: false,
+      preferredLocations: [],
+      careerGoals: 'Become a nurse',
+      incomeExpectations: '$60k-80k',
+      educationInterest: 'Bachelor degree',
+      timeline: 'Short-term',
+    });
+
+    const balanced = result.pathways.find((pathway) => pathway.type === 'balanced')!;
+    expect(balanced.giBill?.percent).toBe(60);
+    expect(balanced.requiredCredentials.some((cred) => cred.cost.outOfPocket.min > 0)).toBe(true);
+  });
+});
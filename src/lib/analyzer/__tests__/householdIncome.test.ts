@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { applyHouseholdIncome, expectedIncome, vaCompensationFor } from '../householdIncome';
+import { analyzeDemoMode } from '../demoProvider';
+import { annualIncome } from '../income';
+import { AnalysisResult, AnalysisResultSchema, VeteranProfile } from '../types';
+
+const profile: VeteranProfile = {
+  branch: 'Marine Corps',
+  yearsOfService: 8,
+  rank: 'SSgt',
+  mos: '0311',
+  disabilityRating: 70,
+  technicalSkills: ['Team leadership'],
+  certifications: [],
+  leadershipExperience: 'Platoon sergeant',
+  familyStatus: 'Married with children',
+  dependents: 3,
+  spouseEmployment: 'Part-time',
+  currentLocation: 'Camp Lejeune, NC',
+  willingToRelocate: false,
+  preferredLocations: [],
+  careerGoals: 'Stable career',
+  incomeExpectations: '$70k-90k',
+  educationInterest: 'Certifications',
+  timeline: '6 months',
+};
+
+const result: AnalysisResult = {
+  summary: 'Summary',
+  pathways: [
+    {
+      type: 'fast-income',
+      title: 'Security Supervisor',
+      description: 'Site security',
+      incomeTrajectory: {
+        year1: annualIncome(50000, 60000),
+        year3: annualIncome(60000, 70000),
+        year5: annualIncome(70000, 85000),
+      },
+      roadmap: [],
+      requiredCredentials: [],
+      familyImpact: {
+        timeCommitment: 'Low',
+        flexibility: 'High',
+        stability: 'High',
+        notes: 'Shift work.',
+      },
+      whyThisPath: '',
+    },
+  ],
+};
+
+describe('vaCompensationFor', () => {
+  it('counts a spouse and the remaining dependents as children', () => {
+    expect(vaCompensationFor(profile)).toMatchObject({ rating: 70, spouse: true, children: 2 });
+    expect(
+      vaCompensationFor({ ...profile, familyStatus: 'Single parent', dependents: 2 })
+    ).toMatchObject({ spouse: false, children: 2 });
+  });
+
+  it('returns nothing without a rating', () => {
+    expect(vaCompensationFor({ ...profile, disabilityRating: undefined })).toBeUndefined();
+  });
+});
+
+describe('expectedIncome', () => {
+  it('reads the expectation as an annual range', () => {
+    expect(expectedIncome(profile)).toEqual({ min: 70000, max: 90000 });
+    expect(expectedIncome({ ...profile, incomeExpectations: '$70,000+' })).toEqual({
+      min: 70000,
+      max: 70000,
+    });
+    expect(expectedIncome({ ...profile, incomeExpectations: 'Flexible' })).toBeUndefined();
+  });
+});
+
+describe('applyHouseholdIncome', () => {
+  const applied = applyHouseholdIncome(result, profile);
+  const [pathway] = applied.pathways;
+  const annual = vaCompensationFor(profile)!.annual;
+
+  it('adds VA compensation as baseline household income', () => {
+    expect(applied.vaCompensation?.annual).toBe(annual);
+    expect(AnalysisResultSchema.safeParse(applied).success).toBe(true);
+  });
+
+  it('compares year 1 household income with the expectation', () => {
+    expect(pathway.incomeComparison).toEqual({
+      expected: { min: 70000, max: 90000 },
+      householdYear1: { min: 50000 + annual, max: 60000 + annual },
+      vaCompensation: annual,
+      meetsExpectation: true,
+    });
+  });
+
+  it('notes compensation and shortfalls in the family impact', () => {
+    expect(pathway.familyImpact.notes).toMatch(/^Shift work\. VA disability compensation of \$/);
+
+    const unrated = applyHouseholdIncome(result, { ...profile, disabilityRating: undefined });
+    expect(unrated.vaCompensation).toBeUndefined();
+    expect(unrated.pathways[0].incomeComparison?.meetsExpectation).toBe(false);
+    expect(unrated.pathways[0].familyImpact.notes).toContain(
+      'Year 1 household income of $50,000 - $60,000 falls short of your $70,000 expectation'
+    );
+  });
+
+  it('skips the comparison for expectations without an amount', () => {
+    const flexible = applyHouseholdIncome(result, {
+      ...profile,
+      disabilityRating: undefined,
+      incomeExpectations: 'Flexible',
+    });
+    expect(flexible.pathways[0]).toEqual(result.pathways[0]);
+  });
+});
+
+describe('demo mode household income', () => {
+  it('includes VA compensation in every pathway comparison', async () => {
+    const demo = await analyzeDemoMode(profile);
+    expect(demo.vaCompensation?.rating).toBe(70);
+    for (const pathway of demo.pathways) {
+      expect(pathway.incomeComparison?.vaCompensation).toBe(demo.vaCompensation?.annual);
+    }
+  });
+});
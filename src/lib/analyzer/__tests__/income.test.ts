@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annualIncome,
+  formatIncomeRange,
+  incomeMidpoint,
+  parseIncomeString,
+  toAnnualIncome,
+  upgradeLegacyIncome,
+} from '../income';
+
+describe('parseIncomeString', () => {
+  it('parses dollar ranges', () => {
+    expect(parseIncomeString('$45,000 - $55,000')).toEqual(annualIncome(45000, 55000));
+  });
+
+  it('parses k and M suffixes', () => {
+    expect(parseIncomeString('$90K-$150K+')).toEqual(annualIncome(90000, 150000));
+    expect(parseIncomeString('$1.2M')).toEqual(annualIncome(1200000));
+  });
+
+  it('ignores numbers in labels when dollar amounts are present', () => {
+    expect(parseIncomeString('Year 1: $50k - 60k')).toEqual(annualIncome(50000, 60000));
+  });
+
+  it('detects hourly and monthly pay', () => {
+    expect(parseIncomeString('$25/hour')).toMatchObject({ min: 25, period: 'hour' });
+    expect(parseIncomeString('$4,000 per month')).toMatchObject({ min: 4000, period: 'month' });
+  });
+
+  it('returns null when there is no amount', () => {
+    expect(parseIncomeString('Varies')).toBeNull();
+  });
+});
+
+describe('upgradeLegacyIncome', () => {
+  it('upgrades strings and numbers, passes objects through', () => {
+    const structured = annualIncome(40000, 50000);
+
+    expect(upgradeLegacyIncome('$40,000 - $50,000')).toEqual(structured);
+    expect(upgradeLegacyIncome(40000)).toEqual(annualIncome(40000));
+    expect(upgradeLegacyIncome(structured)).toBe(structured);
+    expect(upgradeLegacyIncome('Varies')).toBe('Varies');
+  });
+});
+
+describe('formatIncomeRange', () => {
+  it('formats annual ranges', () => {
+    expect(formatIncomeRange(annualIncome(45000, 55000))).toBe('$45,000 - $55,000');
+    expect(formatIncomeRange(annualIncome(70000))).toBe('$70,000');
+  });
+
+  it('adds a suffix for non-annual periods', () => {
+    expect(formatIncomeRange({ min: 25, max: 30, currency: 'USD', period: 'hour' })).toBe(
+      '$25 - $30/hr'
+    );
+  });
+});
+
+describe('incomeMidpoint', () => {
+  it('returns the midpoint of the range', () => {
+    expect(incomeMidpoint(annualIncome(40000, 60000))).toBe(50000);
+  });
+});
+
+describe('toAnnualIncome', () => {
+  it('converts monthly and hourly pay to annual figures', () => {
+    expect(toAnnualIncome({ min: 4000, max: 5000, currency: 'USD', period: 'month' })).toEqual(
+      annualIncome(48000, 60000)
+    );
+    expect(toAnnualIncome({ min: 25, max: 25, currency: 'USD', period: 'hour' })).toEqual(
+      annualIncome(52000)
+    );
+  });
+});
@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { analyzeProfile, isUsingDemoMode, getCurrentMode } from '../index';
 import * as realProvider from '../realProvider';
+import { analyzeDemoMode } from '../demoProvider';
 import { logger } from '../../logger';
+import { AnalysisStreamEvent } from '../types';
+import { AnalysisError } from '../errors';
+import { MAX_REPAIR_ROUNDS } from '../realProvider';
+import { annualIncome } from '../income';
+import { durationMonths } from '../duration';
+import { credentialCost } from '../cost';
 
 // Mock the logger
 vi.mock('../../logger', () => ({
@@ -83,7 +90,7 @@ describe('Provider Selection', () => {
     it('uses demo mode when ANTHROPIC_API_KEY is not set', async () => {
       delete process.env.ANTHROPIC_API_KEY;
 
-      const result = await analyzeProfile(sampleProfile);
+      const { result } = await analyzeProfile(sampleProfile);
 
       // Verify result is valid
       expect(result).toBeDefined();
@@ -91,14 +98,14 @@ describe('Provider Selection', () => {
       expect(result.pathways).toHaveLength(3);
 
       // Verify it's deterministic (demo mode behavior)
-      const result2 = await analyzeProfile(sampleProfile);
+      const { result: result2 } = await analyzeProfile(sampleProfile);
       expect(result.summary).toBe(result2.summary);
     });
 
     it('returns valid result structure in demo mode', async () => {
       delete process.env.ANTHROPIC_API_KEY;
 
-      const result = await analyzeProfile(sampleProfile);
+      const { result } = await analyzeProfile(sampleProfile);
 
       expect(result).toHaveProperty('summary');
       expect(result).toHaveProperty('pathways');
@@ -112,6 +119,41 @@ describe('Provider Selection', () => {
       expect(types).toContain('max-upside');
     });
 
+    it('generates only the three default strategies without options', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+
+      const { result } = await analyzeProfile({
+        ...sampleProfile,
+        careerGoals: 'Start my own business, self-employed IT consulting',
+      });
+
+      expect(result.pathways.map((p) => p.type)).toEqual(['fast-income', 'balanced', 'max-upside']);
+    });
+
+    it('generates the pathway types requested in options', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+
+      const { result } = await analyzeProfile(sampleProfile, {
+        pathwayTypes: ['remote-first', 'continued-service'],
+      });
+
+      expect(result.pathways.map((p) => p.type)).toEqual(['remote-first', 'continued-service']);
+    });
+
+    it('generates the requested number of pathways', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+
+      const { result } = await analyzeProfile(sampleProfile, { count: 5 });
+
+      expect(result.pathways.map((p) => p.type)).toEqual([
+        'fast-income',
+        'balanced',
+        'max-upside',
+        'entrepreneurship',
+        'federal-service',
+      ]);
+    });
+
     // Note: We don't test real mode here because it would require actual API calls
     // That's tested separately with mocks or integration tests
   });
@@ -129,7 +171,7 @@ describe('Provider Selection', () => {
         .spyOn(realProvider, 'analyzeRealMode')
         .mockRejectedValue(new Error('API rate limit exceeded'));
 
-      const result = await analyzeProfile(sampleProfile);
+      const { result } = await analyzeProfile(sampleProfile);
 
       // Should still return valid results (from demo mode)
       expect(result).toBeDefined();
@@ -137,7 +179,11 @@ describe('Provider Selection', () => {
       expect(result.pathways).toHaveLength(3);
 
       // Verify real mode was attempted
-      expect(mockAnalyzeRealMode).toHaveBeenCalledWith(sampleProfile);
+      expect(mockAnalyzeRealMode).toHaveBeenCalledWith(
+        sampleProfile,
+        ['fast-income', 'balanced', 'max-upside'],
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
 
       mockAnalyzeRealMode.mockRestore();
     });
@@ -170,7 +216,7 @@ describe('Provider Selection', () => {
         .spyOn(realProvider, 'analyzeRealMode')
         .mockRejectedValue('string error');
 
-      const result = await analyzeProfile(sampleProfile);
+      const { result } = await analyzeProfile(sampleProfile);
 
       // Should still return valid results
       expect(result).toBeDefined();
@@ -195,8 +241,8 @@ describe('Provider Selection', () => {
         .spyOn(realProvider, 'analyzeRealMode')
         .mockRejectedValue(new Error('API error'));
 
-      const result1 = await analyzeProfile(sampleProfile);
-      const result2 = await analyzeProfile(sampleProfile);
+      const { result: result1 } = await analyzeProfile(sampleProfile);
+      const { result: result2 } = await analyzeProfile(sampleProfile);
 
       // Demo mode is deterministic, so results should be identical
       expect(result1.summary).toBe(result2.summary);
@@ -215,9 +261,15 @@ describe('Provider Selection', () => {
             type: 'fast-income' as const,
             title: 'Real Job',
             description: 'From API',
-            incomeTrajectory: { year1: '$70k', year3: '$90k', year5: '$110k' },
-            roadmap: [{ phase: 'Phase 1', duration: '3 months', steps: ['Step 1'] }],
-            requiredCredentials: [{ name: 'Cert', timeline: '1 month', cost: '$100' }],
+            incomeTrajectory: {
+              year1: annualIncome(70000),
+              year3: annualIncome(90000),
+              year5: annualIncome(110000),
+            },
+            roadmap: [{ phase: 'Phase 1', duration: durationMonths(3), steps: ['Step 1'] }],
+            requiredCredentials: [
+              { name: 'Cert', timeline: durationMonths(1), cost: credentialCost(100) },
+            ],
             familyImpact: {
               timeCommitment: 'Full-time',
               flexibility: 'High',
@@ -230,9 +282,15 @@ describe('Provider Selection', () => {
             type: 'balanced' as const,
             title: 'Balanced Job',
             description: 'From API',
-            incomeTrajectory: { year1: '$75k', year3: '$95k', year5: '$115k' },
-            roadmap: [{ phase: 'Phase 1', duration: '6 months', steps: ['Step 1'] }],
-            requiredCredentials: [{ name: 'Cert', timeline: '2 months', cost: '$200' }],
+            incomeTrajectory: {
+              year1: annualIncome(75000),
+              year3: annualIncome(95000),
+              year5: annualIncome(115000),
+            },
+            roadmap: [{ phase: 'Phase 1', duration: durationMonths(6), steps: ['Step 1'] }],
+            requiredCredentials: [
+              { name: 'Cert', timeline: durationMonths(2), cost: credentialCost(200) },
+            ],
             familyImpact: {
               timeCommitment: 'Full-time',
               flexibility: 'Medium',
@@ -245,9 +303,15 @@ describe('Provider Selection', () => {
             type: 'max-upside' as const,
             title: 'Max Job',
             description: 'From API',
-            incomeTrajectory: { year1: '$80k', year3: '$120k', year5: '$150k' },
-            roadmap: [{ phase: 'Phase 1', duration: '12 months', steps: ['Step 1'] }],
-            requiredCredentials: [{ name: 'Cert', timeline: '6 months', cost: '$500' }],
+            incomeTrajectory: {
+              year1: annualIncome(80000),
+              year3: annualIncome(120000),
+              year5: annualIncome(150000),
+            },
+            roadmap: [{ phase: 'Phase 1', duration: durationMonths(12), steps: ['Step 1'] }],
+            requiredCredentials: [
+              { name: 'Cert', timeline: durationMonths(6), cost: credentialCost(500) },
+            ],
             familyImpact: {
               timeCommitment: 'Full-time+',
               flexibility: 'Low',
@@ -261,9 +325,9 @@ describe('Provider Selection', () => {
 
       const mockAnalyzeRealMode = vi
         .spyOn(realProvider, 'analyzeRealMode')
-        .mockResolvedValue(mockResult);
+        .mockResolvedValue({ result: mockResult, model: 'claude-test-model', promptVersion: 'v2' });
 
-      const result = await analyzeProfile(sampleProfile);
+      const { result } = await analyzeProfile(sampleProfile);
 
       // Should return real mode result
       expect(result.summary).toBe('Real mode result');
@@ -275,4 +339,305 @@ describe('Provider Selection', () => {
       mockAnalyzeRealMode.mockRestore();
     });
   });
+
+  describe('provenance metadata', () => {
+    it('reports demo provider and template in demo mode', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(metadata.provider).toBe('demo');
+      expect(metadata.attemptedProviders).toEqual(['demo']);
+      expect(metadata.fallback).toBe(false);
+      expect(metadata.fallbackReason).toBeUndefined();
+      expect(metadata.demoTemplateId).toBeTruthy();
+      expect(metadata.model).toBeUndefined();
+      expect(metadata.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('reports fallback and its reason when real mode fails', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(new Error('Overloaded'));
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(metadata.provider).toBe('demo');
+      expect(metadata.attemptedProviders).toEqual(['real', 'demo']);
+      expect(metadata.fallback).toBe(true);
+      expect(metadata.fallbackReason).toBe('Real mode failed: Overloaded');
+
+      mockAnalyzeRealMode.mockRestore();
+    });
+
+    it('redacts API keys from the fallback reason', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(new Error('Invalid key sk-ant-abc123'));
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(metadata.fallbackReason).not.toContain('sk-ant-abc123');
+      expect(metadata.fallbackReason).toContain('[redacted]');
+
+      mockAnalyzeRealMode.mockRestore();
+    });
+
+    it('reports model and prompt version in real mode', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+
+      const mockAnalyzeRealMode = vi.spyOn(realProvider, 'analyzeRealMode').mockResolvedValue({
+        result: await analyzeDemoMode(sampleProfile),
+        model: 'claude-test-model',
+        promptVersion: 'v2',
+      });
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(metadata.provider).toBe('real');
+      expect(metadata.fallback).toBe(false);
+      expect(metadata.model).toBe('claude-test-model');
+      expect(metadata.promptVersion).toBe('v2');
+      expect(metadata.demoTemplateId).toBeUndefined();
+
+      mockAnalyzeRealMode.mockRestore();
+    });
+  });
+
+  describe('streaming', () => {
+    it('reports the summary and each pathway of non-streaming providers', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
+      const events: AnalysisStreamEvent[] = [];
+
+      const { result } = await analyzeProfile(sampleProfile, {}, (event) => events.push(event));
+
+      expect(events.map((event) => event.type)).toEqual([
+        'summary',
+        'pathway',
+        'pathway',
+        'pathway',
+      ]);
+      expect(events[0]).toEqual({ type: 'summary', summary: result.summary });
+      expect(events[3]).toEqual({ type: 'pathway', index: 2, pathway: result.pathways[2] });
+    });
+
+    it('passes progress through from streaming providers', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+      const demo = await analyzeDemoMode(sampleProfile);
+      const events: AnalysisStreamEvent[] = [];
+
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockImplementation(async (_profile, _types, { onProgress } = {}) => {
+          onProgress?.({ type: 'pathway', index: 1, pathway: demo.pathways[1] });
+          return { result: demo, model: 'claude-test-model', promptVersion: 'v2' };
+        });
+
+      await analyzeProfile(sampleProfile, {}, (event) => events.push(event));
+
+      expect(events).toEqual([{ type: 'pathway', index: 1, pathway: demo.pathways[1] }]);
+
+      mockAnalyzeRealMode.mockRestore();
+    });
+
+    it('resets partial output before falling back', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+      const events: AnalysisStreamEvent[] = [];
+
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockImplementation(async (_profile, _types, { onProgress } = {}) => {
+          onProgress?.({ type: 'summary', summary: 'Partial' });
+          throw new Error('Stream interrupted');
+        });
+
+      const { metadata } = await analyzeProfile(sampleProfile, {}, (event) => events.push(event));
+
+      expect(events.slice(0, 3).map((event) => event.type)).toEqual([
+        'summary',
+        'reset',
+        'summary',
+      ]);
+      expect(events[1]).toEqual({ type: 'reset', reason: 'Real mode failed: Stream interrupted' });
+      expect(metadata.provider).toBe('demo');
+
+      mockAnalyzeRealMode.mockRestore();
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    const overloaded = Object.assign(new Error('Overloaded'), { status: 529 });
+    const retrySettings = ['ANALYSIS_MAX_RETRIES', 'ANALYSIS_RETRY_BASE_MS', 'ANALYSIS_TIMEOUT_MS'];
+    let originalSettings: (string | undefined)[];
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      process.env.ANTHROPIC_API_KEY = 'sk-test-key';
+      originalSettings = retrySettings.map((name) => process.env[name]);
+      process.env.ANALYSIS_RETRY_BASE_MS = '0';
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      retrySettings.forEach((name, index) => {
+        if (originalSettings[index] !== undefined) {
+          process.env[name] = originalSettings[index];
+        } else {
+          delete process.env[name];
+        }
+      });
+    });
+
+    it('retries retryable failures and reports the retry', async () => {
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValueOnce(overloaded)
+        .mockResolvedValue({
+          result: await analyzeDemoMode(sampleProfile),
+          model: 'claude-test-model',
+          promptVersion: 'v2',
+        });
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(mockAnalyzeRealMode).toHaveBeenCalledTimes(2);
+      expect(metadata).toMatchObject({
+        provider: 'real',
+        fallback: false,
+        errorKind: 'overloaded',
+        retries: 1,
+      });
+      expect(metadata.fallbackReason).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Real mode failed, retrying (attempt 2 of 3)',
+        expect.objectContaining({ errorKind: 'overloaded', delayMs: 0 })
+      );
+    });
+
+    it('falls back once retries are used up', async () => {
+      process.env.ANALYSIS_MAX_RETRIES = '1';
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(overloaded);
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(mockAnalyzeRealMode).toHaveBeenCalledTimes(2);
+      expect(metadata).toMatchObject({
+        provider: 'demo',
+        fallback: true,
+        fallbackReason: 'Real mode failed: Overloaded',
+        errorKind: 'overloaded',
+        retries: 1,
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Real mode failed, falling back to demo mode',
+        expect.objectContaining({ errorKind: 'overloaded' })
+      );
+    });
+
+    it('uses the default for an invalid setting instead of failing the request', async () => {
+      process.env.ANALYSIS_MAX_RETRIES = 'lots';
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(overloaded);
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(mockAnalyzeRealMode).toHaveBeenCalledTimes(3);
+      expect(metadata).toMatchObject({ provider: 'demo', retries: 2 });
+      expect(logger.error).toHaveBeenCalledWith(
+        'Invalid analyzer setting, using the default',
+        expect.objectContaining({ variable: 'ANALYSIS_MAX_RETRIES', default: 2 })
+      );
+    });
+
+    it('scales the request time limit with the token budget by default', async () => {
+      const mockAnalyzeRealMode = vi.spyOn(realProvider, 'analyzeRealMode').mockResolvedValue({
+        result: await analyzeDemoMode(sampleProfile),
+        model: 'claude-test-model',
+        promptVersion: 'v2',
+      });
+
+      await analyzeProfile(sampleProfile, { maxTokens: 32_000 });
+
+      expect(mockAnalyzeRealMode.mock.calls[0][2]?.timeoutMs).toBe(900_000);
+    });
+
+    it('falls back from invalid output without retrying', async () => {
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(new AnalysisError('invalid-output', 'No tool use found'));
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(mockAnalyzeRealMode).toHaveBeenCalledOnce();
+      expect(metadata).toMatchObject({
+        provider: 'demo',
+        fallbackReason: 'Real mode failed: No tool use found',
+        errorKind: 'invalid-output',
+      });
+      expect(metadata.retries).toBeUndefined();
+    });
+
+    it('falls back from auth failures without retrying and logs an error', async () => {
+      const mockAnalyzeRealMode = vi
+        .spyOn(realProvider, 'analyzeRealMode')
+        .mockRejectedValue(Object.assign(new Error('invalid x-api-key'), { status: 401 }));
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(mockAnalyzeRealMode).toHaveBeenCalledOnce();
+      expect(metadata).toMatchObject({ provider: 'demo', errorKind: 'auth' });
+      expect(metadata.retries).toBeUndefined();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Real mode failed, falling back to demo mode',
+        expect.objectContaining({ errorKind: 'auth' })
+      );
+    });
+
+    it('aborts attempts that run past the timeout of every request they may make', async () => {
+      process.env.ANALYSIS_TIMEOUT_MS = '20';
+      process.env.ANALYSIS_MAX_RETRIES = '0';
+      let options: realProvider.RealModeOptions | undefined;
+      vi.spyOn(realProvider, 'analyzeRealMode').mockImplementation((_profile, _types, received) => {
+        options = received;
+        return new Promise(() => {});
+      });
+
+      const { metadata } = await analyzeProfile(sampleProfile);
+
+      expect(options?.timeoutMs).toBe(20);
+      expect(options?.signal?.aborted).toBe(true);
+      expect(metadata).toMatchObject({
+        provider: 'demo',
+        errorKind: 'timeout',
+        fallbackReason: `Real mode failed: Timed out after ${20 * (MAX_REPAIR_ROUNDS + 1)}ms`,
+      });
+    });
+
+    it('resets partial output before retrying', async () => {
+      const demo = await analyzeDemoMode(sampleProfile);
+      const events: AnalysisStreamEvent[] = [];
+      vi.spyOn(realProvider, 'analyzeRealMode')
+        .mockImplementationOnce(async (_profile, _types, { onProgress } = {}) => {
+          onProgress?.({ type: 'summary', summary: 'Partial' });
+          throw overloaded;
+        })
+        .mockResolvedValue({ result: demo, model: 'claude-test-model', promptVersion: 'v2' });
+
+      const { metadata } = await analyzeProfile(sampleProfile, {}, (event) => events.push(event));
+
+      expect(events.slice(0, 3)).toEqual([
+        { type: 'summary', summary: 'Partial' },
+        { type: 'reset', reason: 'Real mode failed (overloaded), retrying: Overloaded' },
+        { type: 'summary', summary: demo.summary },
+      ]);
+      expect(metadata.provider).toBe('real');
+    });
+  });
 });
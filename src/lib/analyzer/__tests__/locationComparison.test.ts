@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { compareLocations, comparedLocations, demandFor } from '../locationComparison';
+import { analyzeDemoMode } from '../demoProvider';
+import { localizePathway } from '../costOfLiving';
+import { annualIncome } from '../income';
+import { AnalysisResultSchema, CareerPathway } from '../types';
+import { lookupMetro } from '../../costOfLiving';
+
+const profile = {
+  branch: 'Army',
+  yearsOfService: 6,
+  rank: 'SSG',
+  mos: '25B',
+  technicalSkills: ['Networking'],
+  certifications: ['Security+'],
+  leadershipExperience: 'Squad leader',
+  familyStatus: 'Married',
+  dependents: 2,
+  spouseEmployment: 'Full-time',
+  currentLocation: 'Fort Liberty, NC',
+  willingToRelocate: true,
+  preferredLocations: ['Seattle, WA', 'San Antonio, TX'],
+  careerGoals: 'Network engineering',
+  incomeExpectations: '$70,000+',
+  educationInterest: 'Certifications',
+  timeline: '6 months',
+};
+
+const pathway = {
+  type: 'fast-income',
+  title: 'Network Technician',
+  description: 'Entry-level network support',
+  incomeTrajectory: {
+    year1: annualIncome(60000, 70000),
+    year3: annualIncome(70000, 85000),
+    year5: annualIncome(85000, 100000),
+  },
+  roadmap: [],
+  requiredCredentials: [],
+  familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+  whyThisPath: '',
+} satisfies CareerPathway;
+
+describe('comparedLocations', () => {
+  it('lists the current location first, then preferred locations', () => {
+    expect(comparedLocations(profile).map(({ location }) => location)).toEqual([
+      'Fort Liberty, NC',
+      'Seattle, WA',
+      'San Antonio, TX',
+    ]);
+  });
+
+  it('compares nothing when not relocating or without another location', () => {
+    expect(comparedLocations({ ...profile, willingToRelocate: false })).toEqual([]);
+    expect(
+      comparedLocations({ ...profile, preferredLocations: ['fort liberty, nc', ' '] })
+    ).toEqual([]);
+  });
+});
+
+describe('demandFor', () => {
+  const elPaso = lookupMetro('El Paso, TX');
+  const seattle = lookupMetro('Seattle, WA');
+
+  it('rates strong career fields high', () => {
+    expect(demandFor(pathway, seattle, 'it-communications')).toBe('high');
+    expect(demandFor(pathway, elPaso, 'it-communications')).toBe(elPaso.demandLevel);
+  });
+
+  it('rates federal jobs by federal hubs', () => {
+    expect(demandFor({ ...pathway, type: 'federal-service' }, elPaso)).toBe('high');
+    expect(demandFor({ ...pathway, type: 'federal-service' }, seattle)).toBe('moderate');
+  });
+
+  it('treats remote roles the same everywhere', () => {
+    expect(demandFor({ ...pathway, type: 'remote-first' }, elPaso)).toBe('moderate');
+  });
+});
+
+describe('compareLocations', () => {
+  const market = lookupMetro('Seattle, WA');
+  const result = compareLocations(
+    { summary: 'Summary', pathways: [localizePathway(pathway, market)] },
+    profile,
+    'it-communications'
+  );
+  const [breakdown] = result.pathways.map((localized) => localized.locationBreakdown!);
+
+  it('produces a valid result', () => {
+    expect(AnalysisResultSchema.safeParse(result).success).toBe(true);
+  });
+
+  it('keeps the priced market unchanged and rescales the others by wages', () => {
+    const seattle = breakdown.find(({ location }) => location === 'Seattle, WA')!;
+    const fayetteville = breakdown.find(({ location }) => location === 'Fort Liberty, NC')!;
+    expect(seattle.incomeTrajectory).toEqual(pathway.incomeTrajectory);
+    expect(fayetteville.incomeTrajectory.year1.min).toBeLessThan(
+      pathway.incomeTrajectory.year1.min
+    );
+    expect(fayetteville.adjustedTrajectory.year1.min).toBeGreaterThan(
+      fayetteville.incomeTrajectory.year1.min
+    );
+  });
+
+  it('describes each location with its state benefits', () => {
+    expect(result.locations?.map(({ market }) => market)).toEqual([
+      lookupMetro('Fort Liberty, NC').name,
+      market.name,
+      lookupMetro('San Antonio, TX').name,
+    ]);
+    expect(result.locations?.[1].stateBenefits).toMatchObject({
+      state: 'Washington',
+      incomeTax: false,
+    });
+  });
+
+  it('leaves results alone when not comparing locations', () => {
+    const single = { summary: 'Summary', pathways: [pathway] };
+    expect(compareLocations(single, { ...profile, willingToRelocate: false })).toBe(single);
+  });
+});
+
+describe('demo mode location comparison', () => {
+  it('breaks every pathway down by location', async () => {
+    const result = await analyzeDemoMode(profile);
+    expect(result.locations).toHaveLength(3);
+    for (const demoPathway of result.pathways) {
+      expect(demoPathway.locationBreakdown).toHaveLength(3);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { currentPhaseIndex, scheduleRoadmap } from '../milestones';
+import { analyzeDemoMode } from '../demoProvider';
+import { annualIncome } from '../income';
+import { durationDays, durationMonths, ongoing } from '../duration';
+import { CareerPathway, CareerPathwaySchema } from '../types';
+
+describe('scheduleRoadmap', () => {
+  const pathway = {
+    type: 'fast-income',
+    title: 'Network Technician',
+    description: 'Entry-level network support',
+    incomeTrajectory: {
+      year1: annualIncome(50000),
+      year3: annualIncome(60000),
+      year5: annualIncome(75000),
+    },
+    roadmap: [
+      { phase: 'Month 1-2: Certifications', duration: durationMonths(1, 2), steps: ['Study'] },
+      { phase: 'Month 3-12: Entry Role', duration: durationMonths(10), steps: ['Work'] },
+      { phase: 'Keep Learning', duration: ongoing(), steps: ['Grow'] },
+    ],
+    requiredCredentials: [],
+    familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+    whyThisPath: '',
+  } satisfies CareerPathway;
+
+  it('dates phases back to back from the separation date', () => {
+    const [certifications, entryRole, learning] = scheduleRoadmap(pathway, '2027-06-30').roadmap;
+
+    expect(certifications).toMatchObject({ startDate: '2027-06-30', endDate: '2027-08-30' });
+    expect(entryRole).toMatchObject({ startDate: '2027-08-30', endDate: '2028-06-29' });
+    expect(learning).toMatchObject({ startDate: '2028-06-29' });
+    expect(learning.endDate).toBeUndefined();
+  });
+
+  it('keeps pre-separation dates and continues after them', () => {
+    const withProgram = {
+      ...pathway,
+      roadmap: [
+        {
+          phase: 'SkillBridge: Onward to Opportunity',
+          duration: durationDays(84),
+          startDate: '2027-04-07',
+          endDate: '2027-06-30',
+          steps: ['Train'],
+        },
+        ...pathway.roadmap,
+      ],
+    };
+
+    const [program, certifications] = scheduleRoadmap(withProgram, '2027-06-30').roadmap;
+
+    expect(program).toBe(withProgram.roadmap[0]);
+    expect(certifications.startDate).toBe('2027-06-30');
+    expect(CareerPathwaySchema.safeParse(scheduleRoadmap(withProgram, '2027-06-30')).success).toBe(
+      true
+    );
+  });
+
+  it('leaves the roadmap alone without a separation date', () => {
+    expect(scheduleRoadmap(pathway, undefined)).toBe(pathway);
+  });
+});
+
+describe('currentPhaseIndex', () => {
+  const roadmap = [
+    {
+      phase: 'A',
+      duration: durationMonths(1),
+      steps: [],
+      startDate: '2027-01-01',
+      endDate: '2027-02-01',
+    },
+    {
+      phase: 'B',
+      duration: durationMonths(1),
+      steps: [],
+      startDate: '2027-02-01',
+      endDate: '2027-03-01',
+    },
+  ];
+
+  it('finds the phase in progress today', () => {
+    expect(currentPhaseIndex(roadmap, '2027-01-15')).toBe(0);
+    expect(currentPhaseIndex(roadmap, '2027-02-01')).toBe(1);
+  });
+
+  it('places today before or after the dated phases', () => {
+    expect(currentPhaseIndex(roadmap, '2026-10-19')).toBe(-1);
+    expect(currentPhaseIndex(roadmap, '2027-03-01')).toBe(2);
+  });
+
+  it('treats ongoing phases as never finished', () => {
+    const withOngoing = [
+      ...roadmap,
+      { phase: 'C', duration: ongoing(), steps: [], startDate: '2027-03-01' },
+    ];
+    expect(currentPhaseIndex(withOngoing, '2030-01-01')).toBe(2);
+  });
+
+  it('returns undefined for undated roadmaps', () => {
+    expect(
+      currentPhaseIndex([{ phase: 'A', duration: durationMonths(1), steps: [] }], '2027-01-01')
+    ).toBeUndefined();
+  });
+});
+
+describe('demo mode milestones', () => {
+  it('dates every roadmap phase when the separation date is known', async () => {
+    const separationDate = '2027-06-30';
+    const result = await analyzeDemoMode({
+      branch: 'Army',
+      yearsOfService: 6,
+      rank: 'SSG',
+      mos: '25B',
+      separationDate,
+      technicalSkills: ['Networking'],
+      certifications: ['Security+'],
+      leadershipExperience: 'Squad leader',
+      familyStatus: 'Single',
+      dependents: 0,
+      spouseEmployment: 'N/A',
+      currentLocation: 'Fort Meade, MD',
+      willingToRelocate: false,
+      preferredLocations: [],
+      careerGoals: 'Network engineering',
+      incomeExpectations: '$70,000+',
+      educationInterest: 'Certifications',
+      timeline: '6 months',
+    });
+
+    for (const pathway of result.pathways) {
+      expect(pathway.roadmap.every((phase) => phase.startDate)).toBe(true);
+      expect(pathway.roadmap.some((phase) => phase.startDate === separationDate)).toBe(true);
+    }
+  });
+});
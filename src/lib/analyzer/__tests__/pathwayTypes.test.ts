@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PATHWAY_TYPES,
+  getPathwayLabel,
+  isPathwayType,
+  PATHWAY_TYPE_DEFINITIONS,
+  PATHWAY_TYPES,
+  resolvePathwayTypes,
+} from '../pathwayTypes';
+
+describe('pathway type registry', () => {
+  it('defines a label, description and style for every type', () => {
+    PATHWAY_TYPES.forEach((type) => {
+      const definition = PATHWAY_TYPE_DEFINITIONS[type];
+      expect(definition.label).toBeTruthy();
+      expect(definition.description).toBeTruthy();
+      expect(definition.style.badge).toMatch(/^bg-/);
+    });
+  });
+
+  it('lists the default types first', () => {
+    expect(PATHWAY_TYPES.slice(0, DEFAULT_PATHWAY_TYPES.length)).toEqual(DEFAULT_PATHWAY_TYPES);
+  });
+
+  it('recognizes registered types', () => {
+    expect(isPathwayType('entrepreneurship')).toBe(true);
+    expect(isPathwayType('gig-work')).toBe(false);
+  });
+
+  it('labels registered types and passes unknown types through', () => {
+    expect(getPathwayLabel('max-upside')).toBe('Maximum Upside');
+    expect(getPathwayLabel('gig-work')).toBe('gig-work');
+  });
+});
+
+describe('resolvePathwayTypes', () => {
+  it('defaults to fast-income, balanced and max-upside', () => {
+    expect(resolvePathwayTypes()).toEqual(['fast-income', 'balanced', 'max-upside']);
+  });
+
+  it('uses explicit pathway types as given', () => {
+    expect(resolvePathwayTypes({ pathwayTypes: ['federal-service', 'balanced'] })).toEqual([
+      'federal-service',
+      'balanced',
+    ]);
+  });
+
+  it('generates entrepreneurship only when requested', () => {
+    expect(resolvePathwayTypes({ pathwayTypes: ['balanced', 'entrepreneurship'] })).toEqual([
+      'balanced',
+      'entrepreneurship',
+    ]);
+    expect(resolvePathwayTypes({})).not.toContain('entrepreneurship');
+  });
+
+  it('takes a count of types in registry order', () => {
+    expect(resolvePathwayTypes({ count: 2 })).toEqual(['fast-income', 'balanced']);
+    expect(resolvePathwayTypes({ count: 4 })).toEqual([
+      'fast-income',
+      'balanced',
+      'max-upside',
+      'entrepreneurship',
+    ]);
+  });
+});
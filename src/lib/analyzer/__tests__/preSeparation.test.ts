@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { addPreSeparationPhases } from '../preSeparation';
+import { analyzeDemoMode } from '../demoProvider';
+import { annualIncome } from '../income';
+import { durationMonths } from '../duration';
+import { CareerPathway, CareerPathwaySchema } from '../types';
+
+describe('addPreSeparationPhases', () => {
+  const pathway = {
+    type: 'fast-income',
+    title: 'Network Technician',
+    description: 'Entry-level network support',
+    incomeTrajectory: {
+      year1: annualIncome(50000),
+      year3: annualIncome(60000),
+      year5: annualIncome(75000),
+    },
+    roadmap: [{ phase: 'Job Search', duration: durationMonths(2), steps: ['Apply'] }],
+    requiredCredentials: [],
+    familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+    whyThisPath: '',
+  } satisfies CareerPathway;
+
+  const context = {
+    separationDate: '2027-06-30',
+    location: 'Fort Meade, MD',
+    careerField: 'it-communications' as const,
+    today: '2026-10-19',
+  };
+
+  it('inserts dated application and program phases first', () => {
+    const planned = addPreSeparationPhases(pathway, context);
+    const [apply, program, jobSearch] = planned.roadmap;
+
+    expect(apply).toMatchObject({ endDate: program.startDate });
+    expect(program).toMatchObject({
+      phase: 'SkillBridge: Microsoft Software & Systems Academy',
+      endDate: '2027-06-30',
+    });
+    expect(jobSearch).toBe(pathway.roadmap[0]);
+    expect(CareerPathwaySchema.safeParse(planned).success).toBe(true);
+  });
+
+  it('falls back to shorter programs when time is short', () => {
+    const planned = addPreSeparationPhases(pathway, { ...context, separationDate: '2027-02-01' });
+    expect(planned.roadmap[1].phase).toBe('SkillBridge: Onward to Opportunity');
+  });
+
+  it('leaves the roadmap alone without a separation date or time to join', () => {
+    expect(addPreSeparationPhases(pathway, { ...context, separationDate: undefined })).toBe(
+      pathway
+    );
+    expect(addPreSeparationPhases(pathway, { ...context, separationDate: '2026-11-01' })).toBe(
+      pathway
+    );
+  });
+});
+
+describe('demo mode pre-separation planning', () => {
+  it('opens roadmaps with a program when the separation date is known', async () => {
+    const separationDate = new Date(Date.now() + 200 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const result = await analyzeDemoMode({
+      branch: 'Army',
+      yearsOfService: 6,
+      rank: 'SSG',
+      mos: '25B',
+      separationDate,
+      technicalSkills: ['Networking'],
+      certifications: ['Security+'],
+      leadershipExperience: 'Squad leader',
+      familyStatus: 'Married',
+      dependents: 2,
+      spouseEmployment: 'Full-time',
+      currentLocation: 'Fort Meade, MD',
+      willingToRelocate: false,
+      preferredLocations: [],
+      careerGoals: 'Network engineering',
+      incomeExpectations: '$70,000+',
+      educationInterest: 'Certifications',
+      timeline: '6 months',
+    });
+
+    for (const demoPathway of result.pathways) {
+      expect(demoPathway.roadmap[0].phase).toMatch(/^Pre-Separation/);
+      expect(demoPathway.roadmap[1].endDate).toBe(separationDate);
+    }
+  });
+});
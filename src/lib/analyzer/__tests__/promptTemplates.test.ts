@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { listPromptTemplates, loadPromptTemplate, renderPrompt } from '../promptTemplates';
+
+describe('prompt templates', () => {
+  let dir: string;
+
+  const writePrompt = (file: string, text: string) => writeFileSync(path.join(dir, file), text);
+  const load = (text: string) => {
+    writePrompt('test.v1.txt', text);
+    return loadPromptTemplate('test', 'v1', dir);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'prompts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists the bundled templates', () => {
+    expect(listPromptTemplates()).toEqual(
+      expect.arrayContaining([
+        { name: 'analysis', version: 'v1' },
+        { name: 'analysis', version: 'v2' },
+      ])
+    );
+  });
+
+  it('lists templates by name and version number', () => {
+    writePrompt('analysis.v10.txt', '');
+    writePrompt('analysis.v2.txt', '');
+    writePrompt('repair.v1.txt', '');
+    writePrompt('README.md', '# ignored');
+
+    expect(listPromptTemplates(dir)).toEqual([
+      { name: 'analysis', version: 'v2' },
+      { name: 'analysis', version: 'v10' },
+      { name: 'repair', version: 'v1' },
+    ]);
+  });
+
+  it('collects variables and drops the final newline', () => {
+    const template = load('Hello {{name}}{{#rank}} ({{rank}}){{/rank}}, {{name}}\n');
+
+    expect(template.text).toBe('Hello {{name}}{{#rank}} ({{rank}}){{/rank}}, {{name}}');
+    expect(template.variables).toEqual(['name', 'rank']);
+  });
+
+  it('substitutes variables and keeps sections whose variable is set', () => {
+    const template = load('{{#rank}}Rank: {{rank}}\n{{/rank}}Years: {{years}}');
+
+    expect(renderPrompt(template, { rank: 'E-5', years: 6 })).toBe('Rank: E-5\nYears: 6');
+    expect(renderPrompt(template, { rank: '', years: 0 })).toBe('Years: 0');
+  });
+
+  it('treats false and zero as unset sections', () => {
+    const template = load('{{#relocating}}Relocating{{/relocating}}{{#rating}}Rated{{/rating}}');
+
+    expect(renderPrompt(template, { relocating: false, rating: 0 })).toBe('');
+    expect(renderPrompt(template, { relocating: true, rating: 30 })).toBe('RelocatingRated');
+  });
+
+  it('fails on variables the caller did not provide', () => {
+    const template = load('{{#rank}}Rank{{/rank}} {{name}} {{years}}');
+
+    expect(() => renderPrompt(template, { rank: 'E-5' })).toThrow(
+      'Prompt test.v1 is missing variables: name, years'
+    );
+    expect(() => renderPrompt(template, { rank: 'E-5', name: 'Sam', years: undefined })).toThrow(
+      'Prompt test.v1 has no value for years'
+    );
+  });
+
+  it('rejects unbalanced and nested sections', () => {
+    writePrompt('open.v1.txt', '{{#rank}}Rank');
+    writePrompt('stray.v1.txt', 'Rank{{/rank}}');
+    writePrompt('nested.v1.txt', '{{#a}}{{#b}}{{/b}}{{/a}}');
+
+    expect(() => loadPromptTemplate('open', 'v1', dir)).toThrow(
+      'Prompt template open.v1.txt does not close section rank'
+    );
+    expect(() => loadPromptTemplate('stray', 'v1', dir)).toThrow(
+      'Prompt template stray.v1.txt closes {{/rank}} without opening it'
+    );
+    expect(() => loadPromptTemplate('nested', 'v1', dir)).toThrow(
+      'Prompt template nested.v1.txt nests section b in a'
+    );
+  });
+
+  it('reports unknown templates', () => {
+    expect(() => loadPromptTemplate('missing', 'v1', dir)).toThrow(
+      'Unknown prompt template missing.v1.txt'
+    );
+  });
+});
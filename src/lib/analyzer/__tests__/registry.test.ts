@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  listProviders,
+  getProviderChain,
+  getActiveProvider,
+  AnalysisProvider,
+} from '../registry';
+import { analyzeProfile, getCurrentMode } from '../index';
+import { analyzeDemoMode } from '../demoProvider';
+import { logger } from '../../logger';
+
+// Mock the logger
+vi.mock('../../logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('Provider Registry', () => {
+  const sampleProfile = {
+    branch: 'Navy',
+    yearsOfService: 8,
+    rank: 'E-6',
+    mos: 'LS',
+    technicalSkills: ['Inventory Management', 'Logistics'],
+    certifications: [],
+    leadershipExperience: 'Leading Petty Officer for supply division',
+    familyStatus: 'Married',
+    dependents: 1,
+    spouseEmployment: 'Part-time',
+    currentLocation: 'Norfolk, VA',
+    willingToRelocate: false,
+    preferredLocations: [],
+    careerGoals: 'Supply chain management',
+    incomeExpectations: '$60,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  const cachedProvider: AnalysisProvider = {
+    name: 'cached',
+    description: 'Serving cached analyses',
+    isAvailable: () => true,
+    analyze: vi.fn(async (profile) => ({
+      result: { ...(await analyzeDemoMode(profile)), summary: 'Cached result' },
+    })),
+  };
+
+  let originalApiKey: string | undefined;
+  let originalChain: string | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    originalApiKey = process.env.ANTHROPIC_API_KEY;
+    originalChain = process.env.ANALYSIS_PROVIDERS;
+    registerProvider(cachedProvider);
+  });
+
+  afterEach(() => {
+    unregisterProvider('cached');
+
+    if (originalApiKey !== undefined) {
+      process.env.ANTHROPIC_API_KEY = originalApiKey;
+    } else {
+      delete process.env.ANTHROPIC_API_KEY;
+    }
+
+    if (originalChain !== undefined) {
+      process.env.ANALYSIS_PROVIDERS = originalChain;
+    } else {
+      delete process.env.ANALYSIS_PROVIDERS;
+    }
+  });
+
+  it('registers the built-in real and demo providers', () => {
+    expect(getProvider('real')).toBeDefined();
+    expect(getProvider('demo')).toBeDefined();
+    expect(listProviders().map((p) => p.name)).toEqual(['real', 'demo', 'cached']);
+  });
+
+  it('rejects duplicate provider names', () => {
+    expect(() => registerProvider({ ...cachedProvider })).toThrow('already registered');
+  });
+
+  it('uses real → demo as the default chain', () => {
+    delete process.env.ANALYSIS_PROVIDERS;
+    expect(getProviderChain().map((p) => p.name)).toEqual(['real', 'demo']);
+  });
+
+  it('reads the chain order from ANALYSIS_PROVIDERS', () => {
+    process.env.ANALYSIS_PROVIDERS = 'real, Cached ,demo';
+    expect(getProviderChain().map((p) => p.name)).toEqual(['real', 'cached', 'demo']);
+  });
+
+  it('keeps the default chain when ANALYSIS_PROVIDERS is invalid', () => {
+    process.env.ANALYSIS_PROVIDERS = ',';
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(getProviderChain().map((p) => p.name)).toEqual(['real', 'demo']);
+    expect(getCurrentMode()).toBe('demo');
+    expect(logger.error).toHaveBeenCalledWith(
+      'Invalid analyzer setting, using the default',
+      expect.objectContaining({ variable: 'ANALYSIS_PROVIDERS', default: ['real', 'demo'] })
+    );
+  });
+
+  it('skips unknown providers with a warning', () => {
+    process.env.ANALYSIS_PROVIDERS = 'real,missing,demo';
+
+    expect(getProviderChain().map((p) => p.name)).toEqual(['real', 'demo']);
+    expect(logger.warn).toHaveBeenCalledWith('Unknown analysis provider in chain', {
+      provider: 'missing',
+    });
+  });
+
+  it('reports the first available provider as the active mode', () => {
+    process.env.ANALYSIS_PROVIDERS = 'real,cached,demo';
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(getActiveProvider()?.name).toBe('cached');
+    expect(getCurrentMode()).toBe('cached');
+  });
+
+  it('falls back along the configured chain', async () => {
+    process.env.ANALYSIS_PROVIDERS = 'cached,demo';
+    vi.mocked(cachedProvider.analyze).mockRejectedValueOnce(new Error('Cache miss'));
+
+    const { result, metadata } = await analyzeProfile(sampleProfile);
+
+    expect(result.pathways).toHaveLength(3);
+    expect(metadata.attemptedProviders).toEqual(['cached', 'demo']);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Cached mode failed, falling back to demo mode',
+      expect.objectContaining({ provider: 'cached', fallbackProvider: 'demo' })
+    );
+  });
+
+  it('rethrows when the last provider in the chain fails', async () => {
+    process.env.ANALYSIS_PROVIDERS = 'cached';
+    vi.mocked(cachedProvider.analyze).mockRejectedValueOnce(new Error('Cache miss'));
+
+    await expect(analyzeProfile(sampleProfile)).rejects.toThrow('Cache miss');
+  });
+
+  it('throws when no provider in the chain is available', async () => {
+    process.env.ANALYSIS_PROVIDERS = 'real';
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(getCurrentMode()).toBe('none');
+    await expect(analyzeProfile(sampleProfile)).rejects.toThrow(
+      'No analysis provider is available'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_REMOTE_ROLE, generateRemoteFirst } from '../remoteFirst';
+import { loadPathwayTemplates } from '../templateLoader';
+import { CareerPathwaySchema } from '../types';
+
+describe('generateRemoteFirst', () => {
+  const profile = {
+    branch: 'Army',
+    yearsOfService: 6,
+    rank: 'E-5',
+    mos: '25B',
+    technicalSkills: ['Network troubleshooting', 'Active Directory'],
+    certifications: [],
+    leadershipExperience: 'Team leader',
+    familyStatus: 'Married',
+    dependents: 1,
+    spouseEmployment: 'Employed full-time',
+    currentLocation: 'Fort Hood, TX',
+    willingToRelocate: false,
+    preferredLocations: [],
+    careerGoals: 'Work from home in IT',
+    incomeExpectations: '$60,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  const templates = loadPathwayTemplates();
+  const byId = (id: string) => templates.find((template) => template.id === id)!;
+  const pathway = generateRemoteFirst(profile, byId('it-communications'));
+  const allSteps = pathway.roadmap.flatMap((phase) => phase.steps).join(' ');
+
+  it('produces a valid remote-first pathway', () => {
+    expect(pathway.type).toBe('remote-first');
+    expect(CareerPathwaySchema.safeParse(pathway).success).toBe(true);
+  });
+
+  it("uses the template's remote role", () => {
+    expect(pathway.title).toBe('Cloud Support Associate');
+    expect(pathway.requiredCredentials.map((credential) => credential.name)).toEqual([
+      'AWS Certified Cloud Practitioner',
+    ]);
+    expect(allSteps).toContain('Earn the AWS Certified Cloud Practitioner');
+  });
+
+  it('produces different pathways for different templates', () => {
+    const medical = generateRemoteFirst(profile, byId('medical-healthcare'));
+
+    expect(medical.title).not.toBe(pathway.title);
+    expect(medical.incomeTrajectory).not.toEqual(pathway.incomeTrajectory);
+    expect(medical.requiredCredentials).not.toEqual(pathway.requiredCredentials);
+    expect(medical.whyThisPath).not.toBe(pathway.whyThisPath);
+  });
+
+  it('draws on the profile', () => {
+    const relocating = generateRemoteFirst(
+      { ...profile, willingToRelocate: true, technicalSkills: [] },
+      byId('it-communications')
+    );
+
+    expect(allSteps).toContain('Network troubleshooting');
+    expect(pathway.familyImpact.notes).toContain('Fort Hood, TX');
+    expect(relocating.familyImpact.notes).not.toContain('Fort Hood, TX');
+    expect(relocating.roadmap[1].steps.join(' ')).not.toContain('Network troubleshooting');
+  });
+
+  it('falls back to a generic remote role when the template has none', () => {
+    const generic = generateRemoteFirst(profile, { ...byId('combat-arms'), remote: undefined });
+
+    expect(generic.title).toBe(DEFAULT_REMOTE_ROLE.title);
+    expect(generic.requiredCredentials).toEqual(DEFAULT_REMOTE_ROLE.credentials);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { formatServerSentEvent, readServerSentEvents } from '../sse';
+import { AnalysisStreamEvent } from '../types';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('Server-Sent Events', () => {
+  const events: AnalysisStreamEvent[] = [
+    { type: 'summary', summary: 'Line one\nline two' },
+    { type: 'reset', reason: 'Real mode failed: timeout' },
+    { type: 'error', error: 'Failed to analyze profile' },
+  ];
+
+  it('names each message after its event type', () => {
+    expect(formatServerSentEvent(events[1])).toBe(
+      'event: reset\ndata: {"type":"reset","reason":"Real mode failed: timeout"}\n\n'
+    );
+  });
+
+  it('reads back events split across arbitrary chunks', async () => {
+    const wire = events.map(formatServerSentEvent).join('');
+    const chunks = wire.match(/[\s\S]{1,9}/g)!;
+    const received: AnalysisStreamEvent[] = [];
+
+    await readServerSentEvents(streamOf(chunks), (event) => received.push(event));
+
+    expect(received).toEqual(events);
+  });
+
+  it('reads a final event without a trailing blank line', async () => {
+    const received: AnalysisStreamEvent[] = [];
+
+    await readServerSentEvents(streamOf(['data: {"type":"summary","summary":"Hi"}']), (event) =>
+      received.push(event)
+    );
+
+    expect(received).toEqual([{ type: 'summary', summary: 'Hi' }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonStreamParser, JsonPath } from '../streamingJson';
+
+function parseInChunks(document: string, chunkSize: number, maxDepth?: number) {
+  const values: [JsonPath, unknown][] = [];
+  const parser = createJsonStreamParser((path, value) => values.push([path, value]), maxDepth);
+  for (let start = 0; start < document.length; start += chunkSize) {
+    parser.push(document.slice(start, start + chunkSize));
+  }
+  return values;
+}
+
+describe('createJsonStreamParser', () => {
+  const document = JSON.stringify({
+    summary: 'Strong "quoted" candidate, with {braces} and [brackets]\n',
+    pathways: [
+      { type: 'fast-income', steps: ['a', 'b'], years: 2 },
+      { type: 'balanced', notes: 'escaped \\ backslash' },
+    ],
+    count: 2,
+  });
+
+  it('reports the summary and each array element once complete', () => {
+    const values = parseInChunks(document, 7);
+
+    expect(values).toEqual([
+      [['summary'], 'Strong "quoted" candidate, with {braces} and [brackets]\n'],
+      [['pathways', 0], { type: 'fast-income', steps: ['a', 'b'], years: 2 }],
+      [['pathways', 1], { type: 'balanced', notes: 'escaped \\ backslash' }],
+      [
+        ['pathways'],
+        [
+          { type: 'fast-income', steps: ['a', 'b'], years: 2 },
+          { type: 'balanced', notes: 'escaped \\ backslash' },
+        ],
+      ],
+    ]);
+  });
+
+  it('gives the same values however the document is chunked', () => {
+    expect(parseInChunks(document, 1)).toEqual(parseInChunks(document, document.length));
+  });
+
+  it('reports nothing until a value is complete', () => {
+    const values = parseInChunks(document.slice(0, document.indexOf('"balanced"')), 5);
+
+    expect(values.map(([path]) => path)).toEqual([['summary'], ['pathways', 0]]);
+  });
+
+  it('reports deeper values when asked', () => {
+    const values = parseInChunks(document, 3, 3);
+
+    expect(values).toContainEqual([
+      ['pathways', 0, 'steps'],
+      ['a', 'b'],
+    ]);
+    expect(values).toContainEqual([['pathways', 1, 'type'], 'balanced']);
+  });
+});
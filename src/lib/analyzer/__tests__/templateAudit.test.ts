@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCoverageReport,
+  findIncomeDecreases,
+  lintPathwayTemplate,
+  previewTemplate,
+  SAMPLE_PROFILE,
+} from '../templateAudit';
+import { loadPathwayTemplates } from '../templateLoader';
+import { CareerPathway, PathwayTemplate } from '../types';
+import { listCrosswalkEntries } from '../../crosswalk';
+
+describe('templateAudit', () => {
+  const templates = loadPathwayTemplates();
+  const combatArms = templates.find((template) => template.id === 'combat-arms')!;
+  const clone = (): PathwayTemplate => structuredClone(combatArms);
+
+  describe('lintPathwayTemplate', () => {
+    it('passes every bundled template', () => {
+      expect(templates.flatMap(lintPathwayTemplate)).toEqual([]);
+    });
+
+    it('flags roadmap phases without steps', () => {
+      const template = clone();
+      template.balanced.roadmap[1].steps = [];
+
+      expect(lintPathwayTemplate(template)).toContainEqual(
+        expect.objectContaining({
+          severity: 'error',
+          message: expect.stringContaining('balanced.roadmap[1]'),
+        })
+      );
+    });
+
+    it('flags out-of-pocket costs above the credential price', () => {
+      const template = clone();
+      const { cost } = template.fastIncome.credentials[0];
+      cost.outOfPocket = { min: cost.max + 100, max: cost.max + 500 };
+
+      expect(lintPathwayTemplate(template)).toContainEqual(
+        expect.objectContaining({
+          severity: 'error',
+          message: expect.stringContaining('out-of-pocket cost exceeds its price'),
+        })
+      );
+    });
+
+    it('warns about priced credentials without funding sources', () => {
+      const template = clone();
+      const { cost } = template.fastIncome.credentials[0];
+      cost.max = Math.max(cost.max, 100);
+      cost.fundingSources = [];
+
+      expect(lintPathwayTemplate(template)).toContainEqual(
+        expect.objectContaining({
+          severity: 'warning',
+          message: expect.stringContaining('no funding sources'),
+        })
+      );
+    });
+
+    it('warns when max upside ends below fast income', () => {
+      const template = clone();
+      template.fastIncome.startingSalary = 200000;
+
+      expect(lintPathwayTemplate(template)).toContainEqual({
+        templateId: 'combat-arms',
+        severity: 'warning',
+        message: 'maxUpside reaches a lower year-5 salary than fastIncome',
+      });
+    });
+  });
+
+  describe('findIncomeDecreases', () => {
+    const pathway = (year1: number, year3: number, year5: number) =>
+      ({
+        type: 'balanced',
+        incomeTrajectory: {
+          year1: { min: year1, max: year1 + 10000, currency: 'USD', period: 'year' },
+          year3: { min: year3, max: year3 + 10000, currency: 'USD', period: 'year' },
+          year5: { min: year5, max: year5 + 10000, currency: 'USD', period: 'year' },
+        },
+      }) as CareerPathway;
+
+    it('accepts flat and rising trajectories', () => {
+      expect(findIncomeDecreases(pathway(50000, 50000, 70000))).toEqual([]);
+    });
+
+    it('reports each decreasing step', () => {
+      expect(findIncomeDecreases(pathway(60000, 55000, 50000))).toEqual([
+        'balanced salary decreases from year1 to year3',
+        'balanced salary decreases from year3 to year5',
+      ]);
+    });
+  });
+
+  describe('buildCoverageReport', () => {
+    it('reports every career field with its crosswalk codes', () => {
+      const report = buildCoverageReport(templates);
+      const medical = report.find((field) => field.careerField === 'medical-healthcare')!;
+
+      expect(medical.primaryTemplates).toEqual(['medical-healthcare']);
+      expect(medical.codes.map((entry) => entry.code)).toContain('68W');
+      expect(report.flatMap((field) => field.codes)).toHaveLength(listCrosswalkEntries().length);
+    });
+
+    it('lists fields without a primary template', () => {
+      const report = buildCoverageReport([combatArms]);
+
+      expect(
+        report.filter((field) => !field.primaryTemplates.length).map((field) => field.careerField)
+      ).toContain('medical-healthcare');
+    });
+  });
+
+  describe('previewTemplate', () => {
+    it('renders a schema-valid result with the template score', () => {
+      const result = previewTemplate(combatArms);
+
+      expect(result.pathways).toHaveLength(3);
+      expect(result.templateRanking).toEqual([
+        expect.objectContaining({ templateId: 'combat-arms' }),
+      ]);
+      expect(result.summary).toContain(SAMPLE_PROFILE.mos);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DEFAULT_TEMPLATES_DIR, loadPathwayTemplates } from '../templateLoader';
+
+describe('loadPathwayTemplates', () => {
+  const validTemplate = JSON.parse(
+    readFileSync(path.join(DEFAULT_TEMPLATES_DIR, 'combat-arms.json'), 'utf8')
+  );
+
+  let dir: string;
+
+  const writeTemplate = (file: string, content: unknown) =>
+    writeFileSync(
+      path.join(dir, file),
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'pathway-templates-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the bundled templates', () => {
+    const templates = loadPathwayTemplates();
+
+    expect(templates.map((template) => template.id)).toEqual([
+      'aviation-maintenance',
+      'combat-arms',
+      'it-communications',
+      'logistics-supply-chain',
+      'medical-healthcare',
+    ]);
+  });
+
+  it('normalizes string durations', () => {
+    writeTemplate('combat-arms.json', validTemplate);
+
+    const [template] = loadPathwayTemplates(dir);
+
+    expect(template.fastIncome.roadmap[0].duration).toEqual({
+      minMonths: 1.38,
+      maxMonths: 1.85,
+      openEnded: false,
+    });
+  });
+
+  it('picks up new templates without code changes', () => {
+    writeTemplate('combat-arms.json', validTemplate);
+    writeTemplate('skilled-trades.json', { ...validTemplate, id: 'skilled-trades' });
+    writeTemplate('README.md', '# ignored');
+
+    expect(loadPathwayTemplates(dir).map((template) => template.id)).toEqual([
+      'combat-arms',
+      'skilled-trades',
+    ]);
+  });
+
+  it('fails when the directory has no templates', () => {
+    expect(() => loadPathwayTemplates(dir)).toThrow('No pathway templates found');
+  });
+
+  it('fails on invalid JSON', () => {
+    writeTemplate('broken.json', '{ "id": ');
+
+    expect(() => loadPathwayTemplates(dir)).toThrow(
+      'Pathway template broken.json is not valid JSON'
+    );
+  });
+
+  it('fails on schema violations and names the field', () => {
+    writeTemplate('combat-arms.json', {
+      ...validTemplate,
+      fastIncome: { ...validTemplate.fastIncome, startingSalary: 'lots' },
+    });
+
+    expect(() => loadPathwayTemplates(dir)).toThrow(
+      /combat-arms\.json is invalid[\s\S]*startingSalary/
+    );
+  });
+
+  it('fails on unknown keys', () => {
+    writeTemplate('combat-arms.json', { ...validTemplate, skilArea: 'typo' });
+
+    expect(() => loadPathwayTemplates(dir)).toThrow(/skilArea/);
+  });
+
+  it('fails on unparseable durations', () => {
+    const roadmap = [{ ...validTemplate.balanced.roadmap[0], duration: 'a while' }];
+    writeTemplate('combat-arms.json', {
+      ...validTemplate,
+      balanced: { ...validTemplate.balanced, roadmap },
+    });
+
+    expect(() => loadPathwayTemplates(dir)).toThrow(/balanced\.roadmap\[0\]\.duration/);
+  });
+
+  it('fails when the id does not match the file name', () => {
+    writeTemplate('trades.json', validTemplate);
+
+    expect(() => loadPathwayTemplates(dir)).toThrow('has id "combat-arms"; expected "trades"');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rankTemplates,
+  scoreTemplate,
+  SCORE_CAPS,
+  SCORE_WEIGHTS,
+  ScoredTemplate,
+} from '../templateScoring';
+
+describe('Template Scoring', () => {
+  const baseProfile = {
+    branch: 'Army',
+    yearsOfService: 6,
+    rank: 'E-5',
+    mos: '99Z',
+    technicalSkills: [],
+    certifications: [],
+    leadershipExperience: 'Team leader',
+    familyStatus: 'Single',
+    dependents: 0,
+    spouseEmployment: 'N/A',
+    currentLocation: 'Fort Hood, TX',
+    willingToRelocate: false,
+    preferredLocations: [],
+    careerGoals: 'Find a stable job',
+    incomeExpectations: '$50,000+',
+    educationInterest: 'Certifications',
+    timeline: '6 months',
+  };
+
+  const templates: ScoredTemplate[] = [
+    {
+      id: 'tech',
+      signals: {
+        careerFields: ['it-communications', 'intelligence'],
+        codePrefixes: ['25'],
+        skills: ['network', 'linux', 'cyber', 'python'],
+        certifications: ['security+', 'network+', 'ccna'],
+        careerGoals: ['it', 'cyber', 'software', 'cloud'],
+      },
+    },
+    {
+      id: 'medical',
+      signals: {
+        careerFields: ['medical-healthcare'],
+        codePrefixes: ['68'],
+        skills: ['patient care', 'trauma'],
+        certifications: ['emt'],
+        careerGoals: ['nursing', 'healthcare'],
+      },
+    },
+  ];
+
+  it('scores the crosswalk career field as the primary code family', () => {
+    const score = scoreTemplate({ ...baseProfile, mos: '25B' }, templates[0]);
+
+    expect(score.breakdown.codeFamily).toBe(SCORE_WEIGHTS.primaryCareerField);
+    expect(score.reasons).toContain('25B career field: it-communications');
+  });
+
+  it('gives partial credit for a secondary career field', () => {
+    const score = scoreTemplate({ ...baseProfile, mos: '35F' }, templates[0]);
+
+    expect(score.breakdown.codeFamily).toBe(SCORE_WEIGHTS.secondaryCareerField);
+  });
+
+  it('falls back to code prefixes for codes missing from the crosswalk', () => {
+    const score = scoreTemplate({ ...baseProfile, mos: '25Q' }, templates[0]);
+
+    expect(score.breakdown.codeFamily).toBe(SCORE_WEIGHTS.codePrefix);
+    expect(score.reasons).toContain('25Q code family: 25');
+  });
+
+  it('matches skill, certification and goal keywords as whole terms', () => {
+    const score = scoreTemplate(
+      {
+        ...baseProfile,
+        technicalSkills: ['Network troubleshooting', 'Linux'],
+        certifications: ['CompTIA Security+'],
+        careerGoals: 'Work in IT with a focus on cloud',
+      },
+      templates[0]
+    );
+
+    expect(score.breakdown).toEqual({
+      codeFamily: 0,
+      skills: 2 * SCORE_WEIGHTS.skill,
+      certifications: SCORE_WEIGHTS.certification,
+      careerGoals: 2 * SCORE_WEIGHTS.careerGoal,
+    });
+    expect(score.score).toBe(46);
+    expect(score.reasons).toEqual([
+      'skill: network',
+      'skill: linux',
+      'certification: security+',
+      'goal: it',
+      'goal: cloud',
+    ]);
+  });
+
+  it('does not match keywords inside other words', () => {
+    const score = scoreTemplate(
+      { ...baseProfile, careerGoals: 'Something with flexibility' },
+      templates[0]
+    );
+
+    expect(score.breakdown.careerGoals).toBe(0);
+  });
+
+  it('caps each keyword category', () => {
+    const score = scoreTemplate(
+      {
+        ...baseProfile,
+        technicalSkills: ['network', 'linux', 'cyber', 'python'],
+        certifications: ['Security+', 'Network+', 'CCNA'],
+      },
+      templates[0]
+    );
+
+    expect(score.breakdown.skills).toBe(SCORE_CAPS.skills);
+    expect(score.breakdown.certifications).toBe(SCORE_CAPS.certifications);
+  });
+
+  it('ranks the best-scoring template first and includes every template', () => {
+    const ranking = rankTemplates(
+      { ...baseProfile, mos: '68W', certifications: ['EMT-B'] },
+      templates
+    );
+
+    expect(ranking.map((score) => score.templateId)).toEqual(['medical', 'tech']);
+    expect(ranking[0].score).toBeGreaterThan(ranking[1].score);
+  });
+
+  it('is deterministic, including tie-breaks between unmatched templates', () => {
+    const first = rankTemplates(baseProfile, templates);
+    const second = rankTemplates(baseProfile, templates);
+
+    expect(first.every((score) => score.score === 0)).toBe(true);
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { logger } from '../logger';
+
+/**
+ * Analyzer Configuration
+ *
+ * Reads analyzer settings from environment variables and validates them with Zod;
+ * invalid values fall back to the defaults below. Values are read on every call so tests and serverless cold starts always see
+ * the current environment.
+ *
+ * **Environment Variables**:
+ * - `ANALYSIS_PROVIDERS`: Comma-separated, ordered provider fallback chain
+ *   (default: `real,demo`)
+ * - `ANALYSIS_TIMEOUT_MS`: Time limit for each model request (default: scaled
+ *   with the token budget, see modelRequestTimeout); a provider attempt gets this
+ *   times the provider's `maxRequests`
+ * - `ANALYSIS_MAX_RETRIES`: Retries per provider for retryable failures such as
+ *   rate limits, overload and timeouts (default: 2, at most 5)
+ * - `ANALYSIS_RETRY_BASE_MS`: First retry delay, doubled on each further retry
+ *   up to 30 seconds (default: 1000)
+ * - `ANALYSIS_MODELS`: Comma-separated Anthropic model ids for Real Mode, the
+ *   primary first, then fallbacks tried when it is unavailable
+ *   (default: `claude-opus-4-5-20251101`)
+ * - `ANALYSIS_MAX_TOKENS`: Output token budget for Real Mode (default: 16000)
+ * - `ANALYSIS_PROMPT_VERSION`: Version of the Real Mode prompt template in
+ *   `content/prompts/` (default: `v2`)
+ */
+
+const DEFAULT_PROVIDER_CHAIN = ['real', 'demo'];
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 1000;
+const DEFAULT_MODELS = ['claude-opus-4-5-20251101'];
+const DEFAULT_MAX_TOKENS = 16_000;
+const DEFAULT_PROMPT_VERSION = 'v2';
+
+/**
+ * Shortest default time limit for one model request
+ */
+const MIN_REQUEST_TIMEOUT_MS = 120_000;
+
+/**
+ * Worst-case time to generate one output token: the Anthropic SDK's own
+ * estimate (an hour for 128k tokens), which it uses to decide when a request
+ * may run too long without streaming
+ */
+const MS_PER_OUTPUT_TOKEN = (60 * 60 * 1000) / 128_000;
+
+/**
+ * Longest wait between retries, whatever the backoff or Retry-After header asks for
+ */
+export const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * An Anthropic model id, e.g. `claude-opus-4-5-20251101`
+ */
+export const ModelIdSchema = z
+  .string()
+  .max(100)
+  .regex(/^[a-z0-9][\w.@:-]*$/i, 'Invalid model id');
+
+/**
+ * Output token budget for one Real Mode request
+ */
+export const MaxTokensSchema = z.number().int().min(1024).max(64_000);
+
+const commaListSchema = (normalize: (item: string) => string = (item) => item) =>
+  z.string().transform((value) =>
+    value
+      .split(',')
+      .map((item) => normalize(item.trim()))
+      .filter((item) => item.length > 0)
+  );
+
+const providerChainSchema = commaListSchema((name) => name.toLowerCase()).pipe(
+  z.array(z.string()).min(1, 'ANALYSIS_PROVIDERS must name at least one provider')
+);
+
+const modelsSchema = commaListSchema().pipe(
+  z.array(ModelIdSchema).min(1, 'ANALYSIS_MODELS must name at least one model')
+);
+
+const settingSchemas = {
+  providerChain: providerChainSchema,
+  timeoutMs: z.coerce.number().int().positive().optional(),
+  maxRetries: z.coerce.number().int().min(0).max(5),
+  retryBaseMs: z.coerce.number().int().min(0).max(MAX_RETRY_DELAY_MS),
+  models: modelsSchema,
+  maxTokens: z.coerce.number().pipe(MaxTokensSchema),
+  promptVersion: z.string().regex(/^v\d+$/, 'ANALYSIS_PROMPT_VERSION must look like v1'),
+};
+
+export type AnalyzerConfig = {
+  [K in keyof typeof settingSchemas]: z.output<(typeof settingSchemas)[K]>;
+};
+
+const SETTINGS: { [K in keyof AnalyzerConfig]: [variable: string, fallback: AnalyzerConfig[K]] } = {
+  providerChain: ['ANALYSIS_PROVIDERS', DEFAULT_PROVIDER_CHAIN],
+  timeoutMs: ['ANALYSIS_TIMEOUT_MS', undefined],
+  maxRetries: ['ANALYSIS_MAX_RETRIES', DEFAULT_MAX_RETRIES],
+  retryBaseMs: ['ANALYSIS_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS],
+  models: ['ANALYSIS_MODELS', DEFAULT_MODELS],
+  maxTokens: ['ANALYSIS_MAX_TOKENS', DEFAULT_MAX_TOKENS],
+  promptVersion: ['ANALYSIS_PROMPT_VERSION', DEFAULT_PROMPT_VERSION],
+};
+
+// Invalid values already logged, so each is reported once rather than on every request
+const reportedInvalidSettings = new Set<string>();
+
+function readSetting<K extends keyof AnalyzerConfig>(key: K): AnalyzerConfig[K] {
+  const [variable, fallback] = SETTINGS[key];
+  const raw = process.env[variable];
+  if (!raw) return fallback;
+
+  const parsed = settingSchemas[key].safeParse(raw);
+  if (parsed.success) return parsed.data as AnalyzerConfig[K];
+
+  if (!reportedInvalidSettings.has(`${variable}=${raw}`)) {
+    reportedInvalidSettings.add(`${variable}=${raw}`);
+    logger.error('Invalid analyzer setting, using the default', {
+      variable,
+      issues: parsed.error.issues.map((issue) => issue.message),
+      default: fallback,
+    });
+  }
+  return fallback;
+}
+
+/**
+ * Get the current analyzer configuration
+ *
+ * A setting with an invalid value falls back to its default and is logged as
+ * an error, so a bad deployment setting never fails requests or turns off Demo
+ * Mode.
+ */
+export function getAnalyzerConfig(): AnalyzerConfig {
+  return {
+    providerChain: readSetting('providerChain'),
+    timeoutMs: readSetting('timeoutMs'),
+    maxRetries: readSetting('maxRetries'),
+    retryBaseMs: readSetting('retryBaseMs'),
+    models: readSetting('models'),
+    maxTokens: readSetting('maxTokens'),
+    promptVersion: readSetting('promptVersion'),
+  };
+}
+
+/**
+ * Time limit for one model request with the given output token budget
+ *
+ * `ANALYSIS_TIMEOUT_MS` when set; otherwise long enough to generate the whole
+ * budget without streaming (16000 tokens: 7.5 minutes), and at least 2 minutes.
+ */
+export function modelRequestTimeout(
+  maxTokens: number,
+  timeoutMs: number | undefined = getAnalyzerConfig().timeoutMs
+): number {
+  return timeoutMs ?? Math.max(MIN_REQUEST_TIMEOUT_MS, Math.ceil(maxTokens * MS_PER_OUTPUT_TOKEN));
+}
@@ -0,0 +1,146 @@
+import type { CareerPathway, CredentialCost } from './types';
+
+/**
+ * Credential Cost Helpers
+ *
+ * Credential costs are stored as a numeric sticker-price range, the funding
+ * sources that can cover it, and the resulting out-of-pocket range. These
+ * helpers build, parse (legacy strings), total and format them. Safe to import
+ * from client components.
+ */
+
+export const FUNDING_SOURCES = [
+  'post-911-gi-bill',
+  'cool',
+  'vr-e',
+  'employer-paid',
+  'out-of-pocket',
+] as const;
+
+export type FundingSource = (typeof FUNDING_SOURCES)[number];
+
+export const FUNDING_SOURCE_LABELS: Record<FundingSource, string> = {
+  'post-911-gi-bill': 'Post-9/11 GI Bill',
+  cool: 'Army/Navy COOL',
+  'vr-e': 'VR&E',
+  'employer-paid': 'Employer-paid',
+  'out-of-pocket': 'Out-of-pocket',
+};
+
+/**
+ * Build a USD credential cost
+ *
+ * The out-of-pocket range defaults to zero when any funding source other than
+ * `out-of-pocket` is listed, and to the full price otherwise.
+ */
+export function credentialCost(
+  min: number,
+  max: number = min,
+  fundingSources: FundingSource[] = ['out-of-pocket'],
+  outOfPocket?: { min: number; max: number }
+): CredentialCost {
+  const covered = fundingSources.some((source) => source !== 'out-of-pocket');
+
+  return {
+    min,
+    max,
+    currency: 'USD',
+    fundingSources,
+    outOfPocket: outOfPocket ?? (covered ? { min: 0, max: 0 } : { min, max }),
+  };
+}
+
+const SOURCE_PATTERNS: [FundingSource, RegExp][] = [
+  ['post-911-gi-bill', /gi bill|va[- ]approved/],
+  ['cool', /\bcool\b/],
+  ['vr-e', /vr&e|vocational rehab|voc rehab/],
+  ['employer-paid', /employer|department|company[- ]paid/],
+];
+
+/**
+ * Parse a legacy cost string such as "$0 (GI Bill)", "$5,000 - $15,000 (post-GI Bill)"
+ * or "Often paid by department"
+ *
+ * Amounts in a string that also names a funding source are read as the
+ * remaining out-of-pocket cost, since that is how the legacy strings used them.
+ *
+ * @returns The structured cost, or null if the string has no amount or funding source
+ */
+export function parseCostString(value: string): CredentialCost | null {
+  const lower = value.toLowerCase();
+  // When dollar signs are present, only read amounts that follow one (or a dollar range
+  // dash), so names like "Post-9/11 GI Bill" are not mistaken for amounts
+  const pattern = value.includes('$')
+    ? /(?:\$\s*|(?<=\$\s*[\d,.]+\s*[-–]\s*))(\d[\d,]*(?:\.\d+)?)/g
+    : /(\d[\d,]*(?:\.\d+)?)/g;
+  const amounts = Array.from(value.matchAll(pattern))
+    .map(([, digits]) => Number.parseFloat(digits.replace(/,/g, '')))
+    .filter((amount) => !Number.isNaN(amount));
+
+  const sources = SOURCE_PATTERNS.filter(([, sourcePattern]) => sourcePattern.test(lower)).map(
+    ([source]) => source
+  );
+
+  if (!amounts.length) {
+    if (/\bfree\b|no cost/.test(lower)) return credentialCost(0, 0, []);
+    return sources.length ? credentialCost(0, 0, sources) : null;
+  }
+
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+
+  if (!sources.length) {
+    return credentialCost(min, max, max > 0 ? ['out-of-pocket'] : []);
+  }
+
+  return credentialCost(min, max, max > 0 ? [...sources, 'out-of-pocket'] : sources, {
+    min,
+    max,
+  });
+}
+
+/**
+ * Zod preprocess step: upgrade legacy string costs, pass everything else through
+ */
+export function upgradeLegacyCost(value: unknown): unknown {
+  if (typeof value === 'number') return credentialCost(value);
+  if (typeof value !== 'string') return value;
+  return parseCostString(value) ?? value;
+}
+
+/**
+ * Total out-of-pocket cost of a pathway's required credentials
+ */
+export function sumOutOfPocket(credentials: CareerPathway['requiredCredentials']): {
+  min: number;
+  max: number;
+} {
+  return credentials.reduce(
+    (acc, { cost }) => ({
+      min: acc.min + cost.outOfPocket.min,
+      max: acc.max + cost.outOfPocket.max,
+    }),
+    { min: 0, max: 0 }
+  );
+}
+
+const formatAmount = (value: number, currency: string) =>
+  currency === 'USD'
+    ? `$${Math.round(value).toLocaleString('en-US')}`
+    : `${Math.round(value).toLocaleString('en-US')} ${currency}`;
+
+/**
+ * Format a cost range for display, e.g. "$250", "$1,000 - $2,000" or "Free"
+ */
+export function formatCostRange(min: number, max: number, currency = 'USD'): string {
+  if (max === 0) return 'Free';
+  if (min === max) return formatAmount(min, currency);
+  return `${formatAmount(min, currency)} - ${formatAmount(max, currency)}`;
+}
+
+/**
+ * Format the funding sources of a cost for display, e.g. "Post-9/11 GI Bill, VR&E"
+ */
+export function formatFundingSources(cost: CredentialCost): string {
+  return cost.fundingSources.map((source) => FUNDING_SOURCE_LABELS[source]).join(', ');
+}
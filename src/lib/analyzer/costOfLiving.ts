@@ -0,0 +1,71 @@
+import type { CareerPathway } from './types';
+import type { PathwayType } from './pathwayTypes';
+import { adjustForCostOfLiving, MetroMarket, priceForMarket } from '../costOfLiving';
+
+/**
+ * Cost-of-Living Adjustment
+ *
+ * Prices pathway incomes for the veteran's market and attaches the same
+ * incomes in U.S.-average dollars, so the results can show both what a job
+ * pays and what that pay buys.
+ */
+
+/**
+ * Pathway types whose pay does not follow local wages: federal-service is
+ * priced from GS locality pay, remote-first roles pay national rates
+ */
+export const NON_LOCAL_PAY_TYPES: PathwayType[] = ['federal-service', 'remote-first'];
+
+type IncomeTrajectory = CareerPathway['incomeTrajectory'];
+
+const roundToThousand = (value: number) => Math.round(value / 1000) * 1000;
+
+/**
+ * Convert every figure of an income trajectory, rounding annual pay to the
+ * nearest thousand
+ */
+export function mapTrajectory(
+  trajectory: IncomeTrajectory,
+  convert: (amount: number) => number
+): IncomeTrajectory {
+  const convertRange = (range: IncomeTrajectory['year1']) => {
+    const round = range.period === 'year' ? roundToThousand : Math.round;
+    return { ...range, min: round(convert(range.min)), max: round(convert(range.max)) };
+  };
+
+  return {
+    year1: convertRange(trajectory.year1),
+    year3: convertRange(trajectory.year3),
+    year5: convertRange(trajectory.year5),
+  };
+}
+
+/**
+ * Attach cost-of-living-adjusted incomes to a pathway
+ *
+ * @param options.scaleWages - Also price national salaries for the market
+ *   (demo templates); leave off for incomes that are already local (Real Mode)
+ */
+export function localizePathway(
+  pathway: CareerPathway,
+  market: MetroMarket,
+  { scaleWages = false }: { scaleWages?: boolean } = {}
+): CareerPathway {
+  const incomeTrajectory =
+    scaleWages && !NON_LOCAL_PAY_TYPES.includes(pathway.type)
+      ? mapTrajectory(pathway.incomeTrajectory, (amount) => priceForMarket(amount, market))
+      : pathway.incomeTrajectory;
+
+  return {
+    ...pathway,
+    incomeTrajectory,
+    costOfLiving: {
+      market: market.name,
+      costIndex: market.costIndex,
+      wageIndex: market.wageIndex,
+      adjustedTrajectory: mapTrajectory(incomeTrajectory, (amount) =>
+        adjustForCostOfLiving(amount, market)
+      ),
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import type { Duration } from './types';
+
+/**
+ * Duration Helpers
+ *
+ * Roadmap phase durations and credential timelines are stored as normalized
+ * month ranges. These helpers build, parse (legacy strings), combine and format
+ * them. Safe to import from client components.
+ */
+
+const WEEKS_PER_MONTH = 52 / 12;
+const DAYS_PER_MONTH = 365 / 12;
+
+const roundMonths = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build a duration from a month range
+ */
+export function durationMonths(min: number, max: number = min, openEnded = false): Duration {
+  return { minMonths: roundMonths(min), maxMonths: roundMonths(max), openEnded };
+}
+
+/**
+ * Build a duration from a week range
+ */
+export function durationWeeks(min: number, max: number = min): Duration {
+  return durationMonths(min / WEEKS_PER_MONTH, max / WEEKS_PER_MONTH);
+}
+
+/**
+ * Build a duration from a day range
+ */
+export function durationDays(min: number, max: number = min): Duration {
+  return durationMonths(min / DAYS_PER_MONTH, max / DAYS_PER_MONTH);
+}
+
+/**
+ * Build a duration from a year range
+ */
+export function durationYears(min: number, max: number = min, openEnded = false): Duration {
+  return durationMonths(min * 12, max * 12, openEnded);
+}
+
+/**
+ * An open-ended duration with no fixed length ("Ongoing", "Career")
+ */
+export function ongoing(): Duration {
+  return durationMonths(0, 0, true);
+}
+
+const UNIT_TO_MONTHS: Record<string, number> = {
+  day: 1 / DAYS_PER_MONTH,
+  week: 1 / WEEKS_PER_MONTH,
+  month: 1,
+  year: 12,
+};
+
+/**
+ * Parse a legacy duration string such as "6-8 weeks", "2+ years" or "Ongoing"
+ *
+ * Only amounts with an explicit time unit are read, so strings like
+ * "After 1,500 flight hours" are not mistaken for durations.
+ *
+ * @returns The normalized duration, or null if the string has no duration
+ */
+export function parseDurationString(value: string): Duration | null {
+  const lower = value.toLowerCase();
+
+  const match = lower.match(
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(\+)?\s*(day|week|month|year)s?\b/
+  );
+
+  if (!match) {
+    return /ongoing|career|indefinite|continuous/.test(lower) ? ongoing() : null;
+  }
+
+  const [, minValue, maxValue, plus, unit] = match;
+  const multiplier = UNIT_TO_MONTHS[unit];
+  const min = Number.parseFloat(minValue) * multiplier;
+  const max = (maxValue ? Number.parseFloat(maxValue) : Number.parseFloat(minValue)) * multiplier;
+
+  return durationMonths(Math.min(min, max), Math.max(min, max), Boolean(plus));
+}
+
+/**
+ * Zod preprocess step: upgrade legacy string durations, pass everything else through
+ */
+export function upgradeLegacyDuration(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return parseDurationString(value) ?? value;
+}
+
+/**
+ * Total duration of consecutive phases
+ */
+export function sumDurations(durations: Duration[]): Duration | null {
+  if (!durations.length) return null;
+
+  return durations.reduce((acc, duration) =>
+    durationMonths(
+      acc.minMonths + duration.minMonths,
+      acc.maxMonths + duration.maxMonths,
+      acc.openEnded || duration.openEnded
+    )
+  );
+}
+
+/**
+ * Overall span of parallel items (shortest minimum to longest maximum)
+ */
+export function spanDurations(durations: Duration[]): Duration | null {
+  if (!durations.length) return null;
+
+  return durations.reduce((acc, duration) =>
+    durationMonths(
+      Math.min(acc.minMonths, duration.minMonths),
+      Math.max(acc.maxMonths, duration.maxMonths),
+      acc.openEnded || duration.openEnded
+    )
+  );
+}
+
+const formatNumber = (value: number) => `${Math.round(value * 10) / 10}`;
+
+const formatRange = (min: number, max: number, singular: string, plural: string) => {
+  const minLabel = formatNumber(min);
+  const maxLabel = formatNumber(max);
+  if (minLabel === maxLabel) {
+    return `${minLabel} ${minLabel === '1' ? singular : plural}`;
+  }
+  return `${minLabel}–${maxLabel} ${plural}`;
+};
+
+/**
+ * Format a duration for display, e.g. "6–8 weeks", "18–24 months", "2+ years", "Ongoing"
+ */
+export function formatDuration(duration: Duration): string {
+  const { minMonths, maxMonths, openEnded } = duration;
+
+  if (openEnded && maxMonths === 0) {
+    return 'Ongoing';
+  }
+
+  let label: string;
+  if (maxMonths < 0.25) {
+    label = formatRange(
+      Math.max(1, Math.round(minMonths * DAYS_PER_MONTH)),
+      Math.max(1, Math.round(maxMonths * DAYS_PER_MONTH)),
+      'day',
+      'days'
+    );
+  } else if (maxMonths < 2) {
+    label = formatRange(
+      Math.max(1, Math.round(minMonths * WEEKS_PER_MONTH)),
+      Math.max(1, Math.round(maxMonths * WEEKS_PER_MONTH)),
+      'week',
+      'weeks'
+    );
+  } else if (maxMonths >= 12 && minMonths % 12 === 0 && maxMonths % 12 === 0) {
+    label = formatRange(minMonths / 12, maxMonths / 12, 'year', 'years');
+  } else if (maxMonths > 36) {
+    label = formatRange(minMonths / 12, maxMonths / 12, 'year', 'years');
+  } else {
+    label = formatRange(minMonths, maxMonths, 'month', 'months');
+  }
+
+  return openEnded ? label.replace(/ (\w+)$/, '+ $1') : label;
+}
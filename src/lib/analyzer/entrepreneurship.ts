@@ -0,0 +1,170 @@
+import type { BusinessIdea, CareerPathway, PathwayTemplate, VeteranProfile } from './types';
+import { annualIncome } from './income';
+import { credentialCost, formatCostRange } from './cost';
+import { durationMonths, durationWeeks, ongoing } from './duration';
+
+/**
+ * Entrepreneurship Pathway
+ *
+ * Demo generator for the `entrepreneurship` pathway type. The roadmap follows the
+ * SBA's veteran programs: Boots to Business during TAP, a Veterans Business
+ * Outreach Center (VBOC) for planning, startup capital planning, and VOSB/SDVOSB
+ * certification through SBA VetCert. Owner income is modeled as a wide range
+ * because early revenue is uncertain.
+ */
+
+/**
+ * Business used when a template does not suggest one
+ */
+export const DEFAULT_BUSINESS_IDEA: BusinessIdea = {
+  title: 'Veteran-Owned Small Business',
+  description: 'A service business built on the skills and network you developed in uniform.',
+  startupCost: { min: 5000, max: 25000 },
+};
+
+/**
+ * Share of an established salary an owner can expect to pay themselves,
+ * from a slow start (low) to a strong business (high)
+ */
+const OWNER_INCOME_MULTIPLIERS = {
+  year1: { low: 0.2, high: 1.2 },
+  year3: { low: 0.5, high: 2 },
+  year5: { low: 0.7, high: 3 },
+};
+
+const roundToThousand = (value: number) => Math.round(value / 1000) * 1000;
+
+/**
+ * Model owner income as a wide range around a comparable salary
+ */
+export function entrepreneurshipIncome(
+  comparableSalary: number
+): CareerPathway['incomeTrajectory'] {
+  const range = ({ low, high }: { low: number; high: number }) =>
+    annualIncome(roundToThousand(comparableSalary * low), roundToThousand(comparableSalary * high));
+
+  return {
+    year1: range(OWNER_INCOME_MULTIPLIERS.year1),
+    year3: range(OWNER_INCOME_MULTIPLIERS.year3),
+    year5: range(OWNER_INCOME_MULTIPLIERS.year5),
+  };
+}
+
+/**
+ * Describe how income volatility affects this family
+ */
+function describeVolatility(profile: VeteranProfile): string {
+  const notes = [
+    'Expect 6-12 months of little or no owner pay while revenue ramps up, and uneven months after that.',
+  ];
+
+  if (profile.dependents > 0) {
+    notes.push(
+      `With ${profile.dependents} ${profile.dependents === 1 ? 'dependent' : 'dependents'}, keep 6-12 months of household expenses in savings, separate from business funds.`
+    );
+  }
+
+  if (/full[- ]?time/i.test(profile.spouseEmployment)) {
+    notes.push("Your spouse's full-time income can anchor the household budget during launch.");
+  } else {
+    notes.push('Consider part-time or contract work until the business covers household bills.');
+  }
+
+  if (profile.yearsOfService >= 20) {
+    notes.push('Military retired pay and TRICARE give you a stable base while the business grows.');
+  }
+
+  return notes.join(' ');
+}
+
+/**
+ * Generate the entrepreneurship pathway for a template
+ */
+export function generateEntrepreneurship(
+  profile: VeteranProfile,
+  template: PathwayTemplate
+): CareerPathway {
+  const business = template.business ?? DEFAULT_BUSINESS_IDEA;
+  const { startupCost } = business;
+
+  return {
+    type: 'entrepreneurship',
+    title: `${business.title} Owner`,
+    description: `${business.description} Launch it with SBA veteran programs, from Boots to Business to SDVOSB/VOSB certification.`,
+    incomeTrajectory: entrepreneurshipIncome(template.fastIncome.startingSalary),
+    roadmap: [
+      {
+        phase: 'Boots to Business',
+        duration: durationMonths(1, 2),
+        steps: [
+          'Take the two-day Boots to Business course during TAP (or Boots to Business Reboot after separation)',
+          'Complete the follow-on online Revenue Readiness course',
+          `Write down the customer problem your ${business.title.toLowerCase()} solves`,
+        ],
+      },
+      {
+        phase: 'Business Planning with a VBOC',
+        duration: durationMonths(2, 4),
+        steps: [
+          'Meet your nearest Veterans Business Outreach Center (VBOC) for free advising',
+          'Interview 20 or more potential customers before spending money',
+          'Draft a business plan and a 12-month cash-flow forecast',
+          'Get a free SCORE mentor for ongoing advice',
+        ],
+      },
+      {
+        phase: 'Startup Capital Planning',
+        duration: durationMonths(2, 3),
+        steps: [
+          `Budget ${formatCostRange(startupCost.min, startupCost.max)} in startup costs`,
+          'Compare personal savings, SBA microloans and SBA 7(a) loans',
+          'Keep 6-12 months of household expenses separate from business funds',
+          'Ask about the VR&E self-employment track if you have a service-connected disability rating',
+        ],
+      },
+      {
+        phase: 'Launch and Certification',
+        duration: durationMonths(3, 6),
+        steps: [
+          'Form an LLC, get an EIN and any required state licenses',
+          'Apply for VOSB certification (SDVOSB with a VA disability rating) through SBA VetCert',
+          'Register in SAM.gov to compete for federal veteran set-aside contracts',
+          'Win your first paying customers',
+        ],
+      },
+      {
+        phase: 'Grow the Business',
+        duration: ongoing(),
+        steps: [
+          'Work with an APEX Accelerator on government contracting',
+          'Hire your first employee or subcontractor',
+          'Review pricing and reinvest profits every quarter',
+        ],
+      },
+    ],
+    requiredCredentials: [
+      {
+        name: 'Boots to Business Certificate',
+        timeline: durationWeeks(1, 8),
+        cost: credentialCost(0),
+      },
+      {
+        name: 'VOSB / SDVOSB Certification (SBA VetCert)',
+        timeline: durationMonths(1, 3),
+        cost: credentialCost(0),
+      },
+      {
+        name: 'Business Formation & Licenses (LLC, EIN, state licenses)',
+        timeline: durationMonths(1),
+        cost: credentialCost(100, 1500),
+      },
+    ],
+    familyImpact: {
+      timeCommitment: 'Very High (55-70 hrs/week during launch)',
+      flexibility: 'High control over your schedule, but the business comes first early on',
+      stability: 'Low at first - income varies month to month',
+      notes: describeVolatility(profile),
+    },
+    whyThisPath: `Leading missions has prepared you to own outcomes and make decisions with incomplete information. Your ${template.skillArea} background gives a ${business.title.toLowerCase()} immediate credibility. VOSB/SDVOSB certification opens federal set-aside contracts that favor veteran-owned businesses.`,
+  };
+}
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { MAX_RETRY_DELAY_MS } from './config';
+
+/**
+ * Analysis Errors
+ *
+ * Provider failures are classified so `analyzeProfile` can decide what to do
+ * next: retry the same provider after a backoff (rate limits, overload,
+ * timeouts), or move on to the next provider in the fallback chain. Invalid
+ * output is not retried: Real Mode has already asked for repairs and filled
+ * what it could not repair, so another attempt would only repeat that. The
+ * kind is logged and reported in result metadata.
+ */
+
+export const ANALYSIS_ERROR_KINDS = [
+  'auth',
+  'rate-limited',
+  'overloaded',
+  'timeout',
+  'invalid-output',
+  'unknown',
+] as const;
+
+export type AnalysisErrorKind = (typeof ANALYSIS_ERROR_KINDS)[number];
+
+/** Kinds worth retrying with the same provider */
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ['rate-limited', 'overloaded', 'timeout'];
+
+/**
+ * A classified provider failure
+ */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  /** Server-requested wait before retrying (from a Retry-After header) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: AnalysisErrorKind,
+    message: string,
+    options: { cause?: unknown; retryAfterMs?: number } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Fields of Anthropic SDK API errors, read without importing the SDK so this
+ * module stays safe for client components
+ */
+interface ApiErrorLike {
+  name?: string;
+  status?: number;
+  headers?: { get(name: string): string | null };
+}
+
+function retryAfter(error: ApiErrorLike): number | undefined {
+  const seconds = Number(error.headers?.get?.('retry-after'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Classify any provider failure as an AnalysisError
+ *
+ * AnalysisErrors pass through unchanged; Anthropic API errors are read by HTTP
+ * status, and schema validation errors count as invalid output.
+ */
+export function classifyError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const { name, status } = (
+    typeof error === 'object' && error !== null ? error : {}
+  ) as ApiErrorLike;
+  const classified = (kind: AnalysisErrorKind, retryAfterMs?: number) =>
+    new AnalysisError(kind, message, { cause: error, retryAfterMs });
+
+  if (status === 401 || status === 403) return classified('auth');
+  if (status === 429) return classified('rate-limited', retryAfter(error as ApiErrorLike));
+  if (status !== undefined && status >= 500) return classified('overloaded');
+  if (name === 'TimeoutError') return classified('timeout');
+  if (error instanceof z.ZodError) return classified('invalid-output');
+
+  return classified('unknown');
+}
+
+/**
+ * Run a task with a time limit, aborting its signal and rejecting with a
+ * timeout error once `timeoutMs` has passed (even if the task ignores the
+ * signal)
+ *
+ * @param parent - Aborting it aborts the task as well
+ */
+export async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abortWithParent = () => controller.abort(parent?.reason);
+  if (parent?.aborted) abortWithParent();
+  parent?.addEventListener('abort', abortWithParent, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AnalysisError('timeout', `Timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', abortWithParent);
+  }
+}
+
+/**
+ * Delay before retry number `attempt + 1`: exponential backoff from `baseMs`,
+ * or longer if the server asked for it, capped at MAX_RETRY_DELAY_MS
+ */
+export function retryDelay(error: AnalysisError, attempt: number, baseMs: number): number {
+  return Math.min(Math.max(baseMs * 2 ** attempt, error.retryAfterMs ?? 0), MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,186 @@
+import type { CareerPathway, PathwayTemplate, VeteranProfile } from './types';
+import { annualIncome } from './income';
+import { durationMonths } from './duration';
+import { CareerField, lookupMilitaryCode } from '../crosswalk';
+import {
+  estimateFederalGrades,
+  estimateVeteransPreference,
+  FederalGradeEstimate,
+  gsSalary,
+  lookupLocality,
+  normalizePayGrade,
+  PayGrade,
+  VeteransPreference,
+} from '../federal';
+
+/**
+ * Federal Service Pathway
+ *
+ * Demo generator for the `federal-service` pathway type. The starting grade is
+ * estimated from the veteran's pay grade, income comes from the bundled GS pay
+ * table with locality pay for where the veteran will work, and the roadmap is built
+ * around the veteran's preference category and hiring authorities.
+ */
+
+/**
+ * Career fields whose federal equivalents are mostly Wage Grade trades
+ */
+const TRADE_CAREER_FIELDS: CareerField[] = [
+  'aviation-maintenance',
+  'engineering-construction',
+  'mechanical-maintenance',
+];
+
+/**
+ * Pay grade assumed from years of service when the rank is not recognized
+ */
+function payGradeFromService(yearsOfService: number): PayGrade {
+  if (yearsOfService < 4) return 'E-4';
+  if (yearsOfService < 8) return 'E-5';
+  if (yearsOfService < 12) return 'E-6';
+  if (yearsOfService < 16) return 'E-7';
+  return 'E-8';
+}
+
+/**
+ * Federal grade, preference and locality estimates for a profile
+ *
+ * @param location - Where the veteran will work (defaults to their current location)
+ */
+export function estimateFederalProfile(
+  profile: VeteranProfile,
+  location: string = profile.currentLocation
+): {
+  grades: FederalGradeEstimate;
+  preference: VeteransPreference;
+  locality: ReturnType<typeof lookupLocality>;
+} {
+  const payGrade =
+    normalizePayGrade(profile.rank, profile.branch) ?? payGradeFromService(profile.yearsOfService);
+
+  return {
+    grades: estimateFederalGrades(payGrade),
+    preference: estimateVeteransPreference({
+      payGrade,
+      yearsOfService: profile.yearsOfService,
+      disabilityRating: profile.disabilityRating,
+    }),
+    locality: lookupLocality(location),
+  };
+}
+
+/**
+ * GS income for a grade range, assuming a hire at step 1 and one grade
+ * promotion every two years
+ */
+export function federalIncome(
+  grades: FederalGradeEstimate['gs'],
+  locality: { percent: number }
+): CareerPathway['incomeTrajectory'] {
+  const range = (promotions: number, step: number) =>
+    annualIncome(
+      gsSalary(grades.min + promotions, step, locality),
+      gsSalary(grades.max + promotions, step, locality)
+    );
+
+  return {
+    year1: range(0, 1),
+    year3: range(1, 2),
+    year5: range(2, 3),
+  };
+}
+
+const formatGrades = (schedule: string, { min, max }: { min: number; max: number }) =>
+  min === max ? `${schedule}-${min}` : `${schedule}-${min} to ${schedule}-${max}`;
+
+function describePreferenceSteps(preference: VeteransPreference): string[] {
+  const authorities = preference.hiringAuthorities.length
+    ? [
+        `Use ${preference.hiringAuthorities.join(', ')} to apply to announcements open only to veterans`,
+      ]
+    : [];
+
+  if (preference.category === 'none') {
+    return [
+      'Apply to announcements open to the public',
+      ...authorities,
+      'Check whether a service-connected disability rating would make you preference eligible',
+    ];
+  }
+
+  const documents =
+    preference.points === 10
+      ? 'your DD-214 (Member 4 copy), VA rating letter and SF-15'
+      : 'your DD-214 (Member 4 copy)';
+  return [
+    `Claim ${preference.label} (${preference.category}) on each application with ${documents}`,
+    ...authorities,
+  ];
+}
+
+/**
+ * Generate the federal-service pathway for a template
+ */
+export function generateFederalService(
+  profile: VeteranProfile,
+  template: PathwayTemplate,
+  location: string = profile.currentLocation
+): CareerPathway {
+  const { grades, preference, locality } = estimateFederalProfile(profile, location);
+  const [crosswalkMatch] = lookupMilitaryCode(profile.mos, profile.branch);
+  const careerField = crosswalkMatch?.careerField ?? template.signals.careerFields[0];
+  const isTrade = !!grades.wg && !!careerField && TRADE_CAREER_FIELDS.includes(careerField);
+  const gsGrades = formatGrades('GS', grades.gs);
+
+  return {
+    type: 'federal-service',
+    title: `${template.balanced.title} (Federal Service, ${gsGrades})`,
+    description: `Bring your ${template.skillArea} experience to a federal agency at ${gsGrades}, applying through USAJOBS with ${preference.label.toLowerCase()}. Pay includes ${locality.name} locality pay.`,
+    incomeTrajectory: federalIncome(grades.gs, locality),
+    roadmap: [
+      {
+        phase: 'Federal Application Prep',
+        duration: durationMonths(1, 2),
+        steps: [
+          `Create a USAJOBS profile and saved searches for ${gsGrades} announcements${
+            isTrade ? ` and ${formatGrades('WG', grades.wg!)} trades jobs` : ''
+          }`,
+          'Write a federal resume listing hours per week, duties and results for each role',
+          'Show one year of specialized experience at the next lower grade for each job you target',
+        ],
+      },
+      {
+        phase: 'Apply and Interview',
+        duration: durationMonths(3, 6),
+        steps: [
+          ...describePreferenceSteps(preference),
+          'Answer occupational questionnaires using the wording of your resume',
+          'Prepare for structured panel interviews',
+        ],
+      },
+      {
+        phase: 'Probationary Year',
+        duration: durationMonths(12),
+        steps: [
+          'Complete the one-year probationary period',
+          'Buy back your military time toward a FERS pension',
+          'Plan career-ladder promotions with your supervisor',
+        ],
+      },
+    ],
+    requiredCredentials: template.balanced.credentials,
+    familyImpact: {
+      timeCommitment: 'Moderate (40 hrs/week)',
+      flexibility: 'Moderate - predictable schedule, telework varies by agency',
+      stability: 'Very High - federal job protections and pension',
+      notes: `Federal health insurance (FEHB) and a FERS pension support long-term family security. Salaries use ${locality.name} locality pay (${locality.percent}%); moving to another locality changes your pay.`,
+    },
+    whyThisPath: `Experience at ${grades.payGrade} typically qualifies you for ${gsGrades}${
+      isTrade ? ` or ${formatGrades('WG', grades.wg!)} in the trades` : ''
+    }. ${
+      preference.points
+        ? `${preference.label} puts you ahead of non-veteran applicants.`
+        : 'Federal agencies value the leadership and clearances you bring from service.'
+    } Your ${profile.yearsOfService} years of service can count toward a federal pension.`,
+  };
+}
@@ -0,0 +1,121 @@
+import type { CareerPathway, CredentialCost } from './types';
+import type { FundingSource } from './cost';
+import type { GiBillBenefit } from '../benefits';
+
+/**
+ * GI Bill Costing
+ *
+ * Replaces the "covered by the GI Bill" assumption on credentials with what
+ * the veteran's Post-9/11 benefit actually pays: their benefit level, the
+ * private-school tuition cap and the entitlement they have left. Credentials
+ * use entitlement in roadmap order, and study phases list the housing
+ * allowance and book stipend that come with enrollment.
+ */
+
+/** Sponsors that pay instead of the GI Bill, leaving its entitlement untouched */
+const OTHER_SPONSORS: FundingSource[] = ['cool', 'vr-e', 'employer-paid'];
+
+/** Academic terms cover about nine months of each calendar year */
+const ENROLLED_SHARE = 9 / 12;
+
+const STUDY_PHASE_PATTERN = /degree|school|education|college|university|bachelor|master/i;
+
+const roundToHundred = (value: number) => Math.round(value / 100) * 100;
+
+/**
+ * Price a GI Bill-funded credential for the veteran's benefit
+ *
+ * @param enrolledMonths - Entitlement the credential would use in full
+ * @param coveredMonths - Entitlement left to cover it
+ */
+function applyToCost(
+  cost: CredentialCost,
+  benefit: GiBillBenefit,
+  years: number,
+  enrolledMonths: number,
+  coveredMonths: number
+): CredentialCost {
+  const coveredShare = coveredMonths / enrolledMonths;
+  const covered = (amount: number) =>
+    Math.min((amount * benefit.percent) / 100, benefit.annualTuitionCap * years) * coveredShare;
+  const outOfPocket = {
+    min: roundToHundred(cost.min - covered(cost.min)),
+    max: roundToHundred(cost.max - covered(cost.max)),
+  };
+
+  const fundingSources = cost.fundingSources.filter(
+    (source) => (source !== 'post-911-gi-bill' || coveredMonths > 0) && source !== 'out-of-pocket'
+  );
+  if (outOfPocket.max > 0) fundingSources.push('out-of-pocket');
+
+  return { ...cost, fundingSources, outOfPocket };
+}
+
+/**
+ * Apply a veteran's GI Bill benefit to a pathway's credentials and study phases
+ *
+ * Pathways without GI Bill-funded credentials are returned unchanged. When no
+ * entitlement is left (or the veteran is not eligible), the credentials are
+ * repriced as out-of-pocket and no GI Bill estimate is attached.
+ */
+export function applyGiBill(pathway: CareerPathway, benefit: GiBillBenefit): CareerPathway {
+  let remaining = benefit.entitlementMonths;
+  let used = 0;
+
+  const requiredCredentials = pathway.requiredCredentials.map((credential) => {
+    const { cost, timeline } = credential;
+    if (
+      !cost.fundingSources.includes('post-911-gi-bill') ||
+      cost.fundingSources.some((source) => OTHER_SPONSORS.includes(source))
+    ) {
+      return credential;
+    }
+
+    const enrolledMonths = Math.max(Math.ceil(timeline.maxMonths * ENROLLED_SHARE), 1);
+    const coveredMonths = Math.min(enrolledMonths, remaining);
+    remaining -= coveredMonths;
+    used += coveredMonths;
+
+    return {
+      ...credential,
+      cost: applyToCost(
+        cost,
+        benefit,
+        Math.max(timeline.maxMonths / 12, 1),
+        enrolledMonths,
+        coveredMonths
+      ),
+    };
+  });
+
+  if (
+    requiredCredentials.every(
+      (credential, index) => credential === pathway.requiredCredentials[index]
+    )
+  ) {
+    return pathway;
+  }
+
+  if (!used) return { ...pathway, requiredCredentials };
+
+  const studyStep = `Post-9/11 GI Bill (${benefit.percent}%): about $${benefit.monthlyHousing.toLocaleString('en-US')}/month housing allowance for ${benefit.housingMarket} and up to $${benefit.annualBookStipend.toLocaleString('en-US')}/year for books while enrolled more than half time`;
+
+  return {
+    ...pathway,
+    roadmap: pathway.roadmap.map((phase) =>
+      STUDY_PHASE_PATTERN.test(phase.phase)
+        ? { ...phase, steps: [...phase.steps, studyStep] }
+        : phase
+    ),
+    requiredCredentials,
+    giBill: {
+      percent: benefit.percent,
+      housingMarket: benefit.housingMarket,
+      monthlyHousing: benefit.monthlyHousing,
+      annualBookStipend: benefit.annualBookStipend,
+      entitlementMonthsUsed: used,
+      entitlementMonthsRemaining: remaining,
+      housingWhileStudying: benefit.monthlyHousing * used,
+    },
+  };
+}
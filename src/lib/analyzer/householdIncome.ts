@@ -0,0 +1,100 @@
+import type { AnalysisResult, CareerPathway, VeteranProfile } from './types';
+import { parseIncomeString, toAnnualIncome } from './income';
+import { estimateVaCompensation, VaCompensation } from '../benefits';
+
+/**
+ * Household Income
+ *
+ * Adds VA disability compensation as baseline household income, compares each
+ * pathway's first year (plus compensation) with the veteran's income
+ * expectation, and turns both into risk notes in the pathway's
+ * `familyImpact`.
+ */
+
+const formatDollars = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+/**
+ * Estimate VA compensation for a profile, counting a spouse when the family
+ * status says married and the remaining dependents as children
+ */
+export function vaCompensationFor(profile: VeteranProfile): VaCompensation | undefined {
+  const spouse = /\bmarried\b/i.test(profile.familyStatus);
+  const children = Math.max(profile.dependents - (spouse ? 1 : 0), 0);
+  return estimateVaCompensation({ rating: profile.disabilityRating, spouse, children });
+}
+
+/**
+ * Read the income expectation ("$60k-80k", "$70,000+") as an annual range
+ *
+ * @returns The range, or undefined for expectations without an amount ("Flexible")
+ */
+export function expectedIncome(profile: VeteranProfile): { min: number; max: number } | undefined {
+  const parsed = parseIncomeString(profile.incomeExpectations);
+  if (!parsed) return undefined;
+  const { min, max } = toAnnualIncome(parsed);
+  return { min, max };
+}
+
+function describeRisks(
+  comparison: CareerPathway['incomeComparison'],
+  compensation: VaCompensation | undefined
+): string[] {
+  const notes: string[] = [];
+
+  if (compensation) {
+    notes.push(
+      `VA disability compensation of ${formatDollars(compensation.monthly)}/month continues whether or not you are working, which cushions a slow start.`
+    );
+  }
+
+  if (comparison && !comparison.meetsExpectation) {
+    const { householdYear1, expected } = comparison;
+    notes.push(
+      `Year 1 household income of ${formatDollars(householdYear1.min)} - ${formatDollars(householdYear1.max)}${
+        compensation ? ' including VA compensation' : ''
+      } ${householdYear1.max < expected.min ? 'falls' : 'may fall'} short of your ${formatDollars(
+        expected.min
+      )} expectation; budget for the gap.`
+    );
+  }
+
+  return notes;
+}
+
+/**
+ * Add VA compensation and the income-expectation comparison to a result
+ */
+export function applyHouseholdIncome(
+  result: AnalysisResult,
+  profile: VeteranProfile
+): AnalysisResult {
+  const compensation = vaCompensationFor(profile);
+  const expected = expectedIncome(profile);
+  const vaCompensation = compensation?.annual ?? 0;
+
+  const pathways = result.pathways.map((pathway) => {
+    const year1 = toAnnualIncome(pathway.incomeTrajectory.year1);
+    const householdYear1 = { min: year1.min + vaCompensation, max: year1.max + vaCompensation };
+    const incomeComparison = expected && {
+      expected,
+      householdYear1,
+      vaCompensation,
+      meetsExpectation: householdYear1.min >= expected.min,
+    };
+
+    const risks = describeRisks(incomeComparison, compensation);
+
+    return {
+      ...pathway,
+      ...(incomeComparison && { incomeComparison }),
+      familyImpact: risks.length
+        ? {
+            ...pathway.familyImpact,
+            notes: [pathway.familyImpact.notes, ...risks].filter(Boolean).join(' '),
+          }
+        : pathway.familyImpact,
+    };
+  });
+
+  return { ...result, pathways, ...(compensation && { vaCompensation: compensation }) };
+}
@@ -0,0 +1,113 @@
+import type { IncomeRange } from './types';
+
+/**
+ * Income Range Helpers
+ *
+ * Shared by the Zod schemas (to upgrade legacy string values), both providers,
+ * and the results UI. Safe to import from client components.
+ */
+
+export const INCOME_PERIODS = ['year', 'month', 'hour'] as const;
+
+export type IncomePeriod = (typeof INCOME_PERIODS)[number];
+
+const PERIOD_SUFFIXES: Record<IncomePeriod, string> = {
+  year: '',
+  month: '/mo',
+  hour: '/hr',
+};
+
+/**
+ * Build an annual USD income range
+ */
+export function annualIncome(min: number, max: number = min): IncomeRange {
+  return { min, max, currency: 'USD', period: 'year' };
+}
+
+/**
+ * Parse a legacy income string such as "$45,000 - $55,000", "$70k" or "$25/hour"
+ *
+ * @returns The structured range, or null if the string contains no amount
+ */
+export function parseIncomeString(value: string): IncomeRange | null {
+  // When dollar signs are present, only read amounts that follow one (or a range dash),
+  // so labels like "Year 1:" are not mistaken for amounts
+  const pattern = value.includes('$')
+    ? /(?:\$\s*|(?<=[-–]\s*))(\d[\d,]*(?:\.\d+)?)([kKmM](?![a-zA-Z]))?/g
+    : /(\d[\d,]*(?:\.\d+)?)([kKmM](?![a-zA-Z]))?/g;
+  const matches = Array.from(value.matchAll(pattern));
+  if (!matches.length) return null;
+
+  const amounts = matches
+    .map(([, digits, suffix]) => {
+      const amount = Number.parseFloat(digits.replace(/,/g, ''));
+      const multiplier = suffix?.toLowerCase() === 'k' ? 1000 : suffix ? 1_000_000 : 1;
+      return Math.round(amount * multiplier);
+    })
+    .filter((amount) => !Number.isNaN(amount));
+  if (!amounts.length) return null;
+
+  const lower = value.toLowerCase();
+  const period: IncomePeriod = /hour|\/hr|per hr/.test(lower)
+    ? 'hour'
+    : /month|\/mo\b/.test(lower)
+      ? 'month'
+      : 'year';
+
+  return {
+    min: Math.min(...amounts),
+    max: Math.max(...amounts),
+    currency: 'USD',
+    period,
+  };
+}
+
+/**
+ * Zod preprocess step: upgrade legacy string incomes, pass everything else through
+ */
+export function upgradeLegacyIncome(value: unknown): unknown {
+  if (typeof value === 'number') return annualIncome(value);
+  if (typeof value !== 'string') return value;
+  return parseIncomeString(value) ?? value;
+}
+
+const formatAmount = (value: number, currency: string) =>
+  currency === 'USD'
+    ? `$${Math.round(value).toLocaleString('en-US')}`
+    : `${Math.round(value).toLocaleString('en-US')} ${currency}`;
+
+/**
+ * Format an income range for display, e.g. "$45,000 - $55,000" or "$25/hr"
+ */
+export function formatIncomeRange(range: IncomeRange): string {
+  const suffix = PERIOD_SUFFIXES[range.period];
+  const min = formatAmount(range.min, range.currency);
+
+  if (range.min === range.max) {
+    return `${min}${suffix}`;
+  }
+
+  return `${min} - ${formatAmount(range.max, range.currency)}${suffix}`;
+}
+
+const ANNUAL_MULTIPLIERS: Record<IncomePeriod, number> = {
+  year: 1,
+  month: 12,
+  // Full-time hours
+  hour: 2080,
+};
+
+/**
+ * Convert an income range to annual figures
+ */
+export function toAnnualIncome(range: IncomeRange): IncomeRange {
+  const multiplier = ANNUAL_MULTIPLIERS[range.period];
+  return { ...range, min: range.min * multiplier, max: range.max * multiplier, period: 'year' };
+}
+
+/**
+ * Midpoint of an income range, useful for charts and comparisons
+ */
+export function incomeMidpoint(range: IncomeRange): number {
+  return (range.min + range.max) / 2;
+}
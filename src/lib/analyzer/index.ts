@@ -1,10 +1,12 @@
-import { AnalysisResult, VeteranProfile } from './types';
-import { analyzeDemoMode } from './demoProvider';
-import { analyzeRealMode } from './realProvider';
+import { AnalysisOptions, AnalysisResponse, AnalysisStreamEvent, VeteranProfile } from './types';
+import { getActiveProvider, getAvailableProviders } from './registry';
+import { resolvePathwayTypes } from './pathwayTypes';
+import { getAnalyzerConfig, modelRequestTimeout } from './config';
+import { AnalysisErrorKind, classifyError, retryDelay, withTimeout } from './errors';
 import { logger } from '../logger';
 
 /**
- * Main Analyzer Service - Automatically selects Demo or Real mode
+ * Main Analyzer Service - Runs the configured provider fallback chain
  *
  * **Demo Mode** (No API key required):
  * - Works with ZERO environment variables
@@ -17,46 +19,225 @@ import { logger } from '../logger';
  * - Requires ANTHROPIC_API_KEY environment variable
  *
  * **Graceful Degradation**:
- * - If Real Mode fails, automatically falls back to Demo Mode
+ * - Providers are tried in the order of the fallback chain (default: real → demo)
+ * - Unavailable providers are skipped; a failing provider falls back to the next one
+ * - Each model request is limited to `ANALYSIS_TIMEOUT_MS` (by default scaled
+ *   with the token budget), and an attempt to that limit times the provider's
+ *   `maxRequests` (Real Mode makes up to MAX_REPAIR_ROUNDS repair requests after
+ *   the first); rate limits, overload and timeouts are retried with exponential backoff up to
+ *   `ANALYSIS_MAX_RETRIES` times before falling back (see errors.ts)
  * - Ensures users always get a response even during API outages
+ *
+ * **Options**:
+ * - `pathwayTypes` / `count` choose which pathway strategies to generate
+ *   (default: fast-income, balanced, max-upside; see pathwayTypes.ts)
+ * - `model` / `maxTokens` override the Real Mode model and token budget; the
+ *   route accepts them only from authorized callers
+ *
+ * **Provenance**:
+ * - Every result is returned with metadata describing the provider used,
+ *   whether a fallback happened and why (with the error kind), retries, model,
+ *   prompt version and latency
+ *
+ * **Streaming**:
+ * - With `onEvent`, the summary and each pathway are reported as they become
+ *   available: as they arrive from providers that stream (Real Mode), or from
+ *   the finished result for those that do not (Demo Mode)
+ * - A `reset` event discards partial output when a provider fails after
+ *   reporting some and is retried or the next provider starts over
  */
-export async function analyzeProfile(profile: VeteranProfile): Promise<AnalysisResult> {
-  const hasApiKey = Boolean(process.env.ANTHROPIC_API_KEY);
-
-  if (hasApiKey) {
-    // Real mode: Try Anthropic API with fallback to Demo mode
-    try {
-      return await analyzeRealMode(profile);
-    } catch (error) {
-      // Log the failure for observability
-      logger.warn('Real mode failed, falling back to demo mode', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        errorType: error instanceof Error ? error.name : 'Unknown',
-      });
-
-      // Graceful degradation: return demo mode results
-      return analyzeDemoMode(profile);
+export async function analyzeProfile(
+  profile: VeteranProfile,
+  options: AnalysisOptions = {},
+  onEvent?: (event: AnalysisStreamEvent) => void
+): Promise<AnalysisResponse> {
+  const providers = getAvailableProviders();
+  const pathwayTypes = resolvePathwayTypes(options);
+
+  if (!providers.length) {
+    throw new Error('No analysis provider is available');
+  }
+
+  const config = getAnalyzerConfig();
+  const { maxRetries, retryBaseMs } = config;
+  const timeoutMs = modelRequestTimeout(options.maxTokens ?? config.maxTokens, config.timeoutMs);
+  const startTime = Date.now();
+  const attemptedProviders: string[] = [];
+  let fallbackReason: string | undefined;
+  let errorKind: AnalysisErrorKind | undefined;
+  let retries = 0;
+  let lastError: unknown;
+
+  chain: for (const [index, provider] of providers.entries()) {
+    attemptedProviders.push(provider.name);
+    const name = capitalize(provider.name);
+
+    for (let attempt = 0; ; attempt++) {
+      let reported = false;
+      const onProgress = onEvent
+        ? (event: AnalysisStreamEvent) => {
+            reported = true;
+            onEvent(event);
+          }
+        : undefined;
+
+      try {
+        const analysis = await withTimeout(
+          (signal) =>
+            provider.analyze(profile, {
+              pathwayTypes,
+              onProgress,
+              signal,
+              timeoutMs,
+              model: options.model,
+              maxTokens: options.maxTokens,
+            }),
+          timeoutMs * (provider.maxRequests ?? 1)
+        );
+        if (onEvent && !reported) {
+          onEvent({ type: 'summary', summary: analysis.result.summary });
+          analysis.result.pathways.forEach((pathway, pathwayIndex) =>
+            onEvent({ type: 'pathway', index: pathwayIndex, pathway })
+          );
+        }
+        const metadata = {
+          provider: provider.name,
+          attemptedProviders,
+          fallback: index > 0,
+          fallbackReason,
+          errorKind,
+          retries: retries || undefined,
+          model: analysis.model,
+          promptVersion: analysis.promptVersion,
+          demoTemplateId: analysis.templateId,
+          latencyMs: Date.now() - startTime,
+        };
+
+        logger.info('Profile analysis completed', { ...metadata });
+
+        return { result: analysis.result, metadata };
+      } catch (error) {
+        lastError = error;
+        const failure = classifyError(error);
+        errorKind ??= failure.kind;
+        const details = {
+          provider: provider.name,
+          errorKind: failure.kind,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorType: error instanceof Error ? error.name : 'Unknown',
+        };
+
+        if (failure.retryable && attempt < maxRetries) {
+          const delayMs = retryDelay(failure, attempt, retryBaseMs);
+          retries++;
+          if (onEvent && reported) {
+            onEvent({
+              type: 'reset',
+              reason: `${name} mode failed (${failure.kind}), retrying: ${describeError(error)}`,
+            });
+          }
+
+          logger.warn(
+            `${name} mode failed, retrying (attempt ${attempt + 2} of ${maxRetries + 1})`,
+            { ...details, delayMs }
+          );
+          await sleep(delayMs);
+          continue;
+        }
+
+        const nextProvider = providers[index + 1];
+        if (!nextProvider) break chain;
+        fallbackReason ??= `${name} mode failed: ${describeError(error)}`;
+        if (onEvent && reported) onEvent({ type: 'reset', reason: fallbackReason });
+
+        // Log the failure for observability; bad credentials need an operator
+        const log = failure.kind === 'auth' ? logger.error : logger.warn;
+        log(`${name} mode failed, falling back to ${nextProvider.name} mode`, {
+          ...details,
+          fallbackProvider: nextProvider.name,
+        });
+        continue chain;
+      }
     }
-  } else {
-    // Demo mode: Use deterministic templates
-    return analyzeDemoMode(profile);
   }
+
+  throw lastError;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
  * Check if the application is running in Demo Mode or Real Mode
  */
 export function isUsingDemoMode(): boolean {
-  return !Boolean(process.env.ANTHROPIC_API_KEY);
+  return getCurrentMode() === 'demo';
 }
 
 /**
  * Get the current mode as a string
+ *
+ * Returns the name of the first available provider in the fallback chain
+ * ('real', 'demo', or the name of a custom provider), or 'none' if no
+ * provider can serve requests.
+ */
+export function getCurrentMode(): string {
+  return getActiveProvider()?.name ?? 'none';
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Describe a provider failure for client-visible metadata
+ * (never includes API keys or other credentials)
  */
-export function getCurrentMode(): 'demo' | 'real' {
-  return isUsingDemoMode() ? 'demo' : 'real';
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Unknown error';
+  return error.message.replace(/sk-ant-[\w-]+/g, '[redacted]').slice(0, 200);
 }
 
 // Re-export types for convenience
-export type { VeteranProfile, AnalysisResult, CareerPathway } from './types';
-export { VeteranProfileSchema, AnalysisResultSchema } from './types';
+export type {
+  VeteranProfile,
+  AnalysisResult,
+  CareerPathway,
+  CostOfLivingAdjustment,
+  GiBillEstimate,
+  IncomeComparison,
+  VaCompensation,
+  LocationComparison,
+  LocationOutlook,
+  TemplateScore,
+  AnalysisOptions,
+  AnalysisRequest,
+  AnalysisMetadata,
+  AnalysisResponse,
+  AnalysisStreamEvent,
+} from './types';
+export {
+  VeteranProfileSchema,
+  AnalysisResultSchema,
+  AnalysisOptionsSchema,
+  AnalysisRequestSchema,
+  AnalysisResponseSchema,
+  AnalysisStreamEventSchema,
+  PROFILE_TEXT_LIMITS,
+} from './types';
+export type { InjectionFinding } from './promptInjection';
+export { detectPromptInjection } from './promptInjection';
+export type { AnalysisErrorKind } from './errors';
+export { AnalysisError, ANALYSIS_ERROR_KINDS, classifyError } from './errors';
+export type { PathwayType } from './pathwayTypes';
+export { PATHWAY_TYPES, DEFAULT_PATHWAY_TYPES } from './pathwayTypes';
+export type { AnalysisProvider, ProviderAnalysis, ProviderOptions } from './registry';
+export {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  listProviders,
+  getProviderChain,
+  getActiveProvider,
+} from './registry';
@@ -0,0 +1,152 @@
+import type { AnalysisResult, CareerPathway, LocationComparison, VeteranProfile } from './types';
+import { mapTrajectory } from './costOfLiving';
+import type { CareerField } from '../crosswalk';
+import {
+  adjustForCostOfLiving,
+  DemandLevel,
+  lookupMetro,
+  MetroMarket,
+  selectMarket,
+} from '../costOfLiving';
+import { lookupLocality } from '../federal';
+import { lookupStateBenefits } from '../stateBenefits';
+
+/**
+ * Location Comparison
+ *
+ * For veterans willing to relocate, breaks each pathway down by location
+ * (current location plus every preferred one): expected pay, job demand and
+ * cost of living, plus state benefits per location. Pathway incomes are
+ * priced for one market (see selectMarket); other locations are derived from
+ * that market the way the pay itself varies: GS locality pay for
+ * federal-service, national rates for remote-first, local wages otherwise.
+ */
+
+interface ComparedLocation {
+  location: string;
+  market: MetroMarket;
+}
+
+/**
+ * The locations to compare, current location first, or none when the veteran
+ * is not relocating or lists no other location
+ */
+export function comparedLocations(profile: VeteranProfile): ComparedLocation[] {
+  if (!profile.willingToRelocate) return [];
+
+  const seen = new Set<string>();
+  const locations = [profile.currentLocation, ...profile.preferredLocations]
+    .map((location) => location.trim())
+    .filter((location) => {
+      const key = location.toLowerCase();
+      if (!location || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  if (locations.length < 2) return [];
+  return locations.map((location) => ({ location, market: lookupMetro(location) }));
+}
+
+/**
+ * Ratio of a pathway's pay in one location to its pay in another
+ */
+function payRatio(pathway: CareerPathway, from: ComparedLocation, to: ComparedLocation): number {
+  switch (pathway.type) {
+    case 'remote-first':
+      return 1;
+    case 'federal-service':
+      return (
+        (100 + lookupLocality(to.location).percent) / (100 + lookupLocality(from.location).percent)
+      );
+    default:
+      return to.market.wageIndex / from.market.wageIndex;
+  }
+}
+
+/**
+ * How easy it is to land a pathway's jobs in a market
+ *
+ * Remote roles compete nationally. Federal jobs cluster around installations
+ * and agency headquarters, so only federal hubs rate high.
+ */
+export function demandFor(
+  pathway: CareerPathway,
+  market: MetroMarket,
+  careerField?: CareerField
+): DemandLevel {
+  switch (pathway.type) {
+    case 'remote-first':
+      return 'moderate';
+    case 'federal-service':
+      return market.federalHub ? 'high' : market.demandLevel === 'low' ? 'low' : 'moderate';
+    default:
+      return careerField && market.strongCareerFields.includes(careerField)
+        ? 'high'
+        : market.demandLevel;
+  }
+}
+
+function describeLocation({ location, market }: ComparedLocation): LocationComparison {
+  const benefits = lookupStateBenefits(location, market.state);
+
+  return {
+    location,
+    market: market.name,
+    costIndex: market.costIndex,
+    wageIndex: market.wageIndex,
+    ...(benefits && {
+      stateBenefits: {
+        state: benefits.name,
+        incomeTax: benefits.incomeTax,
+        militaryRetirement: benefits.militaryRetirement,
+        highlights: benefits.highlights,
+      },
+    }),
+  };
+}
+
+/**
+ * Add a per-location breakdown to every pathway and the compared locations to
+ * the result
+ *
+ * Expects pathway incomes priced for the market selectMarket picks for the
+ * profile. Results for veterans who are not comparing locations are returned
+ * unchanged.
+ *
+ * @param careerField - The veteran's career field, used to rate demand
+ */
+export function compareLocations(
+  result: AnalysisResult,
+  profile: VeteranProfile,
+  careerField?: CareerField
+): AnalysisResult {
+  const locations = comparedLocations(profile);
+  if (!locations.length) return result;
+
+  const priced = selectMarket(profile);
+
+  return {
+    ...result,
+    pathways: result.pathways.map((pathway) => ({
+      ...pathway,
+      locationBreakdown: locations.map((compared) => {
+        const ratio = payRatio(pathway, priced, compared);
+        const incomeTrajectory = mapTrajectory(
+          pathway.incomeTrajectory,
+          (amount) => amount * ratio
+        );
+
+        return {
+          location: compared.location,
+          demandLevel: demandFor(pathway, compared.market, careerField),
+          incomeTrajectory,
+          adjustedTrajectory: mapTrajectory(incomeTrajectory, (amount) =>
+            adjustForCostOfLiving(amount, compared.market)
+          ),
+        };
+      }),
+    })),
+    locations: locations.map(describeLocation),
+  };
+}
@@ -0,0 +1,70 @@
+import type { CareerPathway } from './types';
+import { addDays, laterDate } from '../dates';
+
+/**
+ * Dated Milestones
+ *
+ * Turns a pathway's roadmap ("Month 1-2: Certifications", "Year 2-3:
+ * Advancement") into dated milestones for veterans with a separation date.
+ * Phases run back to back from the separation date, or from the end of the
+ * pre-separation phases already scheduled before it, each planned for the
+ * long end of its duration. Safe to import from client components.
+ */
+
+type RoadmapPhase = CareerPathway['roadmap'][number];
+
+const DAYS_PER_MONTH = 365 / 12;
+
+/**
+ * Date every undated roadmap phase, starting on the separation date
+ *
+ * Ongoing phases get a start date only, so the phases after them start on the
+ * same day. Pathways are returned unchanged without a separation date.
+ *
+ * @param separationDate - ISO calendar date the veteran leaves service
+ */
+export function scheduleRoadmap(pathway: CareerPathway, separationDate?: string): CareerPathway {
+  if (!separationDate) return pathway;
+
+  let cursor = separationDate;
+  const roadmap = pathway.roadmap.map((phase) => {
+    if (phase.startDate) {
+      cursor = laterDate(cursor, phase.endDate ?? phase.startDate);
+      return phase;
+    }
+
+    const startDate = cursor;
+    const { maxMonths, openEnded } = phase.duration;
+    if (openEnded && maxMonths === 0) return { ...phase, startDate };
+
+    cursor = addDays(startDate, Math.max(Math.round(maxMonths * DAYS_PER_MONTH), 1));
+    return { ...phase, startDate, endDate: cursor };
+  });
+
+  return { ...pathway, roadmap };
+}
+
+/**
+ * Where today falls in a dated roadmap
+ *
+ * @returns The index of the phase the veteran should be in now (the latest
+ *   one when phases overlap), -1 when every phase is still ahead, the roadmap
+ *   length when every phase is over, or undefined for undated roadmaps
+ */
+export function currentPhaseIndex(roadmap: RoadmapPhase[], today: string): number | undefined {
+  if (!roadmap.some((phase) => phase.startDate)) return undefined;
+
+  let current = -1;
+  let finished = 0;
+  roadmap.forEach((phase, index) => {
+    if (!phase.startDate || phase.startDate > today) return;
+    if (phase.endDate && phase.endDate <= today) {
+      finished = index + 1;
+      return;
+    }
+    current = index;
+  });
+
+  if (current >= 0) return current;
+  return finished ? finished : -1;
+}
@@ -0,0 +1,148 @@
+/**
+ * Pathway Type Registry
+ *
+ * Single source of truth for the pathway strategies the analyzer can generate.
+ * The Zod schemas, the Real Mode tool definition and prompt, demo generation
+ * and the results UI all read from this registry. Safe to import from client
+ * components.
+ *
+ * Adding a type: add it to `PATHWAY_TYPES` and `PATHWAY_TYPE_DEFINITIONS`;
+ * TypeScript then requires a demo generator for it in templateRenderer.ts.
+ */
+
+export const PATHWAY_TYPES = [
+  'fast-income',
+  'balanced',
+  'max-upside',
+  'entrepreneurship',
+  'federal-service',
+  'remote-first',
+  'continued-service',
+] as const;
+
+export type PathwayType = (typeof PATHWAY_TYPES)[number];
+
+/**
+ * Pathway types generated when a request does not choose any
+ */
+export const DEFAULT_PATHWAY_TYPES: PathwayType[] = ['fast-income', 'balanced', 'max-upside'];
+
+/**
+ * Most pathways a single analysis can contain (each type at most once)
+ */
+export const MAX_PATHWAYS = PATHWAY_TYPES.length;
+
+export interface PathwayTypeDefinition {
+  /** Label shown on result cards and tabs */
+  label: string;
+  /** What the strategy optimizes for, used in the Real Mode prompt */
+  description: string;
+  /** Extra Real Mode instructions for this type */
+  guidance?: string;
+  /** Tailwind classes for result cards */
+  style: {
+    badge: string;
+    accent: string;
+    border: string;
+  };
+}
+
+export const PATHWAY_TYPE_DEFINITIONS: Record<PathwayType, PathwayTypeDefinition> = {
+  'fast-income': {
+    label: 'Fast Income',
+    description: 'Quick entry to workforce with immediate income',
+    style: {
+      badge: 'bg-emerald-600',
+      accent: 'from-emerald-50 via-white to-white',
+      border: 'border-emerald-200',
+    },
+  },
+  balanced: {
+    label: 'Balanced Growth',
+    description: 'Mix of short-term income and long-term growth',
+    style: {
+      badge: 'bg-blue-600',
+      accent: 'from-blue-50 via-white to-white',
+      border: 'border-blue-200',
+    },
+  },
+  'max-upside': {
+    label: 'Maximum Upside',
+    description: 'Higher investment in education/training for maximum career potential',
+    style: {
+      badge: 'bg-indigo-600',
+      accent: 'from-indigo-50 via-white to-white',
+      border: 'border-indigo-200',
+    },
+  },
+  entrepreneurship: {
+    label: 'Entrepreneurship',
+    description: 'Starting or buying a business, using veteran small-business programs',
+    guidance:
+      'Build the roadmap through Boots to Business, a Veterans Business Outreach Center (VBOC), VOSB/SDVOSB certification through SBA VetCert and startup capital planning (savings, SBA loans). Model owner income as a wide range that reflects revenue uncertainty, and describe income volatility in familyImpact.',
+    style: {
+      badge: 'bg-amber-600',
+      accent: 'from-amber-50 via-white to-white',
+      border: 'border-amber-200',
+    },
+  },
+  'federal-service': {
+    label: 'Federal Service',
+    description: "Federal civilian employment using veterans' preference",
+    guidance:
+      "Target the GS (or WG for trades) grades in the federal estimate and base income on GS pay with the locality adjustment given, one grade promotion every two years. Build the roadmap around USAJOBS, the veteran's preference category and the hiring authorities listed (VEOA, VRA, 30% or More Disabled).",
+    style: {
+      badge: 'bg-sky-700',
+      accent: 'from-sky-50 via-white to-white',
+      border: 'border-sky-200',
+    },
+  },
+  'remote-first': {
+    label: 'Remote First',
+    description: 'Roles that can be done fully remote, independent of where the family lives',
+    style: {
+      badge: 'bg-teal-600',
+      accent: 'from-teal-50 via-white to-white',
+      border: 'border-teal-200',
+    },
+  },
+  'continued-service': {
+    label: 'Continued Service',
+    description: 'Part-time Reserve or National Guard service alongside a civilian career',
+    style: {
+      badge: 'bg-lime-700',
+      accent: 'from-lime-50 via-white to-white',
+      border: 'border-lime-200',
+    },
+  },
+};
+
+/**
+ * Check whether a string is a registered pathway type
+ */
+export function isPathwayType(value: string): value is PathwayType {
+  return (PATHWAY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Display label for a pathway type (unknown types are shown as-is)
+ */
+export function getPathwayLabel(type: string): string {
+  return isPathwayType(type) ? PATHWAY_TYPE_DEFINITIONS[type].label : type;
+}
+
+/**
+ * Decide which pathway types to generate for a request
+ *
+ * Explicit `pathwayTypes` win. A bare `count` takes that many types in
+ * registry order, so the first three are always the default strategies.
+ * Without either, the default strategies are generated; other types such as
+ * entrepreneurship are opt-in.
+ */
+export function resolvePathwayTypes(
+  options: { pathwayTypes?: PathwayType[]; count?: number } = {}
+): PathwayType[] {
+  if (options.pathwayTypes?.length) return options.pathwayTypes;
+  if (options.count) return PATHWAY_TYPES.slice(0, options.count);
+  return DEFAULT_PATHWAY_TYPES;
+}
@@ -0,0 +1,82 @@
+import type { CareerPathway } from './types';
+import { durationDays } from './duration';
+import type { CareerField } from '../crosswalk';
+import { daysBetween, today as currentDate } from '../dates';
+import { findPrograms, ProgramKind, scheduleProgram } from '../preSeparation';
+
+/**
+ * Pre-Separation Planning
+ *
+ * Puts the time left on active duty to work: for veterans with a separation
+ * date, each pathway starts with the best-matching SkillBridge internship,
+ * Hiring Our Heroes fellowship or apprenticeship program from the catalog,
+ * scheduled to end on the separation date.
+ */
+
+const KIND_LABELS: Record<ProgramKind, string> = {
+  skillbridge: 'SkillBridge',
+  'hiring-our-heroes': 'Hiring Our Heroes',
+  apprenticeship: 'Apprenticeship',
+};
+
+export interface PreSeparationContext {
+  /** ISO calendar date */
+  separationDate?: string;
+  /** Duty location, where the service member would train */
+  location: string;
+  careerField?: CareerField;
+  /** ISO calendar date; defaults to the current date */
+  today?: string;
+}
+
+/**
+ * Insert dated pre-separation phases at the start of a pathway's roadmap
+ *
+ * Pathways are returned unchanged when there is no separation date, no program
+ * fits the pathway, or too little time is left to join one.
+ */
+export function addPreSeparationPhases(
+  pathway: CareerPathway,
+  { separationDate, location, careerField, today = currentDate() }: PreSeparationContext
+): CareerPathway {
+  if (!separationDate) return pathway;
+
+  for (const program of findPrograms({ pathwayType: pathway.type, careerField, location })) {
+    const schedule = scheduleProgram(program, { separationDate, today });
+    if (!schedule) continue;
+
+    const { applicationStart, startDate, endDate } = schedule;
+    const label = KIND_LABELS[program.kind];
+
+    return {
+      ...pathway,
+      roadmap: [
+        {
+          phase: `Pre-Separation: Apply for ${label}`,
+          duration: durationDays(daysBetween(applicationStart, startDate)),
+          startDate: applicationStart,
+          endDate: startDate,
+          steps: [
+            `Apply to ${program.name}${program.url ? ` (${program.url})` : ''}`,
+            `Request command approval to start on ${startDate}`,
+            'Schedule TAP counseling and terminal leave around the program dates',
+          ],
+        },
+        {
+          phase: `${label}: ${program.name}`,
+          duration: durationDays(daysBetween(startDate, endDate)),
+          startDate,
+          endDate,
+          steps: [
+            program.description,
+            `Work with ${program.provider} while still receiving military pay and benefits`,
+            'Ask about a job offer before your separation date',
+          ],
+        },
+        ...pathway.roadmap,
+      ],
+    };
+  }
+
+  return pathway;
+}
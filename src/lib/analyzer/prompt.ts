@@ -0,0 +1,198 @@
+import { VeteranProfile } from './types';
+import { PATHWAY_TYPE_DEFINITIONS, PathwayType } from './pathwayTypes';
+import { estimateFederalProfile } from './federalService';
+import { vaCompensationFor } from './householdIncome';
+import { getAnalyzerConfig } from './config';
+import { PROFILE_FREE_TEXT_FIELDS } from './promptInjection';
+import { loadPromptTemplate, PromptVariables, renderPrompt } from './promptTemplates';
+import { CrosswalkEntry, getCrosswalkVersion, lookupMilitaryCode } from '../crosswalk';
+import { getGsPayTableInfo, gsSalary } from '../federal';
+import { selectMarket } from '../costOfLiving';
+import { estimateGiBill, GiBillBenefit } from '../benefits';
+
+/**
+ * Real Mode Prompt
+ *
+ * Builds the analysis prompt from `content/prompts/analysis.<version>.txt`.
+ * The variables below are everything a template version can use; a version
+ * may leave some out, but rendering fails if it uses one not listed here.
+ *
+ * From v2 on, only numbers, dates and text from bundled datasets are templated
+ * into the instructions. The veteran's free-text answers travel separately as
+ * `profileData`, so they are never read as part of the instructions. v1
+ * templates the answers into the instructions itself and gets no `profileData`;
+ * it stays available because published versions are not edited or removed.
+ */
+
+export const ANALYSIS_PROMPT = 'analysis';
+
+export interface AnalysisPrompt {
+  text: string;
+  /**
+   * The veteran's free-text answers, sent as their own content block; undefined
+   * for versions that template the answers into the text (v1)
+   */
+  profileData?: string;
+  /** Template version the text was rendered from, recorded in result metadata */
+  version: string;
+}
+
+/**
+ * Describe crosswalk matches for the prompt so recommendations are grounded in
+ * O*NET occupations rather than the model's guess at what a job code means
+ */
+function describeCrosswalk(matches: CrosswalkEntry[]): string {
+  if (!matches.length) {
+    return 'No crosswalk match for this job code; infer civilian equivalents from the profile.';
+  }
+
+  const { version, onetTaxonomy } = getCrosswalkVersion();
+  const lines = matches.map(
+    (match) =>
+      `${match.branch} ${match.code} (${match.title}): ${match.occupations
+        .map((occupation) => `${occupation.title} [${occupation.socCode}]`)
+        .join('; ')}`
+  );
+  return [`Crosswalk v${version} (${onetTaxonomy}):`, ...lines].join('\n');
+}
+
+/**
+ * Describe the federal grade, preference and locality estimates for the prompt
+ * so federal-service income follows the GS pay table
+ */
+function describeFederalEstimate(profile: VeteranProfile, location: string): string {
+  const { grades, preference, locality } = estimateFederalProfile(profile, location);
+  const { effectiveYear } = getGsPayTableInfo();
+  const wage = grades.wg ? `; trades: WG-${grades.wg.min} to WG-${grades.wg.max}` : '';
+
+  return [
+    `Pay grade ${grades.payGrade}: comparable GS-${grades.gs.min} to GS-${grades.gs.max}${wage}`,
+    `Veterans' preference: ${preference.label} (${preference.category})${
+      preference.hiringAuthorities.length
+        ? `; hiring authorities: ${preference.hiringAuthorities.join(', ')}`
+        : ''
+    }`,
+    `Locality: ${locality.name} (${locality.percent}%); ${effectiveYear} GS-${grades.gs.min} step 1 pays $${gsSalary(
+      grades.gs.min,
+      1,
+      locality
+    ).toLocaleString('en-US')}`,
+  ].join('\n');
+}
+
+function describeGiBill(benefit: GiBillBenefit): string {
+  if (!benefit.percent) return 'Not eligible for the Post-9/11 GI Bill (under 90 days of service)';
+  return `Post-9/11 GI Bill at ${benefit.percent}%, ${benefit.entitlementMonths} months of entitlement left; housing allowance $${benefit.monthlyHousing.toLocaleString('en-US')}/month (${benefit.housingMarket}), books up to $${benefit.annualBookStipend.toLocaleString('en-US')}/year`;
+}
+
+const NUMBER_WORDS = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE'];
+
+/**
+ * Describe the requested pathway types as a numbered list for the prompt
+ */
+function describePathwayTypes(pathwayTypes: PathwayType[]): string {
+  return pathwayTypes
+    .map((type, index) => {
+      const { description, guidance } = PATHWAY_TYPE_DEFINITIONS[type];
+      const line = `${index + 1}. ${type.toUpperCase()} PATH: ${description}`;
+      return guidance ? `${line}\n   ${guidance}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * The veteran's free-text answers and salary market as JSON inside
+ * `<veteran_profile>` tags
+ *
+ * `<`, `>` and `&` are escaped as JSON unicode escapes, so no answer can close
+ * the tag and continue outside the data.
+ */
+function describeProfileData(profile: VeteranProfile, salaryMarket: string): string {
+  const answers = {
+    ...Object.fromEntries(PROFILE_FREE_TEXT_FIELDS.map((field) => [field, profile[field]])),
+    preferredLocations: profile.willingToRelocate ? profile.preferredLocations : [],
+    salaryMarket,
+  };
+  const json = JSON.stringify(answers, null, 2).replace(
+    /[<>&]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+  return `<veteran_profile>\n${json}\n</veteran_profile>`;
+}
+
+/**
+ * Variables for the analysis prompt
+ *
+ * Optional sections (separation date, VA rating, federal estimate) are empty
+ * strings when they do not apply. The free-text answers are only used by v1.
+ */
+export function analysisPromptVariables(
+  profile: VeteranProfile,
+  pathwayTypes: PathwayType[]
+): PromptVariables {
+  const { location } = selectMarket(profile);
+  const compensation = vaCompensationFor(profile);
+  const giBill = estimateGiBill({
+    yearsOfService: profile.yearsOfService,
+    monthsUsed: profile.giBillMonthsUsed,
+    location,
+  });
+
+  return {
+    pathwayCount: NUMBER_WORDS[pathwayTypes.length - 1] ?? pathwayTypes.length,
+    pathwayTypes: describePathwayTypes(pathwayTypes),
+    yearsOfService: profile.yearsOfService,
+    separationDate: profile.separationDate ?? '',
+    vaRating: compensation?.rating ?? '',
+    vaMonthlyCompensation: compensation
+      ? Math.round(compensation.monthly).toLocaleString('en-US')
+      : '',
+    crosswalk: describeCrosswalk(lookupMilitaryCode(profile.mos, profile.branch)),
+    federalEstimate: pathwayTypes.includes('federal-service')
+      ? describeFederalEstimate(profile, location)
+      : '',
+    dependents: profile.dependents,
+    willingToRelocate: profile.willingToRelocate ? 'Yes' : 'No',
+    educationBenefits: describeGiBill(giBill),
+    branch: profile.branch,
+    rank: profile.rank,
+    mos: profile.mos,
+    technicalSkills: profile.technicalSkills.join(', '),
+    certifications: profile.certifications.join(', '),
+    leadershipExperience: profile.leadershipExperience,
+    familyStatus: profile.familyStatus,
+    spouseEmployment: profile.spouseEmployment,
+    currentLocation: profile.currentLocation,
+    relocating: profile.willingToRelocate,
+    preferredLocations: profile.preferredLocations.join(', '),
+    salaryMarket: location,
+    careerGoals: profile.careerGoals,
+    incomeExpectations: profile.incomeExpectations,
+    educationInterest: profile.educationInterest,
+    timeline: profile.timeline,
+  };
+}
+
+/**
+ * Render the analysis prompt for a profile
+ *
+ * @param version - Template version (default: ANALYSIS_PROMPT_VERSION)
+ * @throws {Error} If the version does not exist or uses an unknown variable
+ */
+export function buildAnalysisPrompt(
+  profile: VeteranProfile,
+  pathwayTypes: PathwayType[],
+  version: string = getAnalyzerConfig().promptVersion
+): AnalysisPrompt {
+  const template = loadPromptTemplate(ANALYSIS_PROMPT, version);
+  const templatesAnswers = template.variables.some((variable) =>
+    (PROFILE_FREE_TEXT_FIELDS as readonly string[]).includes(variable)
+  );
+  return {
+    text: renderPrompt(template, analysisPromptVariables(profile, pathwayTypes)),
+    profileData: templatesAnswers
+      ? undefined
+      : describeProfileData(profile, selectMarket(profile).location),
+    version,
+  };
+}
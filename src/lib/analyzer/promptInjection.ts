@@ -0,0 +1,84 @@
+import { VeteranProfile } from './types';
+
+/**
+ * Prompt Injection Detection
+ *
+ * Flags free-text profile answers that look like attempts to give Claude
+ * instructions ("ignore previous instructions", fake system or chat markup,
+ * requests to reveal the prompt). Detection only flags: Real Mode already
+ * passes answers as delimited data, and blocking would reject veterans whose
+ * goals happen to match a pattern. Findings name the field and the pattern,
+ * never the text, so they can be logged without PII.
+ */
+
+export interface InjectionFinding {
+  /** Profile field, with the entry index for lists (e.g. `technicalSkills[2]`) */
+  field: string;
+  /** Id of the matching pattern */
+  pattern: string;
+}
+
+/**
+ * Profile fields typed by the veteran (or any API caller)
+ */
+export const PROFILE_FREE_TEXT_FIELDS = [
+  'branch',
+  'rank',
+  'mos',
+  'technicalSkills',
+  'certifications',
+  'leadershipExperience',
+  'familyStatus',
+  'spouseEmployment',
+  'currentLocation',
+  'preferredLocations',
+  'careerGoals',
+  'incomeExpectations',
+  'educationInterest',
+  'timeline',
+] as const satisfies readonly (keyof VeteranProfile)[];
+
+const INJECTION_PATTERNS: { id: string; pattern: RegExp }[] = [
+  {
+    id: 'override-instructions',
+    pattern:
+      /\b(ignore|disregard|forget|override)\b.{0,20}\b(previous|prior|above|earlier|all|any|system|your)\b.{0,20}\b(instructions?|prompts?|rules|directions)\b/i,
+  },
+  {
+    id: 'role-change',
+    pattern: /\b(you are now|from now on,? you|pretend (to be|you are)|new instructions?:)/i,
+  },
+  {
+    id: 'prompt-extraction',
+    pattern:
+      /\b(reveal|print|show|repeat|output|leak)\b.{0,30}\b(system prompt|(your|the) (prompt|instructions))\b/i,
+  },
+  {
+    id: 'chat-markup',
+    pattern:
+      /<\/?\s*(system|assistant|user|human|instructions?|veteran_profile)\b|\[\/?(INST|SYS)\]|<\|[a-z_]+\|>|^\s*(system|assistant|human)\s*:/im,
+  },
+  {
+    id: 'tool-manipulation',
+    pattern: /\b(emit_analysis|tool_use|tool_result|function_call)\b/i,
+  },
+];
+
+/**
+ * Find free-text answers that look like prompt injection attempts
+ */
+export function detectPromptInjection(profile: VeteranProfile): InjectionFinding[] {
+  return PROFILE_FREE_TEXT_FIELDS.flatMap((field) => {
+    const value = profile[field];
+    const entries = Array.isArray(value)
+      ? value.map((text, index) => ({ field: `${field}[${index}]`, text }))
+      : [{ field, text: value }];
+
+    return entries.flatMap(({ field, text }) =>
+      INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ id }) => ({
+        field,
+        pattern: id,
+      }))
+    );
+  });
+}
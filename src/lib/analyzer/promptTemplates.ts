@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * Prompt Templates
+ *
+ * Model prompts live as versioned text files in `content/prompts/`, named
+ * `<name>.<version>.txt` (e.g. `analysis.v2.txt`), so prompt changes are
+ * reviewed like any other content and every result can name the prompt that
+ * produced it. A new version is a new file; published versions are not edited.
+ *
+ * Templates use named variables:
+ * - `{{name}}` inserts a variable
+ * - `{{#name}}...{{/name}}` keeps its content only when the variable is set
+ *   (a non-empty string, a non-zero number or true); sections do not nest
+ *
+ * Rendering fails on any variable the caller did not provide, so a template and
+ * the code that fills it cannot silently drift apart.
+ *
+ * Usage:
+ *   const template = loadPromptTemplate('analysis', 'v2');
+ *   renderPrompt(template, { branch: 'Army', ... });
+ */
+
+export const DEFAULT_PROMPTS_DIR = path.join(process.cwd(), 'content', 'prompts');
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  text: string;
+  /** Every variable the template uses, in order of first use */
+  variables: string[];
+}
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+const FILE_NAME = /^([a-z][a-z0-9-]*)\.(v\d+)\.txt$/;
+const TAG = /\{\{([#/]?)(\w+)\}\}/g;
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+const cache = new Map<string, PromptTemplate>();
+
+/**
+ * List the prompt templates in a directory, ordered by name and version
+ */
+export function listPromptTemplates(
+  dir: string = DEFAULT_PROMPTS_DIR
+): { name: string; version: string }[] {
+  return readdirSync(dir)
+    .map((file) => file.match(FILE_NAME))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, name, version]) => ({ name, version }))
+    .sort((a, b) => a.name.localeCompare(b.name) || versionNumber(a) - versionNumber(b));
+}
+
+/**
+ * Read a prompt template (cached after the first read)
+ *
+ * @throws {Error} If the file does not exist or its sections are not balanced
+ */
+export function loadPromptTemplate(
+  name: string,
+  version: string,
+  dir: string = DEFAULT_PROMPTS_DIR
+): PromptTemplate {
+  const file = `${name}.${version}.txt`;
+  const filePath = path.join(dir, file);
+  const cached = cache.get(filePath);
+  if (cached) return cached;
+
+  let text: string;
+  try {
+    // A single trailing newline ends the file, not the prompt
+    text = readFileSync(filePath, 'utf8').replace(/\r?\n$/, '');
+  } catch {
+    throw new Error(`Unknown prompt template ${file}`);
+  }
+
+  const template = { name, version, text, variables: parseVariables(text, file) };
+  cache.set(filePath, template);
+  return template;
+}
+
+/**
+ * Fill a template's variables
+ *
+ * @throws {Error} If the template uses a variable missing from `variables`
+ */
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): string {
+  const missing = template.variables.filter((name) => !(name in variables));
+  if (missing.length) {
+    throw new Error(
+      `Prompt ${template.name}.${template.version} is missing variables: ${missing.join(', ')}`
+    );
+  }
+
+  return template.text
+    .replace(SECTION, (_, name: string, content: string) => (variables[name] ? content : ''))
+    .replace(VARIABLE, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        throw new Error(`Prompt ${template.name}.${template.version} has no value for ${name}`);
+      }
+      return String(value);
+    });
+}
+
+/**
+ * Collect the variables a template uses, checking that sections are balanced
+ */
+function parseVariables(text: string, file: string): string[] {
+  const variables = new Set<string>();
+  let openSection: string | undefined;
+
+  for (const [tag, kind, name] of text.matchAll(TAG)) {
+    if (kind === '#') {
+      if (openSection) {
+        throw new Error(`Prompt template ${file} nests section ${name} in ${openSection}`);
+      }
+      openSection = name;
+    } else if (kind === '/') {
+      if (name !== openSection) {
+        throw new Error(`Prompt template ${file} closes ${tag} without opening it`);
+      }
+      openSection = undefined;
+    }
+    variables.add(name);
+  }
+
+  if (openSection) {
+    throw new Error(`Prompt template ${file} does not close section ${openSection}`);
+  }
+  return [...variables];
+}
+
+function versionNumber({ version }: { version: string }): number {
+  return Number(version.slice(1));
+}
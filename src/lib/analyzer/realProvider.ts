@@ -1,56 +1,299 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AnalysisResult, AnalysisResultSchema, VeteranProfile } from './types';
+import { z } from 'zod';
+import {
+  AnalysisProgressEvent,
+  AnalysisResult,
+  AnalysisResultSchema,
+  CareerPathway,
+  CareerPathwaySchema,
+  VeteranProfile,
+} from './types';
+import { INCOME_PERIODS } from './income';
+import { FUNDING_SOURCES } from './cost';
+import { DEFAULT_PATHWAY_TYPES, PathwayType } from './pathwayTypes';
+import { localizePathway } from './costOfLiving';
+import { compareLocations } from './locationComparison';
+import { applyGiBill } from './giBill';
+import { scheduleRoadmap } from './milestones';
+import { addPreSeparationPhases } from './preSeparation';
+import { applyHouseholdIncome } from './householdIncome';
+import { createJsonStreamParser } from './streamingJson';
+import { AnalysisError, classifyError, withTimeout } from './errors';
+import { getAnalyzerConfig, modelRequestTimeout } from './config';
+import { analyzeDemoMode } from './demoProvider';
+import { buildAnalysisPrompt } from './prompt';
+import { detectPromptInjection } from './promptInjection';
+import { lookupMilitaryCode } from '../crosswalk';
+import { selectMarket } from '../costOfLiving';
+import { estimateGiBill } from '../benefits';
+import { logger } from '../logger';
 
 /**
- * Real Mode Provider - Calls Anthropic API for AI-powered analysis
- * Requires ANTHROPIC_API_KEY environment variable
+ * Follow-up requests made when emit_analysis input fails validation, each
+ * returning the issues to Claude as a tool_result error
  */
-export async function analyzeRealMode(profile: VeteranProfile): Promise<AnalysisResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY is required for Real Mode');
+export const MAX_REPAIR_ROUNDS = 2;
+
+/**
+ * JSON schema for a structured income range in the emit_analysis tool
+ */
+const incomeRangeInputSchema = {
+  type: 'object',
+  properties: {
+    min: { type: 'integer', description: 'Low end of the expected income' },
+    max: { type: 'integer', description: 'High end of the expected income' },
+    currency: { type: 'string', description: 'ISO 4217 currency code (USD)' },
+    period: {
+      type: 'string',
+      enum: [...INCOME_PERIODS],
+      description: 'Pay period the amounts refer to (use year for salaries)',
+    },
+  },
+  required: ['min', 'max', 'currency', 'period'],
+};
+
+/**
+ * JSON schema for a normalized duration in the emit_analysis tool
+ */
+const durationInputSchema = {
+  type: 'object',
+  properties: {
+    minMonths: { type: 'number', description: 'Shortest expected length in months' },
+    maxMonths: { type: 'number', description: 'Longest expected length in months' },
+    openEnded: {
+      type: 'boolean',
+      description:
+        'True if this continues indefinitely (e.g. "2+ years" or an ongoing career stage)',
+    },
+  },
+  required: ['minMonths', 'maxMonths', 'openEnded'],
+};
+
+/**
+ * JSON schema for a structured credential cost in the emit_analysis tool
+ */
+const credentialCostInputSchema = {
+  type: 'object',
+  properties: {
+    min: { type: 'integer', description: 'Low end of the sticker price' },
+    max: { type: 'integer', description: 'High end of the sticker price' },
+    currency: { type: 'string', description: 'ISO 4217 currency code (USD)' },
+    fundingSources: {
+      type: 'array',
+      items: { type: 'string', enum: [...FUNDING_SOURCES] },
+      description:
+        'Funding sources that can cover this credential (include out-of-pocket if the veteran may pay part of it)',
+    },
+    outOfPocket: {
+      type: 'object',
+      properties: {
+        min: { type: 'integer', description: 'Lowest likely out-of-pocket cost' },
+        max: { type: 'integer', description: 'Highest likely out-of-pocket cost' },
+      },
+      required: ['min', 'max'],
+      description: 'What the veteran is likely to pay after the listed funding sources',
+    },
+  },
+  required: ['min', 'max', 'currency', 'fundingSources', 'outOfPocket'],
+};
+
+type Validation = { success: true; result: AnalysisResult } | { success: false; issues: string };
+
+/**
+ * Validate emit_analysis input, checking that it has exactly the requested
+ * pathway types, and put the pathways in the requested order
+ */
+function validateAnalysis(input: unknown, pathwayTypes: PathwayType[]): Validation {
+  const parsed = AnalysisResultSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, issues: z.prettifyError(parsed.error) };
+  }
+
+  const received = parsed.data.pathways.map((pathway) => pathway.type);
+  const missing = pathwayTypes.filter((type) => !received.includes(type));
+  const unexpected = received.filter((type) => !pathwayTypes.includes(type));
+
+  if (missing.length || unexpected.length) {
+    return {
+      success: false,
+      issues: `Pathways do not match the request (missing: ${missing.join(', ') || 'none'}; unexpected: ${unexpected.join(', ') || 'none'})`,
+    };
   }
 
-  const anthropic = new Anthropic({ apiKey });
+  return {
+    success: true,
+    result: {
+      ...parsed.data,
+      pathways: pathwayTypes.map(
+        (type) => parsed.data.pathways.find((pathway) => pathway.type === type)!
+      ),
+    },
+  };
+}
+
+/**
+ * Collect whatever validates from failed emit_analysis inputs: the summary and
+ * each requested pathway, preferring the most recent round
+ */
+function salvageAnalysis(
+  inputs: unknown[],
+  pathwayTypes: PathwayType[]
+): { summary?: string; pathways: CareerPathway[] } {
+  let summary: string | undefined;
+  const pathways: CareerPathway[] = [];
+
+  for (const input of [...inputs].reverse()) {
+    if (typeof input !== 'object' || input === null) continue;
+    const { summary: candidate, pathways: items } = input as Record<string, unknown>;
+
+    if (summary === undefined && typeof candidate === 'string') summary = candidate;
+    if (!Array.isArray(items)) continue;
 
-  const prompt = `You are a career transition advisor for veterans. Analyze the following veteran profile and generate THREE distinct career pathways:
+    for (const item of items) {
+      const parsed = CareerPathwaySchema.safeParse(item);
+      if (
+        parsed.success &&
+        pathwayTypes.includes(parsed.data.type) &&
+        !pathways.some((pathway) => pathway.type === parsed.data.type)
+      ) {
+        pathways.push(parsed.data);
+      }
+    }
+  }
+
+  return { summary, pathways };
+}
+
+/**
+ * Whether a request failed because its model cannot serve it right now
+ * (unknown or retired model id, or the model is overloaded)
+ */
+function isModelUnavailable(error: unknown): boolean {
+  return (
+    (error as { status?: number }).status === 404 || classifyError(error).kind === 'overloaded'
+  );
+}
+
+/**
+ * Stream the emit_analysis call, reporting the summary and each requested
+ * pathway as soon as its part of the tool input is complete and validates
+ *
+ * @param finalizePathway - Post-processing applied to reported pathways
+ */
+async function streamAnalysis(
+  anthropic: Anthropic,
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  requestOptions: Anthropic.RequestOptions,
+  pathwayTypes: PathwayType[],
+  finalizePathway: (pathway: CareerPathway) => CareerPathway,
+  onProgress: (event: AnalysisProgressEvent) => void
+): Promise<Anthropic.Message> {
+  const reported = new Set<PathwayType>();
+  const parser = createJsonStreamParser(([key, index], value) => {
+    if (key === 'summary' && index === undefined && typeof value === 'string') {
+      onProgress({ type: 'summary', summary: value });
+      return;
+    }
+    if (key !== 'pathways' || index === undefined) return;
 
-1. FAST-INCOME PATH: Quick entry to workforce with immediate income
-2. BALANCED PATH: Mix of short-term income and long-term growth
-3. MAX-UPSIDE PATH: Higher investment in education/training for maximum career potential
+    const parsed = CareerPathwaySchema.safeParse(value);
+    if (!parsed.success || reported.has(parsed.data.type)) return;
+    const position = pathwayTypes.indexOf(parsed.data.type);
+    if (position < 0) return;
 
-VETERAN PROFILE:
-Branch: ${profile.branch}
-Years of Service: ${profile.yearsOfService}
-Rank: ${profile.rank}
-MOS/Job Code: ${profile.mos}
+    reported.add(parsed.data.type);
+    onProgress({ type: 'pathway', index: position, pathway: finalizePathway(parsed.data) });
+  });
 
-Technical Skills: ${profile.technicalSkills.join(', ')}
-Certifications: ${profile.certifications.join(', ')}
-Leadership Experience: ${profile.leadershipExperience}
+  const stream = anthropic.messages.stream(params, requestOptions);
+  stream.on('inputJson', (partialJson) => parser.push(partialJson));
+  return stream.finalMessage();
+}
 
-Family Status: ${profile.familyStatus}
-Dependents: ${profile.dependents}
-Spouse Employment: ${profile.spouseEmployment}
+export interface RealModeOptions {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  model?: string;
+  maxTokens?: number;
+}
 
-Current Location: ${profile.currentLocation}
-Willing to Relocate: ${profile.willingToRelocate ? 'Yes' : 'No'}
-${profile.willingToRelocate ? `Preferred Locations: ${profile.preferredLocations.join(', ')}` : ''}
+export interface RealModeAnalysis {
+  result: AnalysisResult;
+  /** Model that produced the final response */
+  model: string;
+  /** Prompt template version (see ANALYSIS_PROMPT_VERSION) */
+  promptVersion: string;
+}
 
-Career Goals: ${profile.careerGoals}
-Income Expectations: ${profile.incomeExpectations}
-Education Interest: ${profile.educationInterest}
-Timeline: ${profile.timeline}
+/**
+ * Real Mode Provider - Calls Anthropic API for AI-powered analysis
+ * Requires ANTHROPIC_API_KEY environment variable
+ *
+ * Makes a single attempt: retries and timeouts are handled by `analyzeProfile`,
+ * so the SDK's own retries are turned off. Output that fails validation is sent
+ * back for repair up to MAX_REPAIR_ROUNDS times; after that the pathways that
+ * validate are kept and missing ones are filled from Demo Mode, marked with
+ * `filledFrom: 'demo'`. Free-text answers that look like prompt injection are
+ * logged (see promptInjection.ts); they reach Claude only as delimited data.
+ *
+ * @param pathwayTypes - Pathways to generate, in display order
+ * @param options.onProgress - When given, the response is streamed and the
+ *   summary and each pathway are reported as they arrive
+ * @param options.signal - Aborts the request
+ * @param options.timeoutMs - Time limit for each model request, including
+ *   repairs (default: modelRequestTimeout for the token budget)
+ * @param options.model - Model to try before the configured ones (see ANALYSIS_MODELS)
+ * @param options.maxTokens - Output token budget (default: ANALYSIS_MAX_TOKENS)
+ * @returns The result, the model that produced it and the prompt version; when
+ *   a model is unavailable the next configured model is tried
+ * @throws {AnalysisError} invalid-output if no requested pathway validates
+ */
+export async function analyzeRealMode(
+  profile: VeteranProfile,
+  pathwayTypes: PathwayType[] = DEFAULT_PATHWAY_TYPES,
+  { onProgress, signal, timeoutMs, model, maxTokens }: RealModeOptions = {}
+): Promise<RealModeAnalysis> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is required for Real Mode');
+  }
 
-Call the tool emit_analysis with the complete analysis payload. Do not output prose. Make each pathway specific, actionable, and realistic. Consider the veteran's military background, skills, family situation, and goals. Include real job titles, actual certifications, and market-based salary ranges.`;
+  const config = getAnalyzerConfig();
+  const budget = maxTokens ?? config.maxTokens;
+  const requestTimeoutMs = timeoutMs ?? modelRequestTimeout(budget, config.timeoutMs);
+  // An explicit timeout also keeps the SDK from requiring streaming for large
+  // max_tokens budgets, which it does when it has to estimate one itself
+  const anthropic = new Anthropic({ apiKey, timeout: requestTimeoutMs });
+  const models = [...new Set(model ? [model, ...config.models] : config.models)];
+  let modelIndex = 0;
+  const { location, market } = selectMarket(profile);
+  const crosswalkMatches = lookupMilitaryCode(profile.mos, profile.branch);
+  const [crosswalkMatch] = crosswalkMatches;
+  const giBill = estimateGiBill({
+    yearsOfService: profile.yearsOfService,
+    monthsUsed: profile.giBillMonthsUsed,
+    location,
+  });
+  const prompt = buildAnalysisPrompt(profile, pathwayTypes);
+  const injectionFindings = detectPromptInjection(profile);
+  if (injectionFindings.length) {
+    logger.warn('Possible prompt injection in profile answers', {
+      findings: injectionFindings,
+      promptVersion: prompt.version,
+    });
+  }
 
-  const message = await anthropic.messages.create({
-    model: 'claude-opus-4-5-20251101',
-    max_tokens: 16000,
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: models[0],
+    max_tokens: budget,
     messages: [
       {
         role: 'user',
-        content: prompt,
+        content: [
+          { type: 'text', text: prompt.text },
+          ...(prompt.profileData ? [{ type: 'text' as const, text: prompt.profileData }] : []),
+        ],
       },
     ],
     tools: [
@@ -67,13 +310,15 @@ Call the tool emit_analysis with the complete analysis payload. Do not output pr
             },
             pathways: {
               type: 'array',
-              description: 'Three distinct career pathways',
+              description: `One career pathway for each requested type: ${pathwayTypes.join(', ')}`,
+              minItems: pathwayTypes.length,
+              maxItems: pathwayTypes.length,
               items: {
                 type: 'object',
                 properties: {
                   type: {
                     type: 'string',
-                    enum: ['fast-income', 'balanced', 'max-upside'],
+                    enum: pathwayTypes,
                     description: 'The type of pathway',
                   },
                   title: {
@@ -87,9 +332,18 @@ Call the tool emit_analysis with the complete analysis payload. Do not output pr
                   incomeTrajectory: {
                     type: 'object',
                     properties: {
-                      year1: { type: 'string', description: 'Expected income in year 1' },
-                      year3: { type: 'string', description: 'Expected income in year 3' },
-                      year5: { type: 'string', description: 'Expected income in year 5' },
+                      year1: {
+                        ...incomeRangeInputSchema,
+                        description: 'Expected income in year 1',
+                      },
+                      year3: {
+                        ...incomeRangeInputSchema,
+                        description: 'Expected income in year 3',
+                      },
+                      year5: {
+                        ...incomeRangeInputSchema,
+                        description: 'Expected income in year 5',
+                      },
                     },
                     required: ['year1', 'year3', 'year5'],
                   },
@@ -100,7 +354,7 @@ Call the tool emit_analysis with the complete analysis payload. Do not output pr
                       type: 'object',
                       properties: {
                         phase: { type: 'string', description: 'Phase name' },
-                        duration: { type: 'string', description: 'Duration of this phase' },
+                        duration: { ...durationInputSchema, description: 'Duration of this phase' },
                         steps: {
                           type: 'array',
                           items: { type: 'string' },
@@ -117,8 +371,8 @@ Call the tool emit_analysis with the complete analysis payload. Do not output pr
                       type: 'object',
                       properties: {
                         name: { type: 'string', description: 'Credential name' },
-                        timeline: { type: 'string', description: 'Time to obtain' },
-                        cost: { type: 'string', description: 'Estimated cost' },
+                        timeline: { ...durationInputSchema, description: 'Time to obtain' },
+                        cost: { ...credentialCostInputSchema, description: 'Estimated cost' },
                       },
                       required: ['name', 'timeline', 'cost'],
                     },
@@ -162,19 +416,165 @@ Call the tool emit_analysis with the complete analysis payload. Do not output pr
       type: 'tool',
       name: 'emit_analysis',
     },
-  });
+  };
 
-  // Extract tool use from response
-  const toolUse = message.content.find(
-    (block) => block.type === 'tool_use' && block.name === 'emit_analysis'
-  );
+  const finalize = (result: AnalysisResult): AnalysisResult => {
+    const localized = compareLocations(
+      {
+        ...result,
+        pathways: result.pathways.map((pathway) =>
+          localizePathway(
+            scheduleRoadmap(
+              addPreSeparationPhases(applyGiBill(pathway, giBill), {
+                separationDate: profile.separationDate,
+                location: profile.currentLocation,
+                careerField: crosswalkMatch?.careerField,
+              }),
+              profile.separationDate
+            ),
+            market
+          )
+        ),
+      },
+      profile,
+      crosswalkMatch?.careerField
+    );
 
-  if (!toolUse || toolUse.type !== 'tool_use') {
-    throw new Error('No tool use found in Claude response');
+    return applyHouseholdIncome(localized, profile);
+  };
+
+  const send = (
+    roundParams: Anthropic.MessageCreateParamsNonStreaming,
+    requestSignal: AbortSignal
+  ) => {
+    const requestOptions: Anthropic.RequestOptions = { signal: requestSignal, maxRetries: 0 };
+    return onProgress
+      ? streamAnalysis(
+          anthropic,
+          roundParams,
+          requestOptions,
+          pathwayTypes,
+          (pathway) => finalize({ summary: '', pathways: [pathway] }).pathways[0],
+          onProgress
+        )
+      : anthropic.messages.create(roundParams, requestOptions);
+  };
+
+  // Move down the model list when a model is unavailable; later rounds stay on it
+  const request = async (messages: Anthropic.MessageParam[]): Promise<Anthropic.Message> => {
+    for (;;) {
+      try {
+        return await withTimeout(
+          (requestSignal) =>
+            send({ ...params, model: models[modelIndex], messages }, requestSignal),
+          requestTimeoutMs,
+          signal
+        );
+      } catch (error) {
+        const fallbackModel = models[modelIndex + 1];
+        if (!fallbackModel || !isModelUnavailable(error)) throw error;
+
+        logger.warn('Model unavailable, trying the next configured model', {
+          model: models[modelIndex],
+          fallbackModel,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        modelIndex++;
+      }
+    }
+  };
+
+  const messages = [...params.messages];
+  const inputs: unknown[] = [];
+  let issues = 'No tool use found in Claude response';
+
+  for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+    if (round > 0) {
+      logger.warn('Claude response failed validation, requesting a repair', {
+        round,
+        issues,
+        promptVersion: prompt.version,
+      });
+    }
+
+    const message = await request(messages);
+    const toolUse = message.content.find(
+      (block) => block.type === 'tool_use' && block.name === 'emit_analysis'
+    );
+    if (!toolUse || toolUse.type !== 'tool_use') break;
+
+    inputs.push(toolUse.input);
+    const validation = validateAnalysis(toolUse.input, pathwayTypes);
+    if (validation.success) {
+      return {
+        result: finalize(validation.result),
+        model: models[modelIndex],
+        promptVersion: prompt.version,
+      };
+    }
+
+    // Send the issues back as a failed tool call and ask for a corrected one
+    issues = validation.issues;
+    messages.push(
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: toolUse.id, name: toolUse.name, input: toolUse.input }],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `The emit_analysis input failed validation:\n${issues}\n\nCall emit_analysis again with the complete, corrected analysis: one pathway of each type (${pathwayTypes.join(', ')}).`,
+          },
+        ],
+      }
+    );
   }
 
-  // Validate response with Zod
-  const result = AnalysisResultSchema.parse(toolUse.input);
+  // Last resort: keep the pathways that validate and fill the rest from Demo Mode
+  const salvaged = salvageAnalysis(inputs, pathwayTypes);
+  if (!salvaged.pathways.length) {
+    throw new AnalysisError('invalid-output', `Claude response failed validation: ${issues}`);
+  }
+
+  const missing = pathwayTypes.filter(
+    (type) => !salvaged.pathways.some((pathway) => pathway.type === type)
+  );
+  const demo =
+    missing.length || salvaged.summary === undefined
+      ? await analyzeDemoMode(profile, missing)
+      : undefined;
+  const filled = (demo?.pathways ?? []).map((pathway) => ({
+    ...pathway,
+    filledFrom: 'demo' as const,
+  }));
+  logger.warn('Claude response could not be repaired, filling pathways from Demo Mode', {
+    filled: missing,
+    issues,
+    promptVersion: prompt.version,
+  });
+
+  const result = finalize({
+    summary: salvaged.summary ?? demo?.summary ?? '',
+    pathways: salvaged.pathways,
+  });
+  filled.forEach((pathway) =>
+    onProgress?.({ type: 'pathway', index: pathwayTypes.indexOf(pathway.type), pathway })
+  );
 
-  return result;
+  return {
+    result: {
+      ...result,
+      pathways: pathwayTypes.map(
+        (type) =>
+          result.pathways.find((pathway) => pathway.type === type) ??
+          filled.find((pathway) => pathway.type === type)!
+      ),
+    },
+    model: models[modelIndex],
+    promptVersion: prompt.version,
+  };
 }
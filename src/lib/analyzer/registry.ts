@@ -0,0 +1,163 @@
+import { AnalysisProgressEvent, AnalysisResult, VeteranProfile } from './types';
+import { PathwayType } from './pathwayTypes';
+import { analyzeDemoMode } from './demoProvider';
+import { analyzeRealMode, MAX_REPAIR_ROUNDS } from './realProvider';
+import { getAnalyzerConfig } from './config';
+import { logger } from '../logger';
+
+/**
+ * Analysis Provider Registry
+ *
+ * Providers are registered by name and tried in the order given by the
+ * configured fallback chain (see `ANALYSIS_PROVIDERS` in config.ts).
+ *
+ * Usage:
+ *   registerProvider({ name: 'cached', description: '...', isAvailable, analyze });
+ *   // ANALYSIS_PROVIDERS=real,cached,demo
+ */
+export interface AnalysisProvider {
+  /** Unique provider name, referenced by the fallback chain */
+  name: string;
+  /** Human-readable description, reported by /api/mode */
+  description: string;
+  /** Whether the provider can serve requests in the current environment */
+  isAvailable(): boolean;
+  /**
+   * Most model requests one attempt makes (default: 1); the attempt may run for
+   * `ANALYSIS_TIMEOUT_MS` per request
+   */
+  maxRequests?: number;
+  /** Analyze a veteran profile */
+  analyze(profile: VeteranProfile, options?: ProviderOptions): Promise<ProviderAnalysis>;
+}
+
+/**
+ * Per-request options passed to providers, already resolved from the request
+ */
+export interface ProviderOptions {
+  /** Pathways to generate, in display order */
+  pathwayTypes: PathwayType[];
+  /**
+   * Set for streaming requests; providers that can stream report the summary
+   * and each pathway as soon as they are ready
+   */
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  /** Aborted when the attempt times out; providers should stop work when it fires */
+  signal?: AbortSignal;
+  /** Time limit for each model request (ANALYSIS_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Per-request model and token budget overrides (authorized callers only) */
+  model?: string;
+  maxTokens?: number;
+}
+
+/**
+ * Provider output: the result plus provider-specific provenance details
+ */
+export interface ProviderAnalysis {
+  result: AnalysisResult;
+  model?: string;
+  promptVersion?: string;
+  templateId?: string;
+}
+
+const providers = new Map<string, AnalysisProvider>();
+
+/**
+ * Register an analysis provider
+ *
+ * @throws {Error} If a provider with the same name is already registered
+ */
+export function registerProvider(provider: AnalysisProvider): void {
+  const name = provider.name.toLowerCase();
+  if (providers.has(name)) {
+    throw new Error(`Analysis provider "${name}" is already registered`);
+  }
+  providers.set(name, provider);
+}
+
+/**
+ * Remove a provider from the registry (useful for testing)
+ */
+export function unregisterProvider(name: string): void {
+  providers.delete(name.toLowerCase());
+}
+
+/**
+ * Look up a registered provider by name
+ */
+export function getProvider(name: string): AnalysisProvider | undefined {
+  return providers.get(name.toLowerCase());
+}
+
+/**
+ * List all registered providers in registration order
+ */
+export function listProviders(): AnalysisProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Resolve the configured fallback chain to registered providers
+ *
+ * Unknown provider names are skipped with a warning so a typo in
+ * configuration degrades to the remaining providers instead of failing.
+ */
+export function getProviderChain(): AnalysisProvider[] {
+  const { providerChain } = getAnalyzerConfig();
+
+  return providerChain.flatMap((name) => {
+    const provider = getProvider(name);
+    if (!provider) {
+      logger.warn('Unknown analysis provider in chain', { provider: name });
+      return [];
+    }
+    return [provider];
+  });
+}
+
+/**
+ * Get the providers in the chain that can currently serve requests
+ */
+export function getAvailableProviders(): AnalysisProvider[] {
+  return getProviderChain().filter((provider) => provider.isAvailable());
+}
+
+/**
+ * Get the provider that will be tried first for the next request
+ */
+export function getActiveProvider(): AnalysisProvider | undefined {
+  return getAvailableProviders()[0];
+}
+
+/**
+ * Built-in providers
+ */
+export const realAnalysisProvider: AnalysisProvider = {
+  name: 'real',
+  description: 'Running in Real Mode - using Anthropic AI for personalized analysis',
+  isAvailable: () => Boolean(process.env.ANTHROPIC_API_KEY),
+  // The first request plus the repair rounds
+  maxRequests: MAX_REPAIR_ROUNDS + 1,
+  analyze: (profile, options) =>
+    analyzeRealMode(profile, options?.pathwayTypes, {
+      onProgress: options?.onProgress,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+      model: options?.model,
+      maxTokens: options?.maxTokens,
+    }),
+};
+
+export const demoAnalysisProvider: AnalysisProvider = {
+  name: 'demo',
+  description: 'Running in Demo Mode - using deterministic templates (no API key required)',
+  isAvailable: () => true,
+  analyze: async (profile, options) => {
+    const result = await analyzeDemoMode(profile, options?.pathwayTypes);
+    return { result, templateId: result.templateRanking?.[0]?.templateId };
+  },
+};
+
+registerProvider(realAnalysisProvider);
+registerProvider(demoAnalysisProvider);
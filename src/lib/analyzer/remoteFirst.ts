@@ -0,0 +1,116 @@
+import type { CareerPathway, PathwayTemplate, RemoteRole, VeteranProfile } from './types';
+import { annualIncome } from './income';
+import { credentialCost } from './cost';
+import { durationMonths } from './duration';
+
+/**
+ * Remote-First Pathway
+ *
+ * Demo generator for the `remote-first` pathway type: a fully remote role in the
+ * template's career family, so the career does not depend on where the family
+ * lives. Pay is national (see costOfLiving.ts), and the roadmap adds the habits
+ * remote employers screen for on top of the role's credentials.
+ */
+
+/**
+ * Remote role used when a template does not suggest one
+ */
+export const DEFAULT_REMOTE_ROLE: RemoteRole = {
+  title: 'Remote Project Coordinator',
+  description: 'Coordinates schedules, budgets and people for distributed project teams.',
+  startingSalary: 55000,
+  credentials: [
+    {
+      name: 'Google Project Management Certificate',
+      timeline: durationMonths(3, 6),
+      cost: credentialCost(150, 300),
+    },
+    {
+      name: 'CAPM (Certified Associate in Project Management)',
+      timeline: durationMonths(2, 3),
+      cost: credentialCost(225, 300, ['cool', 'out-of-pocket'], { min: 0, max: 300 }),
+    },
+  ],
+};
+
+/**
+ * Describe what working from home means for this family
+ */
+function describeFamilyImpact(profile: VeteranProfile): string {
+  const notes = [
+    profile.willingToRelocate
+      ? "Lets the family move for a spouse's career or cost of living without a job search."
+      : `Lets you stay in ${profile.currentLocation} without limiting the roles you can apply for.`,
+  ];
+
+  if (profile.dependents > 0) {
+    notes.push('Needs a quiet workspace and set hours, with childcare during the workday.');
+  } else {
+    notes.push('Needs a quiet workspace and set hours.');
+  }
+
+  return notes.join(' ');
+}
+
+/**
+ * Generate the remote-first pathway for a template
+ */
+export function generateRemoteFirst(
+  profile: VeteranProfile,
+  template: PathwayTemplate
+): CareerPathway {
+  const role = template.remote ?? DEFAULT_REMOTE_ROLE;
+  const baseIncome = role.startingSalary;
+  const [firstCredential] = role.credentials;
+  const [topSkill] = profile.technicalSkills;
+
+  return {
+    type: 'remote-first',
+    title: role.title,
+    description: `${role.description} Fully remote, so your career does not depend on where the family lives.`,
+    incomeTrajectory: {
+      year1: annualIncome(baseIncome, baseIncome + 10000),
+      year3: annualIncome(baseIncome + 10000, baseIncome + 25000),
+      year5: annualIncome(baseIncome + 25000, baseIncome + 45000),
+    },
+    roadmap: [
+      {
+        phase: 'Remote-Ready Skills',
+        duration: durationMonths(2, 3),
+        steps: [
+          `Earn the ${firstCredential.name}`,
+          'Learn common remote tools (Slack, Jira, Zoom) and practice written status reports',
+          'Set up a dedicated workspace and reliable internet at home',
+        ],
+      },
+      {
+        phase: 'Remote Job Search',
+        duration: durationMonths(2, 4),
+        steps: [
+          `Filter searches for ${role.title} to remote-only roles`,
+          topSkill
+            ? `Show self-directed work with ${topSkill} on your resume`
+            : 'Show self-directed work and written communication on your resume',
+          'Network through veteran career communities and remote job boards',
+        ],
+      },
+      {
+        phase: 'Build a Remote Track Record',
+        duration: durationMonths(12),
+        steps: [
+          'Report progress in writing without being asked',
+          'Volunteer for cross-team projects to stay visible',
+          `Grow toward senior ${role.title} roles or team lead`,
+        ],
+      },
+    ],
+    requiredCredentials: role.credentials,
+    familyImpact: {
+      timeCommitment: 'Moderate (40 hrs/week from home)',
+      flexibility: 'Very High - no commute, location independent',
+      stability: 'Moderate - remote roles are competitive',
+      notes: describeFamilyImpact(profile),
+    },
+    whyThisPath: `Remote work keeps your career portable. Your ${template.skillArea} background carries into the role, and ${template.leadershipValue} is what distributed teams need most.`,
+  };
+}
@@ -0,0 +1,51 @@
+import type { AnalysisStreamEvent } from './types';
+
+/**
+ * Server-Sent Events
+ *
+ * Wire format for streaming analysis: each AnalysisStreamEvent is sent as one
+ * SSE message named after its `type`, with the event as JSON data. Safe to
+ * import from client components.
+ */
+
+/**
+ * Format an event as an SSE message
+ */
+export function formatServerSentEvent(event: AnalysisStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read analysis events from an SSE response body until the stream ends
+ *
+ * Only `data` fields are read, since each event's JSON carries its type.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (message: string) => {
+    const data = message
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) onEvent(JSON.parse(data) as AnalysisStreamEvent);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split(/\r?\n\r?\n/);
+    buffer = messages.pop() ?? '';
+    messages.forEach(dispatch);
+  }
+
+  dispatch(buffer + decoder.decode());
+}
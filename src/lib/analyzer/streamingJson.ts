@@ -0,0 +1,141 @@
+/**
+ * Incremental JSON Parsing
+ *
+ * Reads a JSON document as it streams in (e.g. the `emit_analysis` tool input
+ * arriving as `input_json_delta` chunks) and reports each string, object or
+ * array near the top of the document as soon as it is complete, so the
+ * summary and each pathway can be shown before the rest has arrived.
+ *
+ * Usage:
+ *   const parser = createJsonStreamParser((path, value) => {
+ *     // ['summary'] → string, ['pathways', 0] → first pathway object
+ *   });
+ *   parser.push('{"summary": "Strong');
+ *   parser.push(' candidate", "pathways": [{...}, ');
+ */
+
+/** Location of a value: object keys and array indexes from the root */
+export type JsonPath = (string | number)[];
+
+export interface JsonStreamParser {
+  /** Feed the next chunk of the document */
+  push(chunk: string): void;
+}
+
+interface Container {
+  type: 'object' | 'array';
+  /** Offset of the opening brace or bracket */
+  start: number;
+  path: JsonPath;
+  /** Current key (objects) */
+  key?: string;
+  /** Current index (arrays) */
+  index: number;
+  /** Whether the next string in an object is a key */
+  expectKey: boolean;
+}
+
+/**
+ * Create an incremental parser for one JSON document
+ *
+ * Numbers, booleans and null are not reported. Values that are not valid JSON
+ * once complete are skipped, and the final document should still be parsed
+ * and validated as a whole.
+ *
+ * @param onValue - Called with each completed value and its path
+ * @param maxDepth - Deepest path to report (2 reports `pathways[0]` but not `pathways[0].title`)
+ */
+export function createJsonStreamParser(
+  onValue: (path: JsonPath, value: unknown) => void,
+  maxDepth = 2
+): JsonStreamParser {
+  let text = '';
+  const stack: Container[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+
+  const currentPath = (): JsonPath =>
+    stack.map((container) =>
+      container.type === 'object' ? (container.key ?? '') : container.index
+    );
+
+  const report = (path: JsonPath, start: number, end: number) => {
+    if (!path.length || path.length > maxDepth) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(text.slice(start, end));
+    } catch {
+      // Malformed values are left to the final parse
+      return;
+    }
+    onValue(path, value);
+  };
+
+  const readString = (end: number) => {
+    const top = stack[stack.length - 1];
+    if (top?.type === 'object' && top.expectKey) {
+      try {
+        top.key = JSON.parse(text.slice(stringStart, end));
+      } catch {
+        top.key = '';
+      }
+      return;
+    }
+    report(currentPath(), stringStart, end);
+  };
+
+  return {
+    push(chunk: string) {
+      const offset = text.length;
+      text += chunk;
+
+      for (let position = offset; position < text.length; position++) {
+        const char = text[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            readString(position + 1);
+          }
+          continue;
+        }
+
+        const top = stack[stack.length - 1];
+        switch (char) {
+          case '"':
+            inString = true;
+            stringStart = position;
+            break;
+          case '{':
+          case '[':
+            stack.push({
+              type: char === '{' ? 'object' : 'array',
+              start: position,
+              path: currentPath(),
+              index: 0,
+              expectKey: char === '{',
+            });
+            break;
+          case '}':
+          case ']': {
+            const container = stack.pop();
+            if (container) report(container.path, container.start, position + 1);
+            break;
+          }
+          case ':':
+            if (top?.type === 'object') top.expectKey = false;
+            break;
+          case ',':
+            if (top?.type === 'object') top.expectKey = true;
+            if (top?.type === 'array') top.index++;
+            break;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import {
+  AnalysisResult,
+  AnalysisResultSchema,
+  CareerPathway,
+  PathwayTemplate,
+  VeteranProfile,
+} from './types';
+import { renderDemoTemplate } from './templateRenderer';
+import { scoreTemplate } from './templateScoring';
+import { DEFAULT_PATHWAY_TYPES, PATHWAY_TYPES, PathwayType } from './pathwayTypes';
+import { CAREER_FIELDS, CareerField, CrosswalkEntry, listCrosswalkEntries } from '../crosswalk';
+
+/**
+ * Template Audit
+ *
+ * Checks used by the template authoring CLI (`npm run templates`): content lint,
+ * crosswalk coverage and previews of rendered output. Schema validation itself
+ * happens in templateLoader.ts.
+ */
+
+export type AuditSeverity = 'error' | 'warning';
+
+export interface AuditIssue {
+  templateId: string;
+  severity: AuditSeverity;
+  message: string;
+}
+
+/**
+ * Profile used to preview templates when none is given
+ */
+export const SAMPLE_PROFILE: VeteranProfile = {
+  branch: 'Army',
+  yearsOfService: 8,
+  rank: 'E-6',
+  mos: '11B',
+  technicalSkills: ['Leadership', 'Training'],
+  certifications: [],
+  leadershipExperience: 'Squad leader responsible for 9 soldiers',
+  familyStatus: 'Married',
+  dependents: 2,
+  spouseEmployment: 'Part-time',
+  currentLocation: 'Fort Liberty, NC',
+  willingToRelocate: false,
+  preferredLocations: [],
+  careerGoals: 'Stable career with growth potential',
+  incomeExpectations: '$60,000+',
+  educationInterest: 'Certifications',
+  timeline: '6 months',
+};
+
+/**
+ * Profile variations that exercise every customization branch of the renderer
+ * (market pricing, education add-ons, seniority adjustments)
+ */
+const LINT_PROFILES: VeteranProfile[] = [
+  SAMPLE_PROFILE,
+  {
+    ...SAMPLE_PROFILE,
+    yearsOfService: 20,
+    willingToRelocate: true,
+    preferredLocations: ['Seattle, WA'],
+    educationInterest: "Bachelor's degree",
+  },
+  { ...SAMPLE_PROFILE, yearsOfService: 3, educationInterest: "Master's degree" },
+];
+
+const PATHWAY_OPTIONS = ['fastIncome', 'balanced', 'maxUpside'] as const;
+
+const TRAJECTORY_YEARS = ['year1', 'year3', 'year5'] as const;
+
+/**
+ * Find places where an income trajectory goes down over time
+ */
+export function findIncomeDecreases(pathway: CareerPathway): string[] {
+  const { incomeTrajectory } = pathway;
+
+  return TRAJECTORY_YEARS.slice(1).flatMap((year, index) => {
+    const previousYear = TRAJECTORY_YEARS[index];
+    const previous = incomeTrajectory[previousYear];
+    const current = incomeTrajectory[year];
+
+    return current.min < previous.min || current.max < previous.max
+      ? [`${pathway.type} salary decreases from ${previousYear} to ${year}`]
+      : [];
+  });
+}
+
+/**
+ * Lint a template for incomplete roadmaps and credentials, unreachable
+ * signals and decreasing salary progressions
+ */
+export function lintPathwayTemplate(template: PathwayTemplate): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  const report = (severity: AuditSeverity, message: string) =>
+    issues.push({ templateId: template.id, severity, message });
+
+  for (const option of PATHWAY_OPTIONS) {
+    const { roadmap, credentials } = template[option];
+
+    if (roadmap.length < 2) {
+      report('warning', `${option}.roadmap has only ${roadmap.length} phase`);
+    }
+    roadmap.forEach((phase, index) => {
+      if (!phase.steps.length) {
+        report('error', `${option}.roadmap[${index}] "${phase.phase}" has no steps`);
+      }
+    });
+
+    credentials.forEach((credential, index) => {
+      const label = `${option}.credentials[${index}] "${credential.name}"`;
+      const { cost } = credential;
+
+      if (cost.outOfPocket.max > cost.max) {
+        report('error', `${label} out-of-pocket cost exceeds its price`);
+      }
+      if (cost.outOfPocket.max < cost.outOfPocket.min) {
+        report('error', `${label} out-of-pocket max is below min`);
+      }
+      if (cost.max > 0 && !cost.fundingSources.length) {
+        report('warning', `${label} has a price but no funding sources`);
+      }
+    });
+  }
+
+  const { signals } = template;
+  if (!signals.careerFields.length && !signals.codePrefixes.length) {
+    report(
+      'warning',
+      'signals have no career fields or code prefixes; only keywords can select it'
+    );
+  }
+
+  const rendered = LINT_PROFILES.map((profile) =>
+    renderDemoTemplate(profile, template, [...PATHWAY_TYPES])
+  );
+  const decreases = new Set(
+    rendered.flatMap((result) => result.pathways.flatMap(findIncomeDecreases))
+  );
+  decreases.forEach((message) => report('error', message));
+
+  const upsideBelowFastIncome = rendered.some(({ pathways }) => {
+    const year5 = (type: CareerPathway['type']) =>
+      pathways.find((pathway) => pathway.type === type)?.incomeTrajectory.year5.max ?? 0;
+    return year5('max-upside') < year5('fast-income');
+  });
+  if (upsideBelowFastIncome) {
+    report('warning', 'maxUpside reaches a lower year-5 salary than fastIncome');
+  }
+
+  return issues;
+}
+
+export interface CareerFieldCoverage {
+  careerField: CareerField;
+  /** Templates listing this field first in their signals */
+  primaryTemplates: string[];
+  /** Templates listing this field as a related field */
+  relatedTemplates: string[];
+  /** Crosswalk codes in this field */
+  codes: CrosswalkEntry[];
+}
+
+/**
+ * Report which crosswalk career fields (MOS families) each template covers
+ */
+export function buildCoverageReport(
+  templates: PathwayTemplate[],
+  entries: CrosswalkEntry[] = listCrosswalkEntries()
+): CareerFieldCoverage[] {
+  return CAREER_FIELDS.map((careerField) => ({
+    careerField,
+    primaryTemplates: templates
+      .filter((template) => template.signals.careerFields[0] === careerField)
+      .map((template) => template.id),
+    relatedTemplates: templates
+      .filter((template) => template.signals.careerFields.slice(1).includes(careerField))
+      .map((template) => template.id),
+    codes: entries.filter((entry) => entry.careerField === careerField),
+  }));
+}
+
+/**
+ * Render a template for a profile exactly as analyzeDemoMode would if the
+ * template were ranked first
+ *
+ * @throws {z.ZodError} If the rendered output does not match AnalysisResultSchema
+ */
+export function previewTemplate(
+  template: PathwayTemplate,
+  profile: VeteranProfile = SAMPLE_PROFILE,
+  pathwayTypes: PathwayType[] = DEFAULT_PATHWAY_TYPES
+): AnalysisResult {
+  return AnalysisResultSchema.parse({
+    ...renderDemoTemplate(profile, template, pathwayTypes),
+    templateRanking: [scoreTemplate(profile, template)],
+  });
+}
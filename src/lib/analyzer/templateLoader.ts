@@ -0,0 +1,78 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { PathwayTemplate, PathwayTemplateSchema } from './types';
+
+/**
+ * Demo Template Loader
+ *
+ * Demo pathway templates live as one JSON file per career family in
+ * `content/pathway-templates/`. Every file is validated against
+ * `PathwayTemplateSchema` when the demo provider loads; any invalid file stops
+ * loading with an error naming the file and the failing fields, so broken
+ * content never reaches users. Adding a template only requires adding a file.
+ *
+ * Durations and credential timelines may be written as strings ("6-8 weeks",
+ * "2+ years", "Ongoing"); they are normalized by the schema.
+ */
+
+export const DEFAULT_TEMPLATES_DIR = path.join(process.cwd(), 'content', 'pathway-templates');
+
+/**
+ * List the template files in a directory, ordered by file name
+ */
+export function listPathwayTemplateFiles(dir: string = DEFAULT_TEMPLATES_DIR): string[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+}
+
+/**
+ * Read and validate a single template file
+ *
+ * @throws {Error} If the file is not valid JSON, fails schema validation or has
+ * an id that differs from its file name
+ */
+export function readPathwayTemplate(filePath: string): PathwayTemplate {
+  const file = path.basename(filePath);
+
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Pathway template ${file} is not valid JSON: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  const parsed = PathwayTemplateSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new Error(`Pathway template ${file} is invalid:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const expectedId = path.basename(file, '.json');
+  if (parsed.data.id !== expectedId) {
+    throw new Error(
+      `Pathway template ${file} has id "${parsed.data.id}"; expected "${expectedId}"`
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Load and validate every template in a directory, ordered by file name
+ *
+ * @throws {Error} If the directory has no templates or any template is invalid
+ */
+export function loadPathwayTemplates(dir: string = DEFAULT_TEMPLATES_DIR): PathwayTemplate[] {
+  const files = listPathwayTemplateFiles(dir);
+
+  if (!files.length) {
+    throw new Error(`No pathway templates found in ${dir}`);
+  }
+
+  return files.map((file) => readPathwayTemplate(path.join(dir, file)));
+}
@@ -0,0 +1,296 @@
+import { AnalysisResult, CareerPathway, PathwayTemplate, VeteranProfile } from './types';
+import { annualIncome } from './income';
+import { credentialCost } from './cost';
+import { durationMonths, ongoing } from './duration';
+import { DEFAULT_PATHWAY_TYPES, PathwayType } from './pathwayTypes';
+import { generateEntrepreneurship } from './entrepreneurship';
+import { generateFederalService } from './federalService';
+import { generateRemoteFirst } from './remoteFirst';
+import { localizePathway } from './costOfLiving';
+import { compareLocations } from './locationComparison';
+import { applyGiBill } from './giBill';
+import { scheduleRoadmap } from './milestones';
+import { addPreSeparationPhases } from './preSeparation';
+import { applyHouseholdIncome } from './householdIncome';
+import { CrosswalkEntry, lookupMilitaryCode } from '../crosswalk';
+import { isNationalAverage, MetroMarket, selectMarket } from '../costOfLiving';
+import { estimateGiBill } from '../benefits';
+
+/**
+ * Demo Template Renderer
+ *
+ * Turns a pathway template into a full analysis for a profile. Kept separate
+ * from template loading so tooling can render templates that are not bundled.
+ */
+
+interface RenderContext {
+  profile: VeteranProfile;
+  template: PathwayTemplate;
+  hasHighEducationInterest: boolean;
+  /** Location pathways are priced for (current or best preferred location) */
+  location: string;
+}
+
+/**
+ * One generator per registered pathway type (see pathwayTypes.ts)
+ */
+const PATHWAY_GENERATORS: Record<PathwayType, (context: RenderContext) => CareerPathway> = {
+  'fast-income': ({ profile, template }) => generateFastIncome(profile, template),
+  balanced: ({ profile, template, hasHighEducationInterest }) =>
+    generateBalanced(profile, template, hasHighEducationInterest),
+  'max-upside': ({ profile, template, hasHighEducationInterest }) =>
+    generateMaxUpside(profile, template, hasHighEducationInterest, profile.yearsOfService),
+  entrepreneurship: ({ profile, template }) => generateEntrepreneurship(profile, template),
+  'federal-service': ({ profile, template, location }) =>
+    generateFederalService(profile, template, location),
+  'remote-first': ({ profile, template }) => generateRemoteFirst(profile, template),
+  'continued-service': ({ profile, template }) => generateContinuedService(profile, template),
+};
+
+/**
+ * Render a template into summary and pathways, customized for the profile
+ *
+ * Template salaries are national figures; each pathway is priced for the
+ * veteran's market and carries cost-of-living-adjusted incomes, plus a
+ * per-location breakdown when the veteran is comparing locations. GI Bill
+ * funded credentials are costed for the veteran's benefit level, and when a
+ * separation date is known roadmaps open with pre-separation programs and
+ * every phase is dated from it. VA disability compensation is added as
+ * baseline household income.
+ *
+ * @param pathwayTypes - Pathways to generate, in display order
+ */
+export function renderDemoTemplate(
+  profile: VeteranProfile,
+  template: PathwayTemplate,
+  pathwayTypes: PathwayType[] = DEFAULT_PATHWAY_TYPES
+): AnalysisResult {
+  const [crosswalkMatch] = lookupMilitaryCode(profile.mos, profile.branch);
+
+  // Customize based on profile characteristics
+  const hasHighEducationInterest =
+    profile.educationInterest.toLowerCase().includes('bachelor') ||
+    profile.educationInterest.toLowerCase().includes('master');
+
+  const { location, market } = selectMarket(profile);
+  const context: RenderContext = { profile, template, hasHighEducationInterest, location };
+  const careerField = crosswalkMatch?.careerField ?? template.signals.careerFields[0];
+  const giBill = estimateGiBill({
+    yearsOfService: profile.yearsOfService,
+    monthsUsed: profile.giBillMonthsUsed,
+    location,
+  });
+  const preSeparation = {
+    separationDate: profile.separationDate,
+    location: profile.currentLocation,
+    careerField,
+  };
+
+  const result = compareLocations(
+    {
+      summary: generateSummary(profile, template, market, crosswalkMatch),
+      pathways: pathwayTypes.map((type) => {
+        const pathway = addPreSeparationPhases(
+          applyGiBill(PATHWAY_GENERATORS[type](context), giBill),
+          preSeparation
+        );
+        return localizePathway(scheduleRoadmap(pathway, profile.separationDate), market, {
+          scaleWages: true,
+        });
+      }),
+    },
+    profile,
+    careerField
+  );
+
+  return applyHouseholdIncome(result, profile);
+}
+
+function describeCrosswalkMatch(match: CrosswalkEntry | undefined): string {
+  if (!match) return '';
+  const occupations = match.occupations
+    .slice(0, 3)
+    .map((occupation) => occupation.title)
+    .join('; ');
+  return ` Your ${match.title} experience maps to civilian occupations such as ${occupations}.`;
+}
+
+function describeMarket(market: MetroMarket): string {
+  return isNationalAverage(market)
+    ? ''
+    : ` Salaries are priced for the ${market.name} market, with cost-of-living-adjusted figures for comparison.`;
+}
+
+function generateSummary(
+  profile: VeteranProfile,
+  template: PathwayTemplate,
+  market: MetroMarket,
+  crosswalkMatch?: CrosswalkEntry
+): string {
+  return `Based on your ${profile.yearsOfService} years of service as ${profile.rank} in the ${profile.branch} (MOS: ${profile.mos}), you have strong ${template.skillArea} skills that translate well to civilian careers. Your ${profile.leadershipExperience.toLowerCase()} positions you well for roles requiring ${template.leadershipValue}.${describeCrosswalkMatch(crosswalkMatch)} ${
+    profile.willingToRelocate
+      ? 'Your flexibility to relocate opens up opportunities in high-demand markets.'
+      : `Focusing on opportunities in ${profile.currentLocation} and surrounding areas.`
+  }${describeMarket(market)}`;
+}
+
+function generateFastIncome(
+  profile: VeteranProfile,
+  template: PathwayTemplate
+): AnalysisResult['pathways'][0] {
+  const baseIncome = template.fastIncome.startingSalary;
+
+  return {
+    type: 'fast-income',
+    title: template.fastIncome.title,
+    description: template.fastIncome.description,
+    incomeTrajectory: {
+      year1: annualIncome(baseIncome, baseIncome + 10000),
+      year3: annualIncome(baseIncome + 15000, baseIncome + 25000),
+      year5: annualIncome(baseIncome + 30000, baseIncome + 45000),
+    },
+    roadmap: template.fastIncome.roadmap,
+    requiredCredentials: template.fastIncome.credentials,
+    familyImpact: {
+      timeCommitment: 'Low (40-45 hrs/week)',
+      flexibility: 'High - stable schedule',
+      stability: 'High - immediate employment',
+      notes: 'Ideal for veterans needing quick income with family responsibilities.',
+    },
+    whyThisPath: template.fastIncome.whyThisPath,
+  };
+}
+
+function generateBalanced(
+  profile: VeteranProfile,
+  template: PathwayTemplate,
+  hasHighEducationInterest: boolean
+): AnalysisResult['pathways'][0] {
+  const educationBonus = hasHighEducationInterest ? 10000 : 0;
+  const baseIncome = template.balanced.startingSalary + educationBonus;
+
+  return {
+    type: 'balanced',
+    title: template.balanced.title,
+    description: template.balanced.description,
+    incomeTrajectory: {
+      year1: annualIncome(baseIncome, baseIncome + 12000),
+      year3: annualIncome(baseIncome + 20000, baseIncome + 35000),
+      year5: annualIncome(baseIncome + 45000, baseIncome + 65000),
+    },
+    roadmap: template.balanced.roadmap,
+    requiredCredentials: hasHighEducationInterest
+      ? [
+          ...template.balanced.credentials,
+          {
+            name: "Bachelor's Degree (optional accelerated program)",
+            timeline: durationMonths(18, 24),
+            cost: credentialCost(30000, 60000, ['post-911-gi-bill', 'out-of-pocket'], {
+              min: 5000,
+              max: 15000,
+            }),
+          },
+        ]
+      : template.balanced.credentials,
+    familyImpact: {
+      timeCommitment: 'Moderate (45-50 hrs/week + some studying)',
+      flexibility: 'Moderate - some evening/weekend flexibility',
+      stability: 'Growing - increasing job security over time',
+      notes: hasHighEducationInterest
+        ? 'Combining work with part-time education requires time management.'
+        : 'Balanced approach with steady progression.',
+    },
+    whyThisPath: template.balanced.whyThisPath,
+  };
+}
+
+function generateMaxUpside(
+  profile: VeteranProfile,
+  template: PathwayTemplate,
+  hasHighEducationInterest: boolean,
+  yearsOfService: number
+): AnalysisResult['pathways'][0] {
+  const experienceBonus = yearsOfService >= 8 ? 15000 : yearsOfService >= 4 ? 8000 : 0;
+  const baseIncome = template.maxUpside.startingSalary + experienceBonus;
+
+  return {
+    type: 'max-upside',
+    title: template.maxUpside.title,
+    description: template.maxUpside.description,
+    incomeTrajectory: {
+      year1: annualIncome(baseIncome, baseIncome + 15000),
+      year3: annualIncome(baseIncome + 35000, baseIncome + 60000),
+      year5: annualIncome(baseIncome + 70000, baseIncome + 110000),
+    },
+    roadmap: template.maxUpside.roadmap,
+    requiredCredentials: template.maxUpside.credentials,
+    familyImpact: {
+      timeCommitment: 'High (50-60 hrs/week + education)',
+      flexibility: 'Low initially - requires significant time investment',
+      stability: 'Moderate initially, High long-term',
+      notes:
+        'Requires upfront investment in education/training. Best for those with family support and financial runway.',
+    },
+    whyThisPath: template.maxUpside.whyThisPath,
+  };
+}
+
+const RESERVE_COMPONENTS: Record<string, string> = {
+  army: 'Army Reserve or National Guard',
+  'air force': 'Air Force Reserve or Air National Guard',
+  navy: 'Navy Reserve',
+  'marine corps': 'Marine Corps Reserve',
+  'coast guard': 'Coast Guard Reserve',
+  'space force': 'Space Force reserve component',
+};
+
+function generateContinuedService(
+  profile: VeteranProfile,
+  template: PathwayTemplate
+): CareerPathway {
+  const component = RESERVE_COMPONENTS[profile.branch.toLowerCase()] ?? 'Reserve or National Guard';
+  // Civilian salary plus drill pay for one weekend a month and two weeks a year
+  const baseIncome = template.fastIncome.startingSalary + 6000;
+
+  return {
+    type: 'continued-service',
+    title: `${template.fastIncome.title} + ${component}`,
+    description: `Start a civilian career as a ${template.fastIncome.title} while serving part-time in the ${component}, keeping military benefits and building toward retirement.`,
+    incomeTrajectory: {
+      year1: annualIncome(baseIncome, baseIncome + 16000),
+      year3: annualIncome(baseIncome + 15000, baseIncome + 30000),
+      year5: annualIncome(baseIncome + 30000, baseIncome + 50000),
+    },
+    roadmap: [
+      {
+        phase: 'Reserve Affiliation',
+        duration: durationMonths(1, 3),
+        steps: [
+          'Contact a prior-service recruiter before your separation date',
+          `Ask about affiliation bonuses and units that need your specialty (${profile.mos})`,
+          'Compare TRICARE Reserve Select with civilian health plans',
+        ],
+      },
+      ...template.fastIncome.roadmap,
+      {
+        phase: 'Reserve Career',
+        duration: ongoing(),
+        steps: [
+          'Drill one weekend a month and two weeks of annual training',
+          'Track retirement points toward 20 qualifying years',
+          'Use Tuition Assistance for further education',
+        ],
+      },
+    ],
+    requiredCredentials: template.fastIncome.credentials,
+    familyImpact: {
+      timeCommitment: 'High (full-time job + one weekend a month)',
+      flexibility: 'Moderate - drill weekends and possible mobilization',
+      stability: 'High - two paychecks and continued military benefits',
+      notes:
+        'Mobilization can mean months away from home; USERRA protects your civilian job while you serve.',
+    },
+    whyThisPath:
+      'Part-time service keeps you on track for a military retirement. Your civilian career grows at the same time.',
+  };
+}
@@ -0,0 +1,149 @@
+import type { TemplateScore, TemplateSignals, VeteranProfile } from './types';
+import type { CrosswalkEntry } from '../crosswalk';
+import { lookupMilitaryCode, normalizeMilitaryCode } from '../crosswalk';
+
+/**
+ * Demo Template Scoring
+ *
+ * Ranks pathway templates against a profile using four signals: the job code's
+ * career family, technical skills, certifications and career-goal keywords.
+ * Every template gets a score breakdown so the demo result can explain why a
+ * template was chosen. Ranking is fully deterministic.
+ */
+
+export interface ScoredTemplate {
+  id: string;
+  signals: TemplateSignals;
+}
+
+export const SCORE_WEIGHTS = {
+  primaryCareerField: 40,
+  secondaryCareerField: 20,
+  codePrefix: 25,
+  skill: 10,
+  certification: 10,
+  careerGoal: 8,
+};
+
+export const SCORE_CAPS = {
+  skills: 30,
+  certifications: 20,
+  careerGoals: 24,
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Keywords that appear in the text as whole terms ("it" matches "IT support", not "with")
+ */
+function matchKeywords(text: string, keywords: string[]): string[] {
+  const lower = text.toLowerCase();
+  return keywords.filter((keyword) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`).test(lower)
+  );
+}
+
+function scoreCodeFamily(
+  profile: VeteranProfile,
+  signals: TemplateSignals,
+  crosswalkMatch: CrosswalkEntry | undefined
+): { points: number; reason?: string } {
+  if (crosswalkMatch) {
+    const fieldIndex = signals.careerFields.indexOf(crosswalkMatch.careerField);
+    if (fieldIndex === 0) {
+      return {
+        points: SCORE_WEIGHTS.primaryCareerField,
+        reason: `${crosswalkMatch.code} career field: ${crosswalkMatch.careerField}`,
+      };
+    }
+    if (fieldIndex > 0) {
+      return {
+        points: SCORE_WEIGHTS.secondaryCareerField,
+        reason: `${crosswalkMatch.code} related field: ${crosswalkMatch.careerField}`,
+      };
+    }
+    return { points: 0 };
+  }
+
+  const [code] = normalizeMilitaryCode(profile.mos);
+  const prefix = code && signals.codePrefixes.find((candidate) => code.startsWith(candidate));
+  return prefix
+    ? { points: SCORE_WEIGHTS.codePrefix, reason: `${code} code family: ${prefix}` }
+    : { points: 0 };
+}
+
+/**
+ * Score a single template against a profile
+ */
+export function scoreTemplate(
+  profile: VeteranProfile,
+  template: ScoredTemplate,
+  crosswalkMatch: CrosswalkEntry | undefined = lookupMilitaryCode(profile.mos, profile.branch)[0]
+): TemplateScore {
+  const { signals } = template;
+  const codeFamily = scoreCodeFamily(profile, signals, crosswalkMatch);
+  const skills = matchKeywords(profile.technicalSkills.join(' | '), signals.skills);
+  const certifications = matchKeywords(profile.certifications.join(' | '), signals.certifications);
+  const careerGoals = matchKeywords(profile.careerGoals, signals.careerGoals);
+
+  const breakdown = {
+    codeFamily: codeFamily.points,
+    skills: Math.min(skills.length * SCORE_WEIGHTS.skill, SCORE_CAPS.skills),
+    certifications: Math.min(
+      certifications.length * SCORE_WEIGHTS.certification,
+      SCORE_CAPS.certifications
+    ),
+    careerGoals: Math.min(careerGoals.length * SCORE_WEIGHTS.careerGoal, SCORE_CAPS.careerGoals),
+  };
+
+  return {
+    templateId: template.id,
+    score:
+      breakdown.codeFamily + breakdown.skills + breakdown.certifications + breakdown.careerGoals,
+    breakdown,
+    reasons: [
+      ...(codeFamily.reason ? [codeFamily.reason] : []),
+      ...skills.map((keyword) => `skill: ${keyword}`),
+      ...certifications.map((keyword) => `certification: ${keyword}`),
+      ...careerGoals.map((keyword) => `goal: ${keyword}`),
+    ],
+  };
+}
+
+/**
+ * Simple hash function for deterministic tie-breaking
+ */
+function simpleHash(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Rank templates for a profile, best match first
+ *
+ * Ties (including profiles with no matching signals at all) are broken by a
+ * hash of the profile, so equally-scored profiles still spread across templates
+ * while the same profile always gets the same ranking.
+ */
+export function rankTemplates(
+  profile: VeteranProfile,
+  templates: ScoredTemplate[]
+): TemplateScore[] {
+  const [crosswalkMatch] = lookupMilitaryCode(profile.mos, profile.branch);
+  const offset =
+    simpleHash(profile.mos + profile.branch + profile.technicalSkills.join('')) % templates.length;
+  const tieBreak = (index: number) => (index - offset + templates.length) % templates.length;
+
+  return templates
+    .map((template, index) => ({
+      index,
+      score: scoreTemplate(profile, template, crosswalkMatch),
+    }))
+    .sort((a, b) => b.score.score - a.score.score || tieBreak(a.index) - tieBreak(b.index))
+    .map(({ score }) => score);
+}
@@ -1,61 +1,271 @@
 import { z } from 'zod';
+import { INCOME_PERIODS, upgradeLegacyIncome } from './income';
+import { upgradeLegacyDuration } from './duration';
+import { FUNDING_SOURCES, upgradeLegacyCost } from './cost';
+import { MAX_PATHWAYS, PATHWAY_TYPES } from './pathwayTypes';
+import { ANALYSIS_ERROR_KINDS } from './errors';
+import { MaxTokensSchema, ModelIdSchema } from './config';
+import { CAREER_FIELDS } from '../crosswalk/types';
+import { DEMAND_LEVELS } from '../costOfLiving/types';
+import { RETIREMENT_TAX_TREATMENTS } from '../stateBenefits/types';
+
+const hasUniqueValues = (values: string[]) => new Set(values).size === values.length;
+
+/**
+ * Length limits for free-text profile answers, so hostile input cannot bloat
+ * the Real Mode prompt
+ */
+export const PROFILE_TEXT_LIMITS = {
+  /** Single-line answers and list items */
+  line: 100,
+  /** Multi-line answers (leadership experience, career goals) */
+  paragraph: 2000,
+  /** Entries in a list (skills, certifications, preferred locations) */
+  listItems: 20,
+} as const;
+
+// Control and invisible formatting characters (zero-width, bidirectional
+// overrides) can hide text from reviewers; paragraphs may keep line breaks and tabs
+const LINE_PATTERN = /^[^\p{Cc}\p{Cf}]*$/u;
+const PARAGRAPH_PATTERN = /^(?:[^\p{Cc}\p{Cf}]|[\t\n\r])*$/u;
+
+const lineText = () =>
+  z
+    .string()
+    .max(PROFILE_TEXT_LIMITS.line, `Must be at most ${PROFILE_TEXT_LIMITS.line} characters`)
+    .regex(LINE_PATTERN, 'Must be a single line without control or formatting characters');
+
+const paragraphText = () =>
+  z
+    .string()
+    .max(
+      PROFILE_TEXT_LIMITS.paragraph,
+      `Must be at most ${PROFILE_TEXT_LIMITS.paragraph} characters`
+    )
+    .regex(PARAGRAPH_PATTERN, 'Must not contain control or formatting characters');
+
+const lineList = () =>
+  z
+    .array(lineText())
+    .max(
+      PROFILE_TEXT_LIMITS.listItems,
+      `Must have at most ${PROFILE_TEXT_LIMITS.listItems} entries`
+    );
 
 /**
  * Zod Schema for VeteranProfile
+ *
+ * Free-text answers are limited in length and characters (see
+ * PROFILE_TEXT_LIMITS); Real Mode passes them to Claude as delimited data.
  */
 export const VeteranProfileSchema = z.object({
   // Step 1: Service Background
-  branch: z.string().min(1, 'Branch is required'),
+  branch: lineText().min(1, 'Branch is required'),
   yearsOfService: z.number().min(0, 'Years of service must be positive'),
-  rank: z.string().min(1, 'Rank is required'),
-  mos: z.string().min(1, 'MOS is required'),
+  rank: lineText().min(1, 'Rank is required'),
+  mos: lineText().min(1, 'MOS is required'),
+  // VA service-connected disability rating; omitted when the veteran has none
+  disabilityRating: z.number().int().min(0).max(100).multipleOf(10).optional(),
+  // Post-9/11 GI Bill months already used; omitted when none
+  giBillMonthsUsed: z.number().int().min(0).max(36).optional(),
+  // Separation (ETS/EAS) date as an ISO calendar date; omitted when unknown
+  separationDate: z.iso.date().optional(),
 
   // Step 2: Skills
-  technicalSkills: z.array(z.string()),
-  certifications: z.array(z.string()),
-  leadershipExperience: z.string(),
+  technicalSkills: lineList(),
+  certifications: lineList(),
+  leadershipExperience: paragraphText(),
 
   // Step 3: Family
-  familyStatus: z.string().min(1, 'Family status is required'),
+  familyStatus: lineText().min(1, 'Family status is required'),
   dependents: z.number().min(0),
-  spouseEmployment: z.string(),
+  spouseEmployment: lineText(),
 
   // Step 4: Location
-  currentLocation: z.string().min(1, 'Current location is required'),
+  currentLocation: lineText().min(1, 'Current location is required'),
   willingToRelocate: z.boolean(),
-  preferredLocations: z.array(z.string()),
+  preferredLocations: lineList(),
 
   // Step 5: Goals
-  careerGoals: z.string().min(1, 'Career goals are required'),
-  incomeExpectations: z.string().min(1, 'Income expectations are required'),
-  educationInterest: z.string().min(1, 'Education interest is required'),
-  timeline: z.string().min(1, 'Timeline is required'),
+  careerGoals: paragraphText().min(1, 'Career goals are required'),
+  incomeExpectations: lineText().min(1, 'Income expectations are required'),
+  educationInterest: lineText().min(1, 'Education interest is required'),
+  timeline: lineText().min(1, 'Timeline is required'),
+});
+
+/**
+ * Zod Schema for IncomeRange
+ *
+ * Legacy string values ("$45,000 - $55,000", "$70k") are upgraded to the
+ * structured shape before validation.
+ */
+export const IncomeRangeSchema = z.preprocess(
+  upgradeLegacyIncome,
+  z
+    .object({
+      min: z.number().min(0),
+      max: z.number().min(0),
+      currency: z.string().length(3).default('USD'),
+      period: z.enum(INCOME_PERIODS).default('year'),
+    })
+    .refine((range) => range.max >= range.min, {
+      message: 'Income max must be greater than or equal to min',
+      path: ['max'],
+    })
+);
+
+/**
+ * Zod Schema for Duration (roadmap phases and credential timelines)
+ *
+ * Legacy string values ("6-8 weeks", "2+ years", "Ongoing") are upgraded to
+ * the normalized shape before validation.
+ */
+export const DurationSchema = z.preprocess(
+  upgradeLegacyDuration,
+  z
+    .object({
+      minMonths: z.number().min(0),
+      maxMonths: z.number().min(0),
+      openEnded: z.boolean().default(false),
+    })
+    .refine((duration) => duration.maxMonths >= duration.minMonths, {
+      message: 'maxMonths must be greater than or equal to minMonths',
+      path: ['maxMonths'],
+    })
+);
+
+/**
+ * Zod Schema for CredentialCost
+ *
+ * `min`/`max` are the sticker price; `outOfPocket` is what remains after the
+ * listed funding sources. Legacy string values ("$0 (GI Bill)", "Free") are
+ * upgraded to the structured shape before validation.
+ */
+const CostRangeSchema = z
+  .object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+  })
+  .refine((range) => range.max >= range.min, {
+    message: 'Cost max must be greater than or equal to min',
+    path: ['max'],
+  });
+
+export const CredentialCostSchema = z.preprocess(
+  upgradeLegacyCost,
+  z
+    .object({
+      min: z.number().min(0),
+      max: z.number().min(0),
+      currency: z.string().length(3).default('USD'),
+      fundingSources: z.array(z.enum(FUNDING_SOURCES)).default([]),
+      outOfPocket: CostRangeSchema,
+    })
+    .refine((cost) => cost.max >= cost.min, {
+      message: 'Cost max must be greater than or equal to min',
+      path: ['max'],
+    })
+);
+
+const IncomeTrajectorySchema = z.object({
+  year1: IncomeRangeSchema,
+  year3: IncomeRangeSchema,
+  year5: IncomeRangeSchema,
+});
+
+/**
+ * Zod Schema for CostOfLivingAdjustment
+ *
+ * `incomeTrajectory` is nominal pay in `market`; `adjustedTrajectory` is the
+ * same pay in U.S.-average dollars (divided by the market's cost index).
+ */
+export const CostOfLivingAdjustmentSchema = z.object({
+  market: z.string().min(1),
+  /** U.S. average = 100 */
+  costIndex: z.number().positive(),
+  /** U.S. average = 100 */
+  wageIndex: z.number().positive(),
+  adjustedTrajectory: IncomeTrajectorySchema,
+});
+
+/**
+ * Zod Schema for IncomeComparison (a pathway's first year against the
+ * veteran's income expectation)
+ *
+ * Household income is annual year-1 pay plus VA disability compensation.
+ */
+const AnnualAmountRangeSchema = z.object({
+  min: z.number().min(0),
+  max: z.number().min(0),
+});
+
+export const IncomeComparisonSchema = z.object({
+  expected: AnnualAmountRangeSchema,
+  householdYear1: AnnualAmountRangeSchema,
+  /** Annual VA disability compensation included in household income */
+  vaCompensation: z.number().min(0),
+  meetsExpectation: z.boolean(),
+});
+
+/**
+ * Zod Schema for GiBillEstimate (how a pathway's schooling is paid for)
+ *
+ * Amounts are what the veteran receives at their benefit level; the housing
+ * allowance is paid while enrolled more than half time.
+ */
+export const GiBillEstimateSchema = z.object({
+  percent: z.number().int().min(0).max(100),
+  housingMarket: z.string().min(1),
+  monthlyHousing: z.number().min(0),
+  annualBookStipend: z.number().min(0),
+  /** Entitlement months this pathway's credentials use */
+  entitlementMonthsUsed: z.number().min(0),
+  entitlementMonthsRemaining: z.number().min(0),
+  /** Housing allowance over the months the GI Bill covers */
+  housingWhileStudying: z.number().min(0),
+});
+
+/**
+ * Zod Schema for one location in a pathway's location breakdown
+ *
+ * Incomes follow the same conventions as the pathway's own: nominal pay in the
+ * location's market, and the same pay in U.S.-average dollars.
+ */
+export const LocationOutlookSchema = z.object({
+  location: z.string().min(1),
+  demandLevel: z.enum(DEMAND_LEVELS),
+  incomeTrajectory: IncomeTrajectorySchema,
+  adjustedTrajectory: IncomeTrajectorySchema,
 });
 
 /**
  * Zod Schema for CareerPathway
  */
 export const CareerPathwaySchema = z.object({
-  type: z.enum(['fast-income', 'balanced', 'max-upside']),
+  type: z.enum(PATHWAY_TYPES),
   title: z.string(),
   description: z.string(),
-  incomeTrajectory: z.object({
-    year1: z.string(),
-    year3: z.string(),
-    year5: z.string(),
-  }),
+  incomeTrajectory: IncomeTrajectorySchema,
+  costOfLiving: CostOfLivingAdjustmentSchema.optional(),
+  /** Present when several locations are compared, in the order of `AnalysisResult.locations` */
+  locationBreakdown: z.array(LocationOutlookSchema).optional(),
+  giBill: GiBillEstimateSchema.optional(),
+  incomeComparison: IncomeComparisonSchema.optional(),
   roadmap: z.array(
     z.object({
       phase: z.string(),
-      duration: z.string(),
+      duration: DurationSchema,
+      /** ISO calendar dates, set on phases scheduled around the separation date */
+      startDate: z.iso.date().optional(),
+      endDate: z.iso.date().optional(),
       steps: z.array(z.string()),
     })
   ),
   requiredCredentials: z.array(
     z.object({
       name: z.string(),
-      timeline: z.string(),
-      cost: z.string(),
+      timeline: DurationSchema,
+      cost: CredentialCostSchema,
     })
   ),
   familyImpact: z.object({
@@ -65,19 +275,246 @@ export const CareerPathwaySchema = z.object({
     notes: z.string(),
   }),
   whyThisPath: z.string(),
+  /** Set when Real Mode output for this slot could not be repaired and a template filled it */
+  filledFrom: z.literal('demo').optional(),
+});
+
+/**
+ * Zod Schema for the signals a demo template is ranked on (see templateScoring.ts)
+ */
+export const TemplateSignalsSchema = z.strictObject({
+  /** Crosswalk career fields, primary field first */
+  careerFields: z.array(z.enum(CAREER_FIELDS)),
+  /** Job code prefixes for codes missing from the crosswalk (e.g. "25" for Army signal MOSs) */
+  codePrefixes: z.array(z.string().min(1)),
+  skills: z.array(z.string().min(1)),
+  certifications: z.array(z.string().min(1)),
+  careerGoals: z.array(z.string().min(1)),
+});
+
+/**
+ * Zod Schema for one pathway option (fast-income, balanced or max-upside) of a template
+ */
+export const PathwayOptionSchema = z.strictObject({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  startingSalary: z.number().int().positive(),
+  roadmap: CareerPathwaySchema.shape.roadmap.min(1),
+  credentials: CareerPathwaySchema.shape.requiredCredentials.min(1),
+  whyThisPath: z.string().min(1),
+});
+
+/**
+ * Zod Schema for the business a template suggests for the entrepreneurship pathway
+ */
+export const BusinessIdeaSchema = z.strictObject({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  /** Capital needed to launch, in USD */
+  startupCost: CostRangeSchema,
+});
+
+/**
+ * Zod Schema for the fully remote role a template suggests for the remote-first pathway
+ */
+export const RemoteRoleSchema = z.strictObject({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  startingSalary: z.number().int().positive(),
+  credentials: CareerPathwaySchema.shape.requiredCredentials.min(1),
+});
+
+/**
+ * Zod Schema for a demo pathway template (content/pathway-templates/*.json)
+ *
+ * Unknown keys are rejected so typos in content files fail at load time.
+ */
+export const PathwayTemplateSchema = z.strictObject({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Template id must be kebab-case'),
+  signals: TemplateSignalsSchema,
+  skillArea: z.string().min(1),
+  leadershipValue: z.string().min(1),
+  business: BusinessIdeaSchema.optional(),
+  remote: RemoteRoleSchema.optional(),
+  fastIncome: PathwayOptionSchema,
+  balanced: PathwayOptionSchema,
+  maxUpside: PathwayOptionSchema,
+});
+
+/**
+ * Zod Schema for TemplateScore (why demo mode picked a template)
+ */
+export const TemplateScoreSchema = z.object({
+  templateId: z.string(),
+  score: z.number().min(0),
+  breakdown: z.object({
+    codeFamily: z.number().min(0),
+    skills: z.number().min(0),
+    certifications: z.number().min(0),
+    careerGoals: z.number().min(0),
+  }),
+  reasons: z.array(z.string()),
+});
+
+/**
+ * Zod Schema for a compared location (market indexes and state benefits)
+ */
+export const LocationComparisonSchema = z.object({
+  location: z.string().min(1),
+  market: z.string().min(1),
+  /** U.S. average = 100 */
+  costIndex: z.number().positive(),
+  /** U.S. average = 100 */
+  wageIndex: z.number().positive(),
+  stateBenefits: z
+    .object({
+      state: z.string().min(1),
+      incomeTax: z.boolean(),
+      militaryRetirement: z.enum(RETIREMENT_TAX_TREATMENTS),
+      highlights: z.array(z.string()),
+    })
+    .optional(),
+});
+
+/**
+ * Zod Schema for VaCompensation (monthly, tax-free VA disability compensation)
+ */
+export const VaCompensationSchema = z.object({
+  rating: z.number().int().min(10).max(100),
+  monthly: z.number().positive(),
+  annual: z.number().positive(),
+  spouse: z.boolean(),
+  children: z.number().int().min(0),
 });
 
 /**
  * Zod Schema for AnalysisResult
+ *
+ * Each pathway type appears at most once. `templateRanking` is only present on
+ * demo results: every template, best match first. `locations` is present when
+ * a veteran willing to relocate lists preferred locations: the current
+ * location first, then each preferred one.
  */
 export const AnalysisResultSchema = z.object({
   summary: z.string(),
-  pathways: z.array(CareerPathwaySchema).length(3, 'Must have exactly 3 pathways'),
+  pathways: z
+    .array(CareerPathwaySchema)
+    .min(1, 'Must have at least 1 pathway')
+    .max(MAX_PATHWAYS, `Must have at most ${MAX_PATHWAYS} pathways`)
+    .refine((pathways) => hasUniqueValues(pathways.map((pathway) => pathway.type)), {
+      message: 'Each pathway type may appear only once',
+    }),
+  templateRanking: z.array(TemplateScoreSchema).optional(),
+  locations: z.array(LocationComparisonSchema).optional(),
+  vaCompensation: VaCompensationSchema.optional(),
+});
+
+/**
+ * Zod Schema for AnalysisOptions (which pathways a request asks for)
+ *
+ * `pathwayTypes` picks the strategies explicitly; `count` alone takes that many
+ * types in registry order (see resolvePathwayTypes). Defaults to the three
+ * standard strategies.
+ *
+ * `model` and `maxTokens` override the Real Mode configuration for one request
+ * and are accepted only from authorized callers (see src/lib/auth.ts).
+ */
+export const AnalysisOptionsSchema = z
+  .strictObject({
+    pathwayTypes: z
+      .array(z.enum(PATHWAY_TYPES))
+      .min(1)
+      .max(MAX_PATHWAYS)
+      .refine(hasUniqueValues, { message: 'pathwayTypes must not repeat a type' })
+      .optional(),
+    count: z.number().int().min(1).max(MAX_PATHWAYS).optional(),
+    model: ModelIdSchema.optional(),
+    maxTokens: MaxTokensSchema.optional(),
+  })
+  .refine(
+    (options) =>
+      !options.pathwayTypes || !options.count || options.count === options.pathwayTypes.length,
+    { message: 'count must match the number of pathwayTypes', path: ['count'] }
+  );
+
+/**
+ * Zod Schema for an analysis request body with options
+ * (a bare VeteranProfile body is also accepted by /api/analyze)
+ */
+export const AnalysisRequestSchema = z.object({
+  profile: VeteranProfileSchema,
+  options: AnalysisOptionsSchema.default({}),
 });
 
+/**
+ * Zod Schema for AnalysisMetadata (provenance of a result)
+ */
+export const AnalysisMetadataSchema = z.object({
+  provider: z.string(),
+  attemptedProviders: z.array(z.string()),
+  fallback: z.boolean(),
+  fallbackReason: z.string().optional(),
+  errorKind: z.enum(ANALYSIS_ERROR_KINDS).optional(),
+  retries: z.number().int().min(1).optional(),
+  model: z.string().optional(),
+  promptVersion: z.string().optional(),
+  demoTemplateId: z.string().optional(),
+  latencyMs: z.number().min(0),
+});
+
+/**
+ * Zod Schema for AnalysisResponse (result + provenance envelope)
+ */
+export const AnalysisResponseSchema = z.object({
+  result: AnalysisResultSchema,
+  metadata: AnalysisMetadataSchema,
+});
+
+/**
+ * Zod Schema for AnalysisStreamEvent (one Server-Sent Event from a streaming
+ * /api/analyze request)
+ *
+ * The summary and each pathway are sent as soon as they validate, `index`
+ * giving the pathway's place in the requested order. `reset` discards them when
+ * a provider fails part-way and the next provider in the chain starts over;
+ * `complete` carries the final response and `error` ends a failed stream.
+ */
+export const AnalysisStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('summary'), summary: z.string() }),
+  z.object({
+    type: z.literal('pathway'),
+    index: z.number().int().min(0),
+    pathway: CareerPathwaySchema,
+  }),
+  z.object({ type: z.literal('reset'), reason: z.string() }),
+  z.object({ type: z.literal('complete'), ...AnalysisResponseSchema.shape }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+]);
+
 /**
  * TypeScript types inferred from Zod schemas
  */
 export type VeteranProfile = z.infer<typeof VeteranProfileSchema>;
+export type IncomeRange = z.infer<typeof IncomeRangeSchema>;
+export type Duration = z.infer<typeof DurationSchema>;
+export type CredentialCost = z.infer<typeof CredentialCostSchema>;
+export type CostOfLivingAdjustment = z.infer<typeof CostOfLivingAdjustmentSchema>;
+export type IncomeComparison = z.infer<typeof IncomeComparisonSchema>;
+export type VaCompensation = z.infer<typeof VaCompensationSchema>;
+export type GiBillEstimate = z.infer<typeof GiBillEstimateSchema>;
+export type LocationOutlook = z.infer<typeof LocationOutlookSchema>;
+export type LocationComparison = z.infer<typeof LocationComparisonSchema>;
 export type CareerPathway = z.infer<typeof CareerPathwaySchema>;
+export type TemplateSignals = z.infer<typeof TemplateSignalsSchema>;
+export type BusinessIdea = z.infer<typeof BusinessIdeaSchema>;
+export type RemoteRole = z.infer<typeof RemoteRoleSchema>;
+export type PathwayTemplate = z.infer<typeof PathwayTemplateSchema>;
+export type TemplateScore = z.infer<typeof TemplateScoreSchema>;
 export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+export type AnalysisOptions = z.infer<typeof AnalysisOptionsSchema>;
+export type AnalysisRequest = z.infer<typeof AnalysisRequestSchema>;
+export type AnalysisMetadata = z.infer<typeof AnalysisMetadataSchema>;
+export type AnalysisResponse = z.infer<typeof AnalysisResponseSchema>;
+export type AnalysisStreamEvent = z.infer<typeof AnalysisStreamEventSchema>;
+/** Partial output a provider reports while it is still running */
+export type AnalysisProgressEvent = Extract<AnalysisStreamEvent, { type: 'summary' | 'pathway' }>;
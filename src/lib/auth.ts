@@ -0,0 +1,28 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Caller Authorization
+ *
+ * Some request options (model and token budget overrides) are reserved for
+ * trusted callers such as internal tools and evaluation scripts.
+ *
+ * **Configuration**:
+ * - `ANALYSIS_OVERRIDE_TOKEN`: Shared secret sent as `Authorization: Bearer <token>`.
+ *   When unset, no caller is authorized.
+ */
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Check whether the request comes from a caller allowed to use overrides
+ *
+ * Tokens are compared as SHA-256 digests in constant time, so neither their
+ * content nor their length leaks through response timing.
+ */
+export function isAuthorizedCaller(headers: Headers): boolean {
+  const token = process.env.ANALYSIS_OVERRIDE_TOKEN;
+  const match = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!token || !match) return false;
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
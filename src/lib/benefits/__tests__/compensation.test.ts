@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { estimateVaCompensation, getCompensationRatesInfo } from '../index';
+import dataset from '../data/va-compensation.json';
+import { CompensationRatesSchema } from '../types';
+
+describe('VA compensation rate table', () => {
+  it('validates against the schema', () => {
+    expect(CompensationRatesSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('pays more at every higher rating', () => {
+    const alone = dataset.rates.map((rate) => rate.veteranAlone);
+    expect(alone).toEqual([...alone].sort((a, b) => a - b));
+  });
+
+  it('reports its effective date', () => {
+    expect(getCompensationRatesInfo().effectiveDate).toBe(dataset.effectiveDate);
+  });
+});
+
+describe('estimateVaCompensation', () => {
+  it('pays nothing without a rating or at 0%', () => {
+    expect(estimateVaCompensation({})).toBeUndefined();
+    expect(estimateVaCompensation({ rating: 0 })).toBeUndefined();
+  });
+
+  it('ignores dependents below 30%', () => {
+    expect(estimateVaCompensation({ rating: 20, spouse: true, children: 2 })?.monthly).toBe(346.95);
+  });
+
+  it('adds dependents from 30%', () => {
+    expect(estimateVaCompensation({ rating: 70 })?.monthly).toBe(1759.19);
+    expect(estimateVaCompensation({ rating: 70, spouse: true })?.monthly).toBe(1908.19);
+    expect(estimateVaCompensation({ rating: 70, children: 1 })?.monthly).toBe(1858.19);
+    expect(estimateVaCompensation({ rating: 70, spouse: true, children: 3 })).toMatchObject({
+      monthly: 2166.19,
+      annual: 25994,
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { estimateGiBill, getGiBillRatesInfo, giBillTier, monthlyHousingAllowance } from '../index';
+import dataset from '../data/gi-bill.json';
+import metros from '../../costOfLiving/data/metros.json';
+import { GiBillRatesSchema } from '../types';
+
+describe('GI Bill rate table', () => {
+  it('validates against the schema', () => {
+    expect(GiBillRatesSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has a housing rate for every metro', () => {
+    for (const metro of metros.metros) {
+      expect(dataset.housing.metros).toHaveProperty(metro.id);
+    }
+  });
+
+  it('reports its academic year', () => {
+    expect(getGiBillRatesInfo()).toMatchObject({ academicYear: dataset.academicYear });
+  });
+});
+
+describe('giBillTier', () => {
+  it('maps service length to the benefit level', () => {
+    expect(giBillTier(0.2)).toBe(0);
+    expect(giBillTier(0.25)).toBe(50);
+    expect(giBillTier(1)).toBe(60);
+    expect(giBillTier(2)).toBe(80);
+    expect(giBillTier(2.5)).toBe(90);
+    expect(giBillTier(3)).toBe(100);
+    expect(giBillTier(20)).toBe(100);
+  });
+});
+
+describe('monthlyHousingAllowance', () => {
+  it('uses the school location, falling back to the national average', () => {
+    expect(monthlyHousingAllowance('San Diego, CA')).toEqual({
+      amount: dataset.housing.metros['san-diego'],
+      market: 'San Diego, CA',
+    });
+    expect(monthlyHousingAllowance('Somewhere, MT')).toEqual({
+      amount: dataset.housing.national,
+      market: 'U.S. average',
+    });
+  });
+});
+
+describe('estimateGiBill', () => {
+  it('scales payments by the benefit level', () => {
+    const full = estimateGiBill({ yearsOfService: 4, location: 'San Diego, CA' });
+    const partial = estimateGiBill({ yearsOfService: 2, location: 'San Diego, CA' });
+
+    expect(full).toMatchObject({ percent: 100, entitlementMonths: 36, annualBookStipend: 1000 });
+    expect(partial.percent).toBe(80);
+    expect(partial.monthlyHousing).toBe(Math.round(full.monthlyHousing * 0.8));
+    expect(partial.annualTuitionCap).toBe(Math.round(full.annualTuitionCap * 0.8));
+  });
+
+  it('subtracts entitlement already used', () => {
+    expect(
+      estimateGiBill({ yearsOfService: 4, monthsUsed: 30, location: 'Tampa, FL' }).entitlementMonths
+    ).toBe(6);
+    expect(
+      estimateGiBill({ yearsOfService: 4, monthsUsed: 40, location: 'Tampa, FL' }).entitlementMonths
+    ).toBe(0);
+  });
+
+  it('gives nothing to veterans who are not eligible', () => {
+    expect(estimateGiBill({ yearsOfService: 0, location: 'Tampa, FL' })).toMatchObject({
+      percent: 0,
+      entitlementMonths: 0,
+      monthlyHousing: 0,
+    });
+  });
+});
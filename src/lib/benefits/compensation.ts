@@ -0,0 +1,56 @@
+import dataset from './data/va-compensation.json';
+import { CompensationRatesSchema, VaCompensation } from './types';
+
+/**
+ * VA Disability Compensation
+ *
+ * Estimates monthly, tax-free VA disability compensation from the combined
+ * rating and dependents, using the bundled rate table
+ * (`data/va-compensation.json`). Compensation is paid regardless of
+ * employment, so it sets a floor under every pathway's household income.
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const table = CompensationRatesSchema.parse(dataset);
+
+export interface VaCompensationInput {
+  /** Combined VA rating, 0-100 in steps of 10 */
+  rating?: number;
+  spouse?: boolean;
+  /** Children under 18 */
+  children?: number;
+}
+
+/**
+ * Estimate VA disability compensation
+ *
+ * @returns The estimate, or undefined for no rating or a 0% rating (which pays nothing)
+ */
+export function estimateVaCompensation({
+  rating,
+  spouse = false,
+  children = 0,
+}: VaCompensationInput): VaCompensation | undefined {
+  const rate = table.rates.find((entry) => entry.rating === rating);
+  if (!rate) return undefined;
+
+  let monthly = rate.veteranAlone;
+  if (rate.withSpouse && rate.withChild && rate.withSpouseAndChild && rate.additionalChild) {
+    if (children > 0) {
+      monthly =
+        (spouse ? rate.withSpouseAndChild : rate.withChild) + rate.additionalChild * (children - 1);
+    } else if (spouse) {
+      monthly = rate.withSpouse;
+    }
+  }
+
+  monthly = Math.round(monthly * 100) / 100;
+  return { rating: rate.rating, monthly, annual: Math.round(monthly * 12), spouse, children };
+}
+
+/**
+ * Details of the bundled rate table
+ */
+export function getCompensationRatesInfo(): { effectiveDate: string; source: string } {
+  return { effectiveDate: table.effectiveDate, source: table.source };
+}
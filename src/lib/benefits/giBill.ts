@@ -0,0 +1,84 @@
+import dataset from './data/gi-bill.json';
+import { GiBillBenefit, GiBillRatesSchema } from './types';
+import { isNationalAverage, lookupMetro } from '../costOfLiving';
+
+/**
+ * Post-9/11 GI Bill
+ *
+ * Estimates the benefit level, remaining entitlement, monthly housing
+ * allowance (MHA) and book stipend from the bundled rate table
+ * (`data/gi-bill.json`). Service time is assumed to be active duty after
+ * 9/10/2001; a discharge for a service-connected disability or a Purple Heart
+ * qualifies for 100% regardless of time served, which the profile does not
+ * capture.
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const rates = GiBillRatesSchema.parse(dataset);
+
+/**
+ * Benefit level for a length of service
+ *
+ * @returns The percentage of the full benefit, or 0 for less than 90 days
+ */
+export function giBillTier(yearsOfService: number): number {
+  const months = yearsOfService * 12;
+  return rates.tiers.find((tier) => months >= tier.minMonths)?.percent ?? 0;
+}
+
+/**
+ * Monthly housing allowance at the 100% level for a school location
+ */
+export function monthlyHousingAllowance(location: string): { amount: number; market: string } {
+  const market = lookupMetro(location);
+  const amount = rates.housing.metros[market.id];
+
+  return amount === undefined || isNationalAverage(market)
+    ? { amount: rates.housing.national, market: 'U.S. average' }
+    : { amount, market: market.name };
+}
+
+export interface GiBillInput {
+  yearsOfService: number;
+  /** Months of entitlement already used */
+  monthsUsed?: number;
+  /** Where the veteran would study */
+  location: string;
+}
+
+/**
+ * Estimate a veteran's Post-9/11 GI Bill benefit
+ */
+export function estimateGiBill({
+  yearsOfService,
+  monthsUsed = 0,
+  location,
+}: GiBillInput): GiBillBenefit {
+  const percent = giBillTier(yearsOfService);
+  const share = percent / 100;
+  const housing = monthlyHousingAllowance(location);
+
+  return {
+    percent,
+    entitlementMonths: percent ? Math.max(rates.entitlementMonths - monthsUsed, 0) : 0,
+    monthlyHousing: Math.round(housing.amount * share),
+    annualBookStipend: Math.round(rates.bookStipend.annualMax * share),
+    annualTuitionCap: Math.round(rates.privateTuitionCap * share),
+    housingMarket: housing.market,
+  };
+}
+
+/**
+ * Details of the bundled rate table
+ */
+export function getGiBillRatesInfo(): {
+  academicYear: string;
+  source: string;
+  entitlementMonths: number;
+} {
+  return {
+    academicYear: rates.academicYear,
+    source: rates.source,
+    entitlementMonths: rates.entitlementMonths,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Veteran Benefits
+ *
+ * Offline estimates of VA benefits that change what a pathway costs or pays,
+ * from bundled rate tables stamped with the period they apply to.
+ *
+ * Usage:
+ *   const benefit = estimateGiBill({ yearsOfService: 4, location: 'San Diego, CA' });
+ *   benefit.percent;         // 100
+ *   benefit.monthlyHousing;  // San Diego housing allowance
+ *   estimateVaCompensation({ rating: 70, spouse: true, children: 2 });
+ */
+
+export { estimateGiBill, getGiBillRatesInfo, giBillTier, monthlyHousingAllowance } from './giBill';
+export type { GiBillInput } from './giBill';
+export { estimateVaCompensation, getCompensationRatesInfo } from './compensation';
+export type { VaCompensationInput } from './compensation';
+export type {
+  CompensationRate,
+  CompensationRates,
+  GiBillBenefit,
+  GiBillRates,
+  VaCompensation,
+} from './types';
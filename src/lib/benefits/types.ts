@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+/**
+ * Zod Schema for the bundled Post-9/11 GI Bill rate table
+ */
+export const GiBillRatesSchema = z.object({
+  academicYear: z.string().min(1),
+  source: z.string().min(1),
+  /** Full entitlement, in months of full-time enrollment */
+  entitlementMonths: z.number().int().positive(),
+  /** Benefit level by months of active duty after 9/10/2001, highest first */
+  tiers: z
+    .array(
+      z.object({
+        minMonths: z.number().int().min(0),
+        percent: z.number().int().min(0).max(100),
+      })
+    )
+    .min(1),
+  /** Annual tuition and fees paid to private and foreign schools at the 100% level */
+  privateTuitionCap: z.number().positive(),
+  bookStipend: z.object({
+    perCreditHour: z.number().positive(),
+    annualMax: z.number().positive(),
+  }),
+  /** Monthly housing allowance at the 100% level */
+  housing: z.object({
+    /** National average, for schools outside the listed metros */
+    national: z.number().positive(),
+    /** Students enrolled only in online courses */
+    onlineOnly: z.number().positive(),
+    /** Keyed by cost-of-living metro id (see src/lib/costOfLiving) */
+    metros: z.record(z.string(), z.number().positive()),
+  }),
+});
+
+/**
+ * Zod Schema for the monthly compensation at one disability rating
+ *
+ * Dependent rates apply from 30%; lower ratings pay the same with or without
+ * dependents.
+ */
+export const CompensationRateSchema = z
+  .object({
+    rating: z.number().int().min(10).max(100).multipleOf(10),
+    veteranAlone: z.number().positive(),
+    withSpouse: z.number().positive().optional(),
+    withChild: z.number().positive().optional(),
+    withSpouseAndChild: z.number().positive().optional(),
+    /** Each child under 18 after the first */
+    additionalChild: z.number().positive().optional(),
+  })
+  .refine(
+    (rate) =>
+      rate.rating < 30 ||
+      (rate.withSpouse && rate.withChild && rate.withSpouseAndChild && rate.additionalChild),
+    { message: 'Ratings of 30% and above need dependent rates' }
+  );
+
+/**
+ * Zod Schema for the bundled VA compensation rate table
+ */
+export const CompensationRatesSchema = z.object({
+  /** ISO date the rates took effect (they change each December with the COLA) */
+  effectiveDate: z.iso.date(),
+  source: z.string().min(1),
+  rates: z.array(CompensationRateSchema).length(10),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type GiBillRates = z.infer<typeof GiBillRatesSchema>;
+export type CompensationRate = z.infer<typeof CompensationRateSchema>;
+export type CompensationRates = z.infer<typeof CompensationRatesSchema>;
+
+/**
+ * A veteran's estimated Post-9/11 GI Bill benefit for studying in one location
+ */
+export interface GiBillBenefit {
+  /** Benefit level (0 when not eligible) */
+  percent: number;
+  /** Months of entitlement left */
+  entitlementMonths: number;
+  /** Housing allowance while enrolled more than half time, per month */
+  monthlyHousing: number;
+  annualBookStipend: number;
+  /** Most the GI Bill pays a private school per year at this benefit level */
+  annualTuitionCap: number;
+  /** Market the housing allowance is priced for */
+  housingMarket: string;
+}
+
+/**
+ * A veteran's estimated VA disability compensation
+ */
+export interface VaCompensation {
+  rating: number;
+  monthly: number;
+  annual: number;
+  /** Dependents the rate includes */
+  spouse: boolean;
+  children: number;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { calendarFileName, escapeText, foldLine, roadmapToIcs } from '../index';
+import { annualIncome } from '../../analyzer/income';
+import { durationDays, durationMonths, ongoing } from '../../analyzer/duration';
+import type { CareerPathway } from '../../analyzer/types';
+
+const pathway = {
+  type: 'fast-income',
+  title: 'Network Technician',
+  description: 'Entry-level network support',
+  incomeTrajectory: {
+    year1: annualIncome(50000),
+    year3: annualIncome(60000),
+    year5: annualIncome(75000),
+  },
+  roadmap: [
+    {
+      phase: 'Month 1-2: Certifications',
+      duration: durationMonths(1, 2),
+      steps: ['Earn CompTIA Network+', 'Update resume; add clearance'],
+    },
+    { phase: 'Keep Learning', duration: ongoing(), steps: ['Join a local user group'] },
+  ],
+  requiredCredentials: [],
+  familyImpact: { timeCommitment: '', flexibility: '', stability: '', notes: '' },
+  whyThisPath: '',
+} satisfies CareerPathway;
+
+const now = new Date('2026-10-19T15:30:00.000Z');
+
+describe('roadmapToIcs', () => {
+  const ics = roadmapToIcs(pathway, { startDate: '2027-06-30', now });
+  const lines = ics.split('\r\n');
+
+  it('wraps events and to-dos in a VCALENDAR with CRLF line endings', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines.some((line) => line.startsWith('PRODID:'))).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(3);
+  });
+
+  it('sizes phase events from their durations, back to back from the start date', () => {
+    expect(lines).toContain('DTSTART;VALUE=DATE:20270630');
+    expect(lines).toContain('DURATION:P61D');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20270830');
+    expect(lines).toContain('SUMMARY:Keep Learning (ongoing)');
+    expect(lines).toContain('DTSTAMP:20261019T153000Z');
+  });
+
+  it('makes each step a to-do due when its phase ends', () => {
+    const todo = ics.slice(ics.indexOf('BEGIN:VTODO'), ics.indexOf('END:VTODO'));
+
+    expect(todo).toContain('SUMMARY:Earn CompTIA Network+');
+    expect(todo).toContain('DUE;VALUE=DATE:20270830');
+    expect(todo).toContain('RELATED-TO:fast-income-network-technician-phase-1@');
+    expect(ics).toContain('SUMMARY:Update resume\\; add clearance');
+  });
+
+  it('starts from the first dated phase when no start date is chosen', () => {
+    const dated = {
+      ...pathway,
+      roadmap: [
+        {
+          phase: 'SkillBridge: Onward to Opportunity',
+          duration: durationDays(84),
+          startDate: '2027-04-07',
+          endDate: '2027-06-30',
+          steps: ['Train'],
+        },
+        ...pathway.roadmap,
+      ],
+    };
+
+    expect(roadmapToIcs(dated, { now })).toContain('DTSTART;VALUE=DATE:20270407');
+  });
+});
+
+describe('iCalendar text helpers', () => {
+  it('escapes TEXT values', () => {
+    expect(escapeText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+  });
+
+  it('folds lines at 75 octets without splitting characters', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`).split('\r\n');
+    const encoder = new TextEncoder();
+
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(folded.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(folded.map((line, index) => (index ? line.slice(1) : line)).join('')).toBe(
+      `SUMMARY:${'é'.repeat(60)}`
+    );
+  });
+
+  it('names files after the pathway', () => {
+    expect(calendarFileName(pathway)).toBe('network-technician-roadmap.ics');
+  });
+});
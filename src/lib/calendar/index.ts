@@ -0,0 +1,161 @@
+import type { CareerPathway } from '../analyzer/types';
+import { scheduleRoadmap } from '../analyzer/milestones';
+import { addDays, daysBetween, today as currentDate } from '../dates';
+
+/**
+ * Roadmap Calendar Export
+ *
+ * Converts a pathway's roadmap into an iCalendar (RFC 5545) file that
+ * veterans and spouses can import into Google Calendar, Outlook or Apple
+ * Calendar. Each phase becomes an all-day event whose length comes from the
+ * phase duration, laid back to back from the chosen start date, and each step
+ * becomes a to-do due when its phase ends.
+ *
+ * Usage:
+ *   const ics = roadmapToIcs(pathway, { startDate: '2027-06-30' });
+ */
+
+export interface RoadmapCalendarOptions {
+  /** ISO calendar date the first phase starts; defaults to the first dated phase, or today */
+  startDate?: string;
+  /** Creation time stamped on every component; defaults to now */
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//Veteran Transition Navigator//Roadmap//EN';
+const UID_DOMAIN = 'veteran-transition-navigator';
+
+/** Content lines are folded at 75 octets (RFC 5545 section 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet lines joined by CRLF and a space,
+ * without splitting multi-byte characters
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+const formatDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const formatTimestamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Build an .ics file name for a pathway, e.g. "network-technician-roadmap.ics"
+ */
+export function calendarFileName(pathway: Pick<CareerPathway, 'title'>): string {
+  return `${slugify(pathway.title) || 'career'}-roadmap.ics`;
+}
+
+/**
+ * Convert a pathway's roadmap into an iCalendar file
+ *
+ * Phase and step UIDs depend on the pathway and their position only, so
+ * importing the file again with a new start date moves the existing events
+ * instead of duplicating them.
+ */
+export function roadmapToIcs(
+  pathway: CareerPathway,
+  { startDate, now = new Date() }: RoadmapCalendarOptions = {}
+): string {
+  const start = startDate ?? pathway.roadmap.find((phase) => phase.startDate)?.startDate;
+  const { roadmap } = scheduleRoadmap(
+    {
+      ...pathway,
+      roadmap: pathway.roadmap.map(({ phase, duration, steps }) => ({ phase, duration, steps })),
+    },
+    start ?? currentDate()
+  );
+
+  const stamp = formatTimestamp(now);
+  const uidPrefix = `${slugify(pathway.type)}-${slugify(pathway.title)}`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${pathway.title} Roadmap`)}`,
+  ];
+
+  roadmap.forEach((phase, phaseIndex) => {
+    const phaseStart = phase.startDate!;
+    const phaseUid = `${uidPrefix}-phase-${phaseIndex + 1}@${UID_DOMAIN}`;
+    // Ongoing phases are marked on the day they begin
+    const days = phase.endDate ? daysBetween(phaseStart, phase.endDate) : 1;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${phaseUid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(phaseStart)}`,
+      `DURATION:P${days}D`,
+      `SUMMARY:${escapeText(phase.endDate ? phase.phase : `${phase.phase} (ongoing)`)}`,
+      `DESCRIPTION:${escapeText(phase.steps.map((step) => `- ${step}`).join('\n'))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+
+    phase.steps.forEach((step, stepIndex) => {
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:${uidPrefix}-phase-${phaseIndex + 1}-step-${stepIndex + 1}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(phaseStart)}`,
+        `DUE;VALUE=DATE:${formatDate(phase.endDate ?? addDays(phaseStart, 1))}`,
+        `SUMMARY:${escapeText(step)}`,
+        `DESCRIPTION:${escapeText(`${pathway.title}: ${phase.phase}`)}`,
+        `RELATED-TO:${phaseUid}`,
+        'STATUS:NEEDS-ACTION',
+        'END:VTODO'
+      );
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export { CalendarRequestSchema } from './types';
+export type { CalendarRequest } from './types';
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { CareerPathwaySchema } from '../analyzer/types';
+
+/**
+ * Body of POST /api/calendar: the pathway to export and the date its roadmap
+ * starts on (defaults to the first dated phase, or today)
+ */
+export const CalendarRequestSchema = z.object({
+  pathway: CareerPathwaySchema,
+  startDate: z.iso.date().optional(),
+});
+
+export type CalendarRequest = z.infer<typeof CalendarRequestSchema>;
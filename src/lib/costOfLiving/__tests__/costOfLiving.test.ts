@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustForCostOfLiving,
+  getCostOfLivingVersion,
+  isNationalAverage,
+  lookupMetro,
+  priceForMarket,
+  purchasingPower,
+  selectMarket,
+} from '../index';
+import dataset from '../data/metros.json';
+import { MetroDatasetSchema } from '../types';
+
+describe('metro dataset', () => {
+  it('validates against the schema', () => {
+    expect(MetroDatasetSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has unique ids and places', () => {
+    const ids = dataset.metros.map((metro) => metro.id);
+    const places = dataset.metros.flatMap((metro) => metro.places);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(places).size).toBe(places.length);
+  });
+
+  it('reports its version', () => {
+    expect(getCostOfLivingVersion()).toEqual({
+      version: dataset.version,
+      source: dataset.source,
+    });
+  });
+});
+
+describe('lookupMetro', () => {
+  it('matches cities and installations', () => {
+    expect(lookupMetro('Seattle, WA').id).toBe('seattle');
+    expect(lookupMetro('Fort Liberty, NC').id).toBe('fayetteville-nc');
+    expect(lookupMetro('Camp Lejeune').id).toBe('jacksonville-nc');
+  });
+
+  it('returns market demand and state', () => {
+    expect(lookupMetro('Fort Meade, MD')).toMatchObject({ state: 'MD', federalHub: true });
+    expect(lookupMetro('Seattle, WA').strongCareerFields).toContain('it-communications');
+  });
+
+  it('uses the state to tell same-named cities apart', () => {
+    expect(lookupMetro('Jacksonville, NC').id).toBe('jacksonville-nc');
+    expect(lookupMetro('Jacksonville, FL').id).toBe('jacksonville-fl');
+  });
+
+  it('falls back to the U.S. average', () => {
+    const market = lookupMetro('Somewhere, MT');
+    expect(isNationalAverage(market)).toBe(true);
+    expect(market).toMatchObject({ costIndex: 100, wageIndex: 100 });
+  });
+});
+
+describe('selectMarket', () => {
+  const profile = {
+    currentLocation: 'Fort Cavazos, TX',
+    willingToRelocate: true,
+    preferredLocations: ['San Diego, CA', 'Raleigh, NC', 'Somewhere, MT'],
+  };
+
+  it('picks the preferred location with the most purchasing power', () => {
+    const { location, market } = selectMarket(profile);
+    expect(location).toBe('Raleigh, NC');
+    expect(purchasingPower(market)).toBeGreaterThan(purchasingPower(lookupMetro('San Diego, CA')));
+  });
+
+  it('uses the current location when not relocating', () => {
+    expect(selectMarket({ ...profile, willingToRelocate: false }).market.id).toBe('killeen-temple');
+  });
+
+  it('uses the current location when no preferred location is known', () => {
+    const { location } = selectMarket({ ...profile, preferredLocations: ['Somewhere, MT'] });
+    expect(location).toBe(profile.currentLocation);
+  });
+});
+
+describe('market pricing', () => {
+  const seattle = lookupMetro('Seattle, WA');
+
+  it('prices national salaries with the wage index', () => {
+    expect(priceForMarket(50000, seattle)).toBe((50000 * seattle.wageIndex) / 100);
+  });
+
+  it('converts local pay to U.S.-average dollars with the cost index', () => {
+    expect(adjustForCostOfLiving(113000, seattle)).toBeCloseTo(11300000 / seattle.costIndex);
+    expect(adjustForCostOfLiving(50000, lookupMetro('El Paso, TX'))).toBeGreaterThan(50000);
+  });
+});
@@ -0,0 +1,100 @@
+import dataset from './data/metros.json';
+import { MetroDatasetSchema, MetroMarket } from './types';
+import { mentionsPlace } from '../places';
+
+/**
+ * Metro Cost of Living
+ *
+ * Bundled cost-of-living and wage indexes for metro areas around major
+ * installations and job markets (`data/metros.json`, U.S. average = 100).
+ * Demo salaries are national figures; the wage index prices them for a
+ * market, and the cost index turns market pay back into national-average
+ * purchasing power so families can compare locations.
+ *
+ * Usage:
+ *   const market = lookupMetro('Fort Liberty, NC');  // Fayetteville, NC
+ *   priceForMarket(60000, market);                   // local pay
+ *   adjustForCostOfLiving(48000, market);            // what that pay buys nationally
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const metros = MetroDatasetSchema.parse(dataset);
+
+/**
+ * Find the metro for a free-text location, falling back to the U.S. average
+ */
+export function lookupMetro(location: string): MetroMarket {
+  const match = metros.metros.find(({ places }) =>
+    places.some((place) => mentionsPlace(location, place))
+  );
+
+  if (!match) return metros.national;
+  const { id, name, state, costIndex, wageIndex, demandLevel, strongCareerFields, federalHub } =
+    match;
+  return { id, name, state, costIndex, wageIndex, demandLevel, strongCareerFields, federalHub };
+}
+
+/**
+ * Whether a market is the national fallback rather than a listed metro
+ */
+export function isNationalAverage(market: MetroMarket): boolean {
+  return market.id === metros.national.id;
+}
+
+/**
+ * How far local pay goes compared with the U.S. average (above 1 is better)
+ */
+export function purchasingPower(market: MetroMarket): number {
+  return market.wageIndex / market.costIndex;
+}
+
+/**
+ * Pick the location (and its market) to price pathways for
+ *
+ * Veterans willing to relocate get the preferred location with the strongest
+ * purchasing power; everyone else (and anyone whose preferred locations are
+ * not in the dataset) gets their current location.
+ */
+export function selectMarket(profile: {
+  currentLocation: string;
+  willingToRelocate: boolean;
+  preferredLocations: string[];
+}): { location: string; market: MetroMarket } {
+  const [preferred] = profile.willingToRelocate
+    ? profile.preferredLocations
+        .map((location) => ({ location, market: lookupMetro(location) }))
+        .filter(({ market }) => !isNationalAverage(market))
+        .sort((a, b) => purchasingPower(b.market) - purchasingPower(a.market))
+    : [];
+
+  return (
+    preferred ?? {
+      location: profile.currentLocation,
+      market: lookupMetro(profile.currentLocation),
+    }
+  );
+}
+
+/**
+ * Price a national salary for a market using its wage index
+ */
+export function priceForMarket(amount: number, market: MetroMarket): number {
+  return (amount * market.wageIndex) / 100;
+}
+
+/**
+ * Express local pay in U.S.-average dollars using the market's cost index
+ */
+export function adjustForCostOfLiving(amount: number, market: MetroMarket): number {
+  return (amount * 100) / market.costIndex;
+}
+
+/**
+ * Version details of the bundled metro dataset
+ */
+export function getCostOfLivingVersion(): { version: string; source: string } {
+  return { version: metros.version, source: metros.source };
+}
+
+export type { DemandLevel, MetroDataset, MetroIndex, MetroMarket } from './types';
+export { DEMAND_LEVELS } from './types';
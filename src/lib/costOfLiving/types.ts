@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { CAREER_FIELDS } from '../crosswalk/types';
+
+/**
+ * How easy it is to find work in a market
+ */
+export const DEMAND_LEVELS = ['low', 'moderate', 'high'] as const;
+
+/**
+ * Zod Schema for a metro area's cost-of-living and wage indexes (U.S. average = 100)
+ */
+export const MetroIndexSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** Two-letter code of the metro's principal state */
+  state: z.string().length(2),
+  /** Price level for goods, services and housing */
+  costIndex: z.number().positive(),
+  /** Typical wage level for the same occupations */
+  wageIndex: z.number().positive(),
+  /** Overall job-market demand */
+  demandLevel: z.enum(DEMAND_LEVELS),
+  /** Career fields with above-average demand in this market */
+  strongCareerFields: z.array(z.enum(CAREER_FIELDS)),
+  /** Large federal civilian workforce (installations, agency headquarters) */
+  federalHub: z.boolean(),
+  /** Lowercase place names matched against free-text locations ("tacoma", "fort liberty") */
+  places: z.array(z.string().min(1)),
+});
+
+/**
+ * Zod Schema for the bundled metro index dataset
+ */
+export const MetroDatasetSchema = z.object({
+  version: z.string().min(1),
+  source: z.string().min(1),
+  national: MetroIndexSchema.omit({ state: true, places: true }),
+  metros: z.array(MetroIndexSchema),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type DemandLevel = (typeof DEMAND_LEVELS)[number];
+export type MetroIndex = z.infer<typeof MetroIndexSchema>;
+export type MetroDataset = z.infer<typeof MetroDatasetSchema>;
+
+/**
+ * A metro's indexes without its place list (what lookups return); the national
+ * fallback has no state
+ */
+export type MetroMarket = Omit<MetroIndex, 'places' | 'state'> & { state?: string };
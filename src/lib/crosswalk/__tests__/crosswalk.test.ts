@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findMilitaryBranch,
+  getCrosswalkVersion,
+  isMilitaryBranch,
+  lookupMilitaryCode,
+  normalizeMilitaryCode,
+} from '../index';
+import dataset from '../data/crosswalk.json';
+import { CrosswalkDatasetSchema } from '../types';
+
+describe('crosswalk dataset', () => {
+  it('validates against the schema', () => {
+    expect(CrosswalkDatasetSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has no duplicate codes within a branch', () => {
+    const keys = dataset.entries.map((entry) => `${entry.branch}:${entry.code}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('covers every branch', () => {
+    const branches = new Set(dataset.entries.map((entry) => entry.branch));
+    expect(branches).toEqual(
+      new Set(['Army', 'Navy', 'Air Force', 'Marine Corps', 'Coast Guard', 'Space Force'])
+    );
+  });
+
+  it('reports its version', () => {
+    expect(getCrosswalkVersion()).toEqual({
+      version: dataset.version,
+      onetTaxonomy: dataset.onetTaxonomy,
+    });
+  });
+});
+
+describe('normalizeMilitaryCode', () => {
+  it('strips Army skill levels and identifiers', () => {
+    expect(normalizeMilitaryCode('25b10')).toEqual(['25B10', '25B']);
+  });
+
+  it('generalizes AFSC skill levels, prefixes and shredouts', () => {
+    expect(normalizeMilitaryCode('3D052')).toContain('3D0X2');
+    expect(normalizeMilitaryCode('A3D0X2B')).toContain('3D0X2');
+  });
+
+  it('strips Navy and Coast Guard paygrades from ratings', () => {
+    expect(normalizeMilitaryCode('LS1')).toContain('LS');
+    expect(normalizeMilitaryCode('HMCS')).toContain('HM');
+    expect(normalizeMilitaryCode('AMTC')).toContain('AMT');
+  });
+
+  it('returns no candidates for blank input', () => {
+    expect(normalizeMilitaryCode('  ')).toEqual([]);
+  });
+});
+
+describe('lookupMilitaryCode', () => {
+  it('finds Army MOS codes', () => {
+    const [match] = lookupMilitaryCode('68W', 'Army');
+
+    expect(match.title).toBe('Combat Medic Specialist');
+    expect(match.occupations.map((occupation) => occupation.socCode)).toContain('29-2042.00');
+  });
+
+  it('finds Marine Corps MOS codes', () => {
+    expect(lookupMilitaryCode('0311')[0]).toMatchObject({
+      branch: 'Marine Corps',
+      careerField: 'combat-arms',
+    });
+  });
+
+  it('finds ratings entered with a paygrade', () => {
+    expect(lookupMilitaryCode('LS2', 'Navy')[0].title).toBe('Logistics Specialist');
+  });
+
+  it('finds AFSCs entered with a skill level', () => {
+    expect(lookupMilitaryCode('3D172', 'Air Force')[0].title).toBe('Cyber Transport Systems');
+  });
+
+  it('returns every branch for shared codes unless a branch is given', () => {
+    expect(lookupMilitaryCode('BM').map((entry) => entry.branch)).toEqual(['Navy', 'Coast Guard']);
+    expect(lookupMilitaryCode('BM', 'coast guard').map((entry) => entry.branch)).toEqual([
+      'Coast Guard',
+    ]);
+  });
+
+  it('returns an empty array for unknown codes', () => {
+    expect(lookupMilitaryCode('ZZZ')).toEqual([]);
+    expect(lookupMilitaryCode('11B', 'Navy')).toEqual([]);
+  });
+});
+
+describe('isMilitaryBranch', () => {
+  it('accepts intake form branch names only', () => {
+    expect(isMilitaryBranch('Space Force')).toBe(true);
+    expect(isMilitaryBranch('Merchant Marine')).toBe(false);
+  });
+});
+
+describe('findMilitaryBranch', () => {
+  it('matches branch names regardless of case and whitespace', () => {
+    expect(findMilitaryBranch('navy')).toBe('Navy');
+    expect(findMilitaryBranch(' AIR FORCE ')).toBe('Air Force');
+    expect(findMilitaryBranch('Merchant Marine')).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import dataset from './data/crosswalk.json';
+import { CrosswalkDatasetSchema, CrosswalkEntry, MILITARY_BRANCHES, MilitaryBranch } from './types';
+
+/**
+ * Military Occupation Crosswalk
+ *
+ * Maps Army/Marine Corps MOS codes, Navy ratings and NECs, Air Force/Space Force
+ * AFSCs and Coast Guard ratings to O*NET-SOC civilian occupations. The dataset
+ * is bundled with the app (`data/crosswalk.json`) and versioned so results can
+ * be traced back to the data they were grounded in.
+ *
+ * Usage:
+ *   lookupMilitaryCode('25B10', 'Army');
+ *   // [{ code: '25B', title: 'Information Technology Specialist', occupations: [...] }]
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const crosswalk = CrosswalkDatasetSchema.parse(dataset);
+
+/**
+ * Paygrade suffixes appended to Navy and Coast Guard ratings ("LS1", "ITC", "HMCS")
+ */
+const RATING_SUFFIX = /^([A-Z]{2,3}?)(1|2|3|C|CS|CM|SN|SA|FN|FA|AN|AA|HN|HA|CN|CA)$/;
+
+/**
+ * Build the candidate codes to try for a free-text job code, most specific first
+ *
+ * - Army MOS with skill level / ASI ("25B10", "68W1P") → "25B"
+ * - AFSC with skill level, prefix or shredout ("3D052", "A3D052", "3D0X2A") → "3D0X2"
+ * - Navy / Coast Guard rating with paygrade ("LS1", "ITC", "AMTCS") → "LS", "IT", "AMT"
+ */
+export function normalizeMilitaryCode(code: string): string[] {
+  const cleaned = code.toUpperCase().replace(/[\s-]/g, '');
+  if (!cleaned) return [];
+
+  const candidates = [cleaned];
+
+  const mos = cleaned.match(/^(\d{2}[A-Z])[\dA-Z]+$/);
+  if (mos) candidates.push(mos[1]);
+
+  const afsc = cleaned.match(/^[A-Z]?(\d[A-Z]\d)[X\d](\d)[A-Z]?$/);
+  if (afsc) candidates.push(`${afsc[1]}X${afsc[2]}`);
+
+  const rating = cleaned.match(RATING_SUFFIX);
+  if (rating) candidates.push(rating[1]);
+
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Check whether a string is one of the crosswalk's branch names
+ */
+export function isMilitaryBranch(value: string): value is MilitaryBranch {
+  return (MILITARY_BRANCHES as readonly string[]).includes(value);
+}
+
+/**
+ * Find the crosswalk branch name for free-text input, ignoring case and
+ * surrounding whitespace (`"navy"` → `"Navy"`)
+ */
+export function findMilitaryBranch(value: string): MilitaryBranch | undefined {
+  const normalized = value.trim().toLowerCase();
+  return MILITARY_BRANCHES.find((branch) => branch.toLowerCase() === normalized);
+}
+
+/**
+ * Look up the civilian equivalents of a military job code
+ *
+ * @param code - Free-text MOS, rating, NEC or AFSC (as entered on the intake form)
+ * @param branch - Optional branch to disambiguate shared codes (e.g. Navy vs Coast Guard "BM")
+ * @returns Matching entries for the most specific candidate code, or an empty array
+ */
+export function lookupMilitaryCode(code: string, branch?: string): CrosswalkEntry[] {
+  const entries = branch
+    ? crosswalk.entries.filter((entry) => entry.branch.toLowerCase() === branch.toLowerCase())
+    : crosswalk.entries;
+
+  for (const candidate of normalizeMilitaryCode(code)) {
+    const matches = entries.filter((entry) => entry.code === candidate);
+    if (matches.length) return matches;
+  }
+
+  return [];
+}
+
+/**
+ * All entries in the bundled crosswalk
+ */
+export function listCrosswalkEntries(): CrosswalkEntry[] {
+  return crosswalk.entries;
+}
+
+/**
+ * Version details of the bundled crosswalk dataset
+ */
+export function getCrosswalkVersion(): { version: string; onetTaxonomy: string } {
+  return { version: crosswalk.version, onetTaxonomy: crosswalk.onetTaxonomy };
+}
+
+export type {
+  CareerField,
+  CivilianOccupation,
+  CrosswalkEntry,
+  CrosswalkDataset,
+  MilitaryBranch,
+} from './types';
+export { CAREER_FIELDS, CODE_TYPES, MILITARY_BRANCHES } from './types';
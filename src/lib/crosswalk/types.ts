@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+/**
+ * Military branches covered by the crosswalk (matches the intake form options)
+ */
+export const MILITARY_BRANCHES = [
+  'Army',
+  'Navy',
+  'Air Force',
+  'Marine Corps',
+  'Coast Guard',
+  'Space Force',
+] as const;
+
+/**
+ * Kinds of military occupation codes
+ *
+ * - `mos`: Army / Marine Corps Military Occupational Specialty
+ * - `rating`: Navy / Coast Guard enlisted rating
+ * - `nec`: Navy Enlisted Classification
+ * - `afsc`: Air Force / Space Force Specialty Code
+ */
+export const CODE_TYPES = ['mos', 'rating', 'nec', 'afsc'] as const;
+
+/**
+ * Broad civilian career fields used to group crosswalk entries
+ */
+export const CAREER_FIELDS = [
+  'combat-arms',
+  'it-communications',
+  'logistics-supply-chain',
+  'medical-healthcare',
+  'aviation-maintenance',
+  'law-enforcement',
+  'intelligence',
+  'engineering-construction',
+  'mechanical-maintenance',
+  'maritime-operations',
+  'administration',
+] as const;
+
+/**
+ * Zod Schema for an O*NET-SOC occupation
+ */
+export const CivilianOccupationSchema = z.object({
+  socCode: z.string().regex(/^\d{2}-\d{4}\.\d{2}$/, 'Must be an O*NET-SOC code (e.g. 15-1232.00)'),
+  title: z.string().min(1),
+});
+
+/**
+ * Zod Schema for a crosswalk entry (one military code → civilian occupations)
+ */
+export const CrosswalkEntrySchema = z.object({
+  code: z.string().min(1),
+  branch: z.enum(MILITARY_BRANCHES),
+  codeType: z.enum(CODE_TYPES),
+  title: z.string().min(1),
+  careerField: z.enum(CAREER_FIELDS),
+  occupations: z.array(CivilianOccupationSchema).min(1),
+});
+
+/**
+ * Zod Schema for the bundled crosswalk dataset
+ */
+export const CrosswalkDatasetSchema = z.object({
+  version: z.string().min(1),
+  onetTaxonomy: z.string().min(1),
+  entries: z.array(CrosswalkEntrySchema),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type MilitaryBranch = (typeof MILITARY_BRANCHES)[number];
+export type CareerField = (typeof CAREER_FIELDS)[number];
+export type CivilianOccupation = z.infer<typeof CivilianOccupationSchema>;
+export type CrosswalkEntry = z.infer<typeof CrosswalkEntrySchema>;
+export type CrosswalkDataset = z.infer<typeof CrosswalkDatasetSchema>;
@@ -0,0 +1,64 @@
+/**
+ * Calendar Dates
+ *
+ * Profile and roadmap dates are ISO calendar dates ("2027-03-31") without a
+ * time of day. These helpers do day arithmetic in UTC so results do not shift
+ * with the server's time zone. Safe to import from client components.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an ISO calendar date to midnight UTC
+ */
+export function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Format a date as an ISO calendar date, using its UTC day
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date in UTC
+ */
+export function today(): string {
+  return toIsoDate(new Date());
+}
+
+/**
+ * Add (or with a negative count, subtract) days from an ISO date
+ */
+export function addDays(value: string, days: number): string {
+  return toIsoDate(new Date(parseIsoDate(value).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * Whole days from one ISO date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * The later of two ISO dates
+ */
+export function laterDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+/**
+ * Format an ISO date for display, e.g. "Mar 31, 2027"
+ */
+export function formatIsoDate(value: string): string {
+  return parseIsoDate(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateFederalGrades,
+  estimateVeteransPreference,
+  getGsPayTableInfo,
+  gsBasePay,
+  gsSalary,
+  lookupLocality,
+  normalizePayGrade,
+  PAY_GRADES,
+} from '../index';
+import dataset from '../data/gs-pay.json';
+import { GsPayDatasetSchema } from '../types';
+
+describe('GS pay dataset', () => {
+  it('validates against the schema', () => {
+    expect(GsPayDatasetSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has no place listed under two localities', () => {
+    const places = dataset.localities.flatMap((locality) => locality.places);
+    expect(new Set(places).size).toBe(places.length);
+  });
+
+  it('reports its effective year', () => {
+    expect(getGsPayTableInfo().effectiveYear).toBe(dataset.effectiveYear);
+  });
+});
+
+describe('normalizePayGrade', () => {
+  it('reads pay grades in any format', () => {
+    expect(normalizePayGrade('E-5')).toBe('E-5');
+    expect(normalizePayGrade('e5')).toBe('E-5');
+    expect(normalizePayGrade('O 3')).toBe('O-3');
+    expect(normalizePayGrade('O-10')).toBe('O-10');
+    expect(normalizePayGrade('CW3')).toBe('W-3');
+    expect(normalizePayGrade('Chief Warrant Officer 4')).toBe('W-4');
+  });
+
+  it('takes the most senior grade when several are given', () => {
+    expect(normalizePayGrade('E-5, O-3')).toBe('O-3');
+    expect(normalizePayGrade('Staff Sergeant (E-6)', 'Army')).toBe('E-6');
+  });
+
+  it('reads rank titles per branch', () => {
+    expect(normalizePayGrade('SSG', 'Army')).toBe('E-6');
+    expect(normalizePayGrade('Staff Sergeant', 'Air Force')).toBe('E-5');
+    expect(normalizePayGrade('Gunnery Sergeant', 'Marine Corps')).toBe('E-7');
+    expect(normalizePayGrade('Capt.', 'Marine Corps')).toBe('O-3');
+    expect(normalizePayGrade('Captain', 'Navy')).toBe('O-6');
+    expect(normalizePayGrade('Petty Officer First Class', 'Coast Guard')).toBe('E-6');
+    expect(normalizePayGrade('TSgt', 'Space Force')).toBe('E-6');
+  });
+
+  it('prefers the longest title', () => {
+    expect(normalizePayGrade('Lieutenant Commander', 'Navy')).toBe('O-4');
+    expect(normalizePayGrade('Sergeant Major', 'Army')).toBe('E-9');
+    expect(normalizePayGrade('Senior Master Sergeant', 'Air Force')).toBe('E-8');
+  });
+
+  it('reads Navy and Coast Guard rates', () => {
+    expect(normalizePayGrade('HM2', 'Navy')).toBe('E-5');
+    expect(normalizePayGrade('ITC', 'Navy')).toBe('E-7');
+    expect(normalizePayGrade('BMCS', 'Coast Guard')).toBe('E-8');
+  });
+
+  it('reads only crosswalk ratings as rates when the branch is unknown', () => {
+    expect(normalizePayGrade('HM2')).toBe('E-5');
+    expect(normalizePayGrade('YNCS')).toBe('E-8');
+    expect(normalizePayGrade('doc')).toBeUndefined();
+    expect(normalizePayGrade('abc')).toBeUndefined();
+    expect(normalizePayGrade('QMC', 'Navy')).toBe('E-7');
+  });
+
+  it('tries every branch when the branch is unknown', () => {
+    expect(normalizePayGrade('Lance Corporal')).toBe('E-3');
+  });
+
+  it('returns undefined for unrecognized ranks', () => {
+    expect(normalizePayGrade('Team Lead', 'Army')).toBeUndefined();
+  });
+});
+
+describe('estimateFederalGrades', () => {
+  it('raises GS grades with seniority', () => {
+    const minimums = PAY_GRADES.map((grade) => estimateFederalGrades(grade).gs.min);
+    const enlisted = minimums.slice(0, 9);
+    expect(enlisted).toEqual([...enlisted].sort((a, b) => a - b));
+    expect(estimateFederalGrades('O-3').gs).toEqual({ min: 11, max: 12 });
+  });
+
+  it('estimates Wage Grade only for enlisted and warrant officers', () => {
+    expect(estimateFederalGrades('E-6').wg).toEqual({ min: 10, max: 11 });
+    expect(estimateFederalGrades('O-3').wg).toBeUndefined();
+  });
+});
+
+describe('estimateVeteransPreference', () => {
+  it('gives 5-point preference for qualifying service', () => {
+    const preference = estimateVeteransPreference({ payGrade: 'E-5', yearsOfService: 4 });
+    expect(preference).toMatchObject({ category: 'TP', points: 5 });
+    expect(preference.hiringAuthorities).toHaveLength(2);
+  });
+
+  it('gives 10-point preference for a disability rating', () => {
+    expect(estimateVeteransPreference({ yearsOfService: 4, disabilityRating: 0 }).category).toBe(
+      'XP'
+    );
+    expect(estimateVeteransPreference({ yearsOfService: 4, disabilityRating: 20 }).category).toBe(
+      'CP'
+    );
+
+    const rated = estimateVeteransPreference({ yearsOfService: 4, disabilityRating: 50 });
+    expect(rated).toMatchObject({ category: 'CPS', points: 10 });
+    expect(rated.hiringAuthorities).toContain('30% or More Disabled Veteran appointment');
+  });
+
+  it('excludes retired field-grade officers without a disability', () => {
+    const retired = estimateVeteransPreference({ payGrade: 'O-5', yearsOfService: 22 });
+    expect(retired).toMatchObject({ category: 'none', points: 0 });
+    expect(retired.hiringAuthorities).toEqual(['Veterans Employment Opportunities Act (VEOA)']);
+
+    expect(
+      estimateVeteransPreference({ payGrade: 'O-5', yearsOfService: 22, disabilityRating: 30 })
+        .category
+    ).toBe('CPS');
+  });
+});
+
+describe('GS pay', () => {
+  it('returns the bundled step rates', () => {
+    expect(gsBasePay(7, 1)).toBe(42679);
+    expect(gsBasePay(7, 10)).toBe(55484);
+  });
+
+  it('interpolates steps and clamps out-of-range grades', () => {
+    expect(gsBasePay(7, 5)).toBeGreaterThan(gsBasePay(7, 4));
+    expect(gsBasePay(16, 1)).toBe(gsBasePay(15, 1));
+    expect(gsBasePay(9, 12)).toBe(gsBasePay(9, 10));
+  });
+
+  it('applies locality pay up to the pay cap', () => {
+    const restOfUs = lookupLocality('Fort Liberty, NC');
+    const sanFrancisco = lookupLocality('San Francisco, CA');
+
+    expect(gsSalary(9, 1, sanFrancisco)).toBeGreaterThan(gsSalary(9, 1, restOfUs));
+    expect(gsSalary(15, 10, sanFrancisco)).toBe(dataset.payCap);
+  });
+});
+
+describe('lookupLocality', () => {
+  it('matches cities and installations', () => {
+    expect(lookupLocality('San Diego, CA').id).toBe('san-diego');
+    expect(lookupLocality('Joint Base Lewis-McChord, WA').id).toBe('seattle');
+    expect(lookupLocality('Washington, D.C.').id).toBe('washington-baltimore');
+  });
+
+  it('uses the state to tell same-named cities apart', () => {
+    expect(lookupLocality('Arlington, VA').id).toBe('washington-baltimore');
+    expect(lookupLocality('Arlington, TX').id).toBe('dallas-fort-worth');
+  });
+
+  it('falls back to Rest of U.S.', () => {
+    expect(lookupLocality('Fort Liberty, NC')).toEqual(dataset.restOfUs);
+  });
+});
@@ -0,0 +1,85 @@
+import dataset from './data/gs-pay.json';
+import { GsPayDatasetSchema, LocalityArea } from './types';
+import { mentionsPlace } from '../places';
+
+/**
+ * Federal Employment
+ *
+ * Offline General Schedule pay with locality adjustment, rank-to-grade
+ * estimates and veterans' preference, used to model the federal-service
+ * pathway. The pay table is bundled (`data/gs-pay.json`) and stamped with its
+ * effective year so figures can be traced back to the table they came from.
+ *
+ * Usage:
+ *   const payGrade = normalizePayGrade('SSG', 'Army');        // 'E-6'
+ *   const { gs } = estimateFederalGrades(payGrade);           // GS-6 to GS-8
+ *   gsSalary(gs.min, 1, lookupLocality('Fort Liberty, NC'));  // Rest of U.S. pay
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const payTable = GsPayDatasetSchema.parse(dataset);
+
+export const MIN_GS_GRADE = 1;
+export const MAX_GS_GRADE = 15;
+
+/**
+ * Annual GS base pay (before locality) for a grade and step
+ *
+ * Steps 1-10 are evenly spaced within a grade, so steps are interpolated from
+ * the bundled step 1 and step 10 rates. Grades and steps outside the table
+ * are clamped.
+ */
+export function gsBasePay(grade: number, step = 1): number {
+  const clampedGrade = Math.min(Math.max(Math.round(grade), MIN_GS_GRADE), MAX_GS_GRADE);
+  const clampedStep = Math.min(Math.max(Math.round(step), 1), 10);
+  const { step1, step10 } = payTable.grades.find((pay) => pay.grade === clampedGrade)!;
+
+  return Math.round(step1 + ((step10 - step1) * (clampedStep - 1)) / 9);
+}
+
+/**
+ * Find the GS locality pay area for a free-text location ("San Diego, CA"),
+ * falling back to Rest of U.S.
+ */
+export function lookupLocality(location: string): Omit<LocalityArea, 'places'> {
+  const match = payTable.localities.find(({ places }) =>
+    places.some((place) => mentionsPlace(location, place))
+  );
+
+  if (!match) return payTable.restOfUs;
+  const { id, name, percent } = match;
+  return { id, name, percent };
+}
+
+/**
+ * Annual GS salary with locality pay, limited by the statutory pay cap
+ */
+export function gsSalary(
+  grade: number,
+  step: number,
+  locality: Pick<LocalityArea, 'percent'> = payTable.restOfUs
+): number {
+  const adjusted = Math.round(gsBasePay(grade, step) * (1 + locality.percent / 100));
+  return Math.min(adjusted, payTable.payCap);
+}
+
+/**
+ * Details of the bundled pay table
+ */
+export function getGsPayTableInfo(): { effectiveYear: number; source: string } {
+  return { effectiveYear: payTable.effectiveYear, source: payTable.source };
+}
+
+export { estimateFederalGrades, normalizePayGrade } from './ranks';
+export { estimateVeteransPreference } from './preference';
+export type { VeteransPreferenceInput } from './preference';
+export type {
+  FederalGradeEstimate,
+  GradeRange,
+  GsPayDataset,
+  LocalityArea,
+  PayGrade,
+  VeteransPreference,
+  VeteransPreferenceCategory,
+} from './types';
+export { PAY_GRADES, VETERANS_PREFERENCE_CATEGORIES } from './types';
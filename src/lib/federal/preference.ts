@@ -0,0 +1,76 @@
+import { PayGrade, VeteransPreference, VeteransPreferenceCategory } from './types';
+
+/**
+ * Veterans' Preference
+ *
+ * Estimates the preference category (5 U.S.C. 2108) from the profile. Final
+ * eligibility is decided by the hiring agency from the DD-214 and VA letters;
+ * this assumes an honorable discharge and post-9/11 active duty service.
+ */
+
+export interface VeteransPreferenceInput {
+  payGrade?: PayGrade;
+  yearsOfService: number;
+  /** VA service-connected disability rating (0-100); omit when the veteran has none */
+  disabilityRating?: number;
+}
+
+const PREFERENCE_LABELS: Record<VeteransPreferenceCategory, string> = {
+  none: 'No preference',
+  TP: '5-point preference',
+  XP: '10-point preference (disability rated below 10%)',
+  CP: '10-point preference (compensable disability, 10-20%)',
+  CPS: '10-point preference (compensable disability, 30% or more)',
+};
+
+/**
+ * Retirees at O-4 and above only get preference with a disability
+ */
+const SENIOR_OFFICER_GRADES: PayGrade[] = ['O-4', 'O-5', 'O-6', 'O-7', 'O-8', 'O-9', 'O-10'];
+
+function preferenceCategory({
+  payGrade,
+  yearsOfService,
+  disabilityRating,
+}: VeteransPreferenceInput): VeteransPreferenceCategory {
+  if (disabilityRating !== undefined) {
+    if (disabilityRating >= 30) return 'CPS';
+    if (disabilityRating >= 10) return 'CP';
+    return 'XP';
+  }
+
+  const isRetired = yearsOfService >= 20;
+  if (isRetired && payGrade && SENIOR_OFFICER_GRADES.includes(payGrade)) return 'none';
+
+  // More than 180 consecutive days of active duty
+  return yearsOfService >= 0.5 ? 'TP' : 'none';
+}
+
+/**
+ * Estimate veterans' preference and the special hiring authorities that come with it
+ *
+ * - VEOA: any preference eligible, or 3+ years of active service
+ * - VRA: preference eligibles, up to GS-11, within 3 years of separation
+ * - 30% or More Disabled Veteran authority: rating of 30% or more
+ */
+export function estimateVeteransPreference(input: VeteransPreferenceInput): VeteransPreference {
+  const category = preferenceCategory(input);
+  const hiringAuthorities: string[] = [];
+
+  if (category !== 'none' || input.yearsOfService >= 3) {
+    hiringAuthorities.push('Veterans Employment Opportunities Act (VEOA)');
+  }
+  if (category !== 'none') {
+    hiringAuthorities.push("Veterans' Recruitment Appointment (VRA, up to GS-11)");
+  }
+  if (category === 'CPS') {
+    hiringAuthorities.push('30% or More Disabled Veteran appointment');
+  }
+
+  return {
+    category,
+    points: category === 'none' ? 0 : category === 'TP' ? 5 : 10,
+    label: PREFERENCE_LABELS[category],
+    hiringAuthorities,
+  };
+}
@@ -0,0 +1,273 @@
+import { FederalGradeEstimate, GradeRange, PAY_GRADES, PayGrade } from './types';
+import { listCrosswalkEntries } from '../crosswalk';
+
+/**
+ * Rank Normalization
+ *
+ * Turns the free-text `rank` from the intake form ("E-5", "SSG", "Petty Officer
+ * First Class", "HM2", "Capt") into a DoD pay grade, using the branch to settle
+ * titles that differ between services (an Army "Staff Sergeant" is an E-6, an
+ * Air Force one an E-5; a Navy "Captain" is an O-6).
+ */
+
+type RankSystem = 'army' | 'marine-corps' | 'navy' | 'air-force' | 'space-force';
+
+const RANK_SYSTEMS: Record<string, RankSystem> = {
+  army: 'army',
+  'marine corps': 'marine-corps',
+  navy: 'navy',
+  'coast guard': 'navy',
+  'air force': 'air-force',
+  'space force': 'space-force',
+};
+
+const AIR_FORCE_OFFICERS: Partial<Record<PayGrade, string[]>> = {
+  'O-1': ['2d lt', '2nd lt', '2lt', 'second lieutenant'],
+  'O-2': ['1st lt', '1lt', 'first lieutenant'],
+  'O-3': ['capt', 'captain'],
+  'O-4': ['maj', 'major'],
+  'O-5': ['lt col', 'ltcol', 'lieutenant colonel'],
+  'O-6': ['col', 'colonel'],
+  'O-7': ['brig gen', 'brigadier general'],
+  'O-8': ['maj gen', 'major general'],
+  'O-9': ['lt gen', 'lieutenant general'],
+  'O-10': ['gen', 'general'],
+};
+
+const SENIOR_AIR_FORCE_NCOS: Partial<Record<PayGrade, string[]>> = {
+  'E-6': ['tsgt', 'technical sergeant'],
+  'E-7': ['msgt', 'master sergeant'],
+  'E-8': ['smsgt', 'senior master sergeant'],
+  'E-9': ['cmsgt', 'chief master sergeant'],
+};
+
+/**
+ * Rank titles and abbreviations per service (lowercase, without periods)
+ */
+const RANK_TITLES: Record<RankSystem, Partial<Record<PayGrade, string[]>>> = {
+  army: {
+    'E-1': ['pv1', 'pvt', 'private'],
+    'E-2': ['pv2'],
+    'E-3': ['pfc', 'private first class'],
+    'E-4': ['spc', 'specialist', 'cpl', 'corporal'],
+    'E-5': ['sgt', 'sergeant'],
+    'E-6': ['ssg', 'staff sergeant'],
+    'E-7': ['sfc', 'sergeant first class'],
+    'E-8': ['msg', 'master sergeant', '1sg', 'first sergeant'],
+    'E-9': ['sgm', 'sergeant major', 'csm', 'command sergeant major'],
+    'W-1': ['wo1', 'warrant officer'],
+    'O-1': ['2lt', 'second lieutenant'],
+    'O-2': ['1lt', 'first lieutenant'],
+    'O-3': ['cpt', 'captain'],
+    'O-4': ['maj', 'major'],
+    'O-5': ['ltc', 'lieutenant colonel'],
+    'O-6': ['col', 'colonel'],
+    'O-7': ['bg', 'brigadier general'],
+    'O-8': ['mg', 'major general'],
+    'O-9': ['ltg', 'lieutenant general'],
+    'O-10': ['gen', 'general'],
+  },
+  'marine-corps': {
+    'E-1': ['pvt', 'private'],
+    'E-2': ['pfc', 'private first class'],
+    'E-3': ['lcpl', 'lance corporal'],
+    'E-4': ['cpl', 'corporal'],
+    'E-5': ['sgt', 'sergeant'],
+    'E-6': ['ssgt', 'staff sergeant'],
+    'E-7': ['gysgt', 'gunnery sergeant'],
+    'E-8': ['msgt', 'master sergeant', '1stsgt', 'first sergeant'],
+    'E-9': ['mgysgt', 'master gunnery sergeant', 'sgtmaj', 'sergeant major'],
+    'W-1': ['wo', 'warrant officer'],
+    'O-1': ['2ndlt', 'second lieutenant'],
+    'O-2': ['1stlt', 'first lieutenant'],
+    'O-3': ['capt', 'captain'],
+    'O-4': ['maj', 'major'],
+    'O-5': ['ltcol', 'lieutenant colonel'],
+    'O-6': ['col', 'colonel'],
+    'O-7': ['bgen', 'brigadier general'],
+    'O-8': ['majgen', 'major general'],
+    'O-9': ['ltgen', 'lieutenant general'],
+    'O-10': ['gen', 'general'],
+  },
+  navy: {
+    'E-1': ['sr', 'seaman recruit'],
+    'E-2': ['sa', 'seaman apprentice'],
+    'E-3': ['sn', 'seaman'],
+    'E-4': ['po3', 'petty officer third class'],
+    'E-5': ['po2', 'petty officer second class'],
+    'E-6': ['po1', 'petty officer first class'],
+    'E-7': ['cpo', 'chief petty officer', 'chief'],
+    'E-8': ['scpo', 'senior chief petty officer', 'senior chief'],
+    'E-9': ['mcpo', 'master chief petty officer', 'master chief'],
+    'W-1': ['wo1', 'warrant officer'],
+    'O-1': ['ens', 'ensign'],
+    'O-2': ['ltjg', 'lieutenant junior grade'],
+    'O-3': ['lt', 'lieutenant'],
+    'O-4': ['lcdr', 'lieutenant commander'],
+    'O-5': ['cdr', 'commander'],
+    'O-6': ['capt', 'captain'],
+    'O-7': ['rdml', 'rear admiral lower half'],
+    'O-8': ['radm', 'rear admiral'],
+    'O-9': ['vadm', 'vice admiral'],
+    'O-10': ['adm', 'admiral'],
+  },
+  'air-force': {
+    'E-1': ['ab', 'airman basic'],
+    'E-2': ['amn', 'airman'],
+    'E-3': ['a1c', 'airman first class'],
+    'E-4': ['sra', 'senior airman'],
+    'E-5': ['ssgt', 'staff sergeant'],
+    ...SENIOR_AIR_FORCE_NCOS,
+    ...AIR_FORCE_OFFICERS,
+  },
+  'space-force': {
+    'E-1': ['spc1', 'specialist 1'],
+    'E-2': ['spc2', 'specialist 2'],
+    'E-3': ['spc3', 'specialist 3'],
+    'E-4': ['spc4', 'specialist 4'],
+    'E-5': ['sgt', 'sergeant'],
+    ...SENIOR_AIR_FORCE_NCOS,
+    ...AIR_FORCE_OFFICERS,
+  },
+};
+
+/**
+ * Navy and Coast Guard rates written as rating + paygrade ("HM2", "ITC", "BMCS")
+ */
+const NAVY_RATE_PATTERN = /^([a-z]{2,3}?)(3|2|1|c|cs|cm)$/;
+
+/**
+ * Navy and Coast Guard ratings in the crosswalk, the only rates recognized when
+ * the branch is unknown (so that a word like "doc" is not read as a "DOC" rate)
+ */
+const KNOWN_RATINGS = new Set(
+  listCrosswalkEntries()
+    .filter((entry) => entry.codeType === 'rating')
+    .filter((entry) => entry.branch === 'Navy' || entry.branch === 'Coast Guard')
+    .map((entry) => entry.code.toLowerCase())
+);
+
+const NAVY_RATE_GRADES: Record<string, PayGrade> = {
+  '3': 'E-4',
+  '2': 'E-5',
+  '1': 'E-6',
+  c: 'E-7',
+  cs: 'E-8',
+  cm: 'E-9',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const seniority = (grade: PayGrade) => PAY_GRADES.indexOf(grade);
+
+function isPayGrade(value: string): value is PayGrade {
+  return (PAY_GRADES as readonly string[]).includes(value);
+}
+
+/**
+ * Find rank titles in text for one service, longest titles first so that
+ * "Lieutenant Commander" is not also read as "Commander"
+ */
+function matchRankTitles(text: string, system: RankSystem): { grade: PayGrade; name: string }[] {
+  const titles = Object.entries(RANK_TITLES[system])
+    .flatMap(([grade, names]) => (names ?? []).map((name) => ({ grade: grade as PayGrade, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const matches: { grade: PayGrade; name: string }[] = [];
+  let remaining = text;
+  for (const title of titles) {
+    const pattern = new RegExp(`(?<![a-z0-9])${escapeRegExp(title.name)}(?![a-z0-9])`, 'g');
+    if (pattern.test(remaining)) {
+      matches.push(title);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+  return matches;
+}
+
+/**
+ * Normalize a free-text rank to a DoD pay grade
+ *
+ * Accepts pay grades ("E-5", "o3", "CW2"), service rank titles and
+ * abbreviations, and Navy/Coast Guard rates ("HM2", "ITC"; without a branch, only
+ * ratings in the crosswalk). When several ranks
+ * are given ("E-5, O-3" for a prior-enlisted officer) the most senior wins.
+ *
+ * @param rank - Rank as entered on the intake form
+ * @param branch - Service branch; titles are tried for every service when omitted or unknown
+ * @returns The pay grade, or undefined when nothing in the text is recognized
+ */
+export function normalizePayGrade(rank: string, branch?: string): PayGrade | undefined {
+  const text = rank.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  const found: PayGrade[] = [];
+
+  for (const [, prefix, level] of text.matchAll(/(?<![a-z])([ewo])\s*-?\s*(\d{1,2})(?!\d)/g)) {
+    const grade = `${prefix.toUpperCase()}-${level}`;
+    if (isPayGrade(grade)) found.push(grade);
+  }
+  for (const [, level] of text.matchAll(/\b(?:cw|chief warrant officer)\s*-?\s*([2-5])\b/g)) {
+    found.push(`W-${level}` as PayGrade);
+  }
+
+  const system = branch ? RANK_SYSTEMS[branch.toLowerCase()] : undefined;
+  if (!found.length) {
+    // Without a known branch, trust the service whose titles match the most text
+    const systems = system ? [system] : (Object.keys(RANK_TITLES) as RankSystem[]);
+    const matchedLength = (matches: { name: string }[]) =>
+      matches.reduce((total, match) => total + match.name.length, 0);
+    const best = systems
+      .map((candidate) => matchRankTitles(text, candidate))
+      .reduce((a, b) => (matchedLength(b) > matchedLength(a) ? b : a));
+    found.push(...best.map((match) => match.grade));
+  }
+
+  if (!found.length && (!system || system === 'navy')) {
+    for (const token of text.split(/[^a-z0-9]+/)) {
+      const rate = token.match(NAVY_RATE_PATTERN);
+      if (rate && (system || KNOWN_RATINGS.has(rate[1]))) found.push(NAVY_RATE_GRADES[rate[2]]);
+    }
+  }
+
+  return found.sort((a, b) => seniority(b) - seniority(a))[0];
+}
+
+const range = (min: number, max: number = min): GradeRange => ({ min, max });
+
+/**
+ * Typical federal grades veterans qualify for at each pay grade. Federal
+ * hiring is based on specialized experience rather than rank, so these are
+ * starting points for a job search, not entitlements.
+ */
+const GRADE_EQUIVALENTS: Record<PayGrade, Omit<FederalGradeEstimate, 'payGrade'>> = {
+  'E-1': { gs: range(3, 4), wg: range(5, 6) },
+  'E-2': { gs: range(3, 4), wg: range(5, 6) },
+  'E-3': { gs: range(4, 5), wg: range(6, 7) },
+  'E-4': { gs: range(4, 5), wg: range(7, 8) },
+  'E-5': { gs: range(5, 7), wg: range(8, 10) },
+  'E-6': { gs: range(6, 8), wg: range(10, 11) },
+  'E-7': { gs: range(7, 9), wg: range(11, 12) },
+  'E-8': { gs: range(9, 11), wg: range(12, 13) },
+  'E-9': { gs: range(11, 12), wg: range(13, 14) },
+  'W-1': { gs: range(9, 11), wg: range(11, 12) },
+  'W-2': { gs: range(9, 11), wg: range(12, 13) },
+  'W-3': { gs: range(11, 12), wg: range(13, 14) },
+  'W-4': { gs: range(11, 12), wg: range(13, 14) },
+  'W-5': { gs: range(12, 13), wg: range(14, 15) },
+  'O-1': { gs: range(7, 9) },
+  'O-2': { gs: range(9, 11) },
+  'O-3': { gs: range(11, 12) },
+  'O-4': { gs: range(12, 13) },
+  'O-5': { gs: range(13, 14) },
+  'O-6': { gs: range(14, 15) },
+  'O-7': { gs: range(15) },
+  'O-8': { gs: range(15) },
+  'O-9': { gs: range(15) },
+  'O-10': { gs: range(15) },
+};
+
+/**
+ * Estimate comparable General Schedule and Wage Grade grades for a pay grade
+ */
+export function estimateFederalGrades(payGrade: PayGrade): FederalGradeEstimate {
+  return { payGrade, ...GRADE_EQUIVALENTS[payGrade] };
+}
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+/**
+ * Military pay grades, ordered from most junior to most senior
+ * (enlisted, then warrant officers, then commissioned officers)
+ */
+export const PAY_GRADES = [
+  'E-1',
+  'E-2',
+  'E-3',
+  'E-4',
+  'E-5',
+  'E-6',
+  'E-7',
+  'E-8',
+  'E-9',
+  'W-1',
+  'W-2',
+  'W-3',
+  'W-4',
+  'W-5',
+  'O-1',
+  'O-2',
+  'O-3',
+  'O-4',
+  'O-5',
+  'O-6',
+  'O-7',
+  'O-8',
+  'O-9',
+  'O-10',
+] as const;
+
+/**
+ * Veterans' preference categories as used on USAJOBS and the SF-50
+ *
+ * - `TP`: 5-point preference (qualifying active duty service)
+ * - `XP`: 10-point, service-connected disability rated below 10%
+ * - `CP`: 10-point, compensable disability rated 10-20%
+ * - `CPS`: 10-point, compensable disability rated 30% or more
+ * - `none`: not eligible
+ */
+export const VETERANS_PREFERENCE_CATEGORIES = ['none', 'TP', 'XP', 'CP', 'CPS'] as const;
+
+/**
+ * Zod Schema for one General Schedule grade (annual base pay, before locality)
+ */
+export const GsGradePaySchema = z
+  .object({
+    grade: z.number().int().min(1).max(15),
+    step1: z.number().positive(),
+    step10: z.number().positive(),
+  })
+  .refine((pay) => pay.step10 > pay.step1, {
+    message: 'step10 must be greater than step1',
+    path: ['step10'],
+  });
+
+/**
+ * Zod Schema for a GS locality pay area
+ */
+export const LocalityAreaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** Locality adjustment as a percentage of base pay */
+  percent: z.number().min(0),
+  /** Lowercase place names matched against free-text locations ("san diego", "arlington, va") */
+  places: z.array(z.string().min(1)),
+});
+
+/**
+ * Zod Schema for the bundled GS pay dataset
+ */
+export const GsPayDatasetSchema = z.object({
+  effectiveYear: z.number().int(),
+  source: z.string().min(1),
+  /** Statutory cap on base plus locality pay */
+  payCap: z.number().positive(),
+  grades: z.array(GsGradePaySchema).length(15),
+  restOfUs: LocalityAreaSchema.omit({ places: true }),
+  localities: z.array(LocalityAreaSchema),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type PayGrade = (typeof PAY_GRADES)[number];
+export type VeteransPreferenceCategory = (typeof VETERANS_PREFERENCE_CATEGORIES)[number];
+export type GsGradePay = z.infer<typeof GsGradePaySchema>;
+export type LocalityArea = z.infer<typeof LocalityAreaSchema>;
+export type GsPayDataset = z.infer<typeof GsPayDatasetSchema>;
+
+/**
+ * Range of federal grades (e.g. GS-7 to GS-9)
+ */
+export interface GradeRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Comparable federal grades for a military pay grade
+ */
+export interface FederalGradeEstimate {
+  payGrade: PayGrade;
+  /** General Schedule (white-collar) grades */
+  gs: GradeRange;
+  /** Federal Wage System grades for trades and crafts (not estimated for officers) */
+  wg?: GradeRange;
+}
+
+/**
+ * Estimated veterans' preference and the hiring authorities it opens
+ */
+export interface VeteransPreference {
+  category: VeteransPreferenceCategory;
+  points: 0 | 5 | 10;
+  label: string;
+  /** Special hiring authorities the veteran is likely eligible for */
+  hiringAuthorities: string[];
+}
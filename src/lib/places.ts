@@ -0,0 +1,25 @@
+/**
+ * Place Matching
+ *
+ * Shared by the bundled location datasets (GS locality areas, metro
+ * cost-of-living indexes) to match free-text locations from the intake form
+ * ("Fort Liberty, NC", "Washington, D.C.") against lowercase place names.
+ */
+
+/**
+ * Lowercase a location, drop periods and collapse whitespace
+ */
+export function normalizePlace(location: string): string {
+  return location.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check whether a location mentions a place as a whole word or phrase
+ *
+ * Places that include a state ("arlington, va") tell same-named cities apart.
+ */
+export function mentionsPlace(location: string, place: string): boolean {
+  return new RegExp(`(?<![a-z])${escapeRegExp(place)}(?![a-z])`).test(normalizePlace(location));
+}
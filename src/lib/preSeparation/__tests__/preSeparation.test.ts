@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { findPrograms, getProgramCatalogVersion, scheduleProgram } from '../index';
+import dataset from '../data/programs.json';
+import { PreSeparationCatalogSchema } from '../types';
+
+describe('program catalog', () => {
+  it('validates against the schema', () => {
+    expect(PreSeparationCatalogSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has unique ids', () => {
+    const ids = dataset.programs.map((program) => program.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('reports its version', () => {
+    expect(getProgramCatalogVersion()).toEqual({
+      version: dataset.version,
+      source: dataset.source,
+    });
+  });
+});
+
+describe('findPrograms', () => {
+  it('ranks career-field programs ahead of general ones', () => {
+    const programs = findPrograms({
+      pathwayType: 'fast-income',
+      careerField: 'it-communications',
+      location: 'Fort Meade, MD',
+    });
+    expect(programs[0].id).toBe('mssa');
+    expect(programs.map((program) => program.id)).toContain('hoh-corporate-fellowship');
+  });
+
+  it('only offers site-based programs near the duty location', () => {
+    const ids = (location: string) =>
+      findPrograms({
+        pathwayType: 'fast-income',
+        careerField: 'mechanical-maintenance',
+        location,
+      }).map((program) => program.id);
+    expect(ids('Fort Cavazos, TX')[0]).toBe('ua-veterans-in-piping');
+    expect(ids('Fort Meade, MD')).not.toContain('ua-veterans-in-piping');
+  });
+
+  it('matches programs to the pathway type', () => {
+    const ids = findPrograms({ pathwayType: 'federal-service', location: 'Fort Meade, MD' }).map(
+      (program) => program.id
+    );
+    expect(ids).toEqual(['va-skillbridge']);
+    expect(findPrograms({ pathwayType: 'continued-service', location: 'Fort Meade, MD' })).toEqual(
+      []
+    );
+  });
+});
+
+describe('scheduleProgram', () => {
+  const [fellowship] = findPrograms({ pathwayType: 'balanced', location: 'Fort Meade, MD' });
+
+  it('ends the program on the separation date', () => {
+    expect(
+      scheduleProgram(fellowship, { separationDate: '2027-06-30', today: '2026-10-19' })
+    ).toEqual({
+      applicationStart: '2027-01-07',
+      startDate: '2027-04-07',
+      endDate: '2027-06-30',
+    });
+  });
+
+  it('starts applying today when the program is close', () => {
+    expect(
+      scheduleProgram(fellowship, { separationDate: '2027-02-28', today: '2026-10-19' })
+    ).toMatchObject({ applicationStart: '2026-10-19', startDate: '2026-12-06' });
+  });
+
+  it('returns nothing when too little time is left', () => {
+    expect(
+      scheduleProgram(fellowship, { separationDate: '2026-12-31', today: '2026-10-19' })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import dataset from './data/programs.json';
+import { PreSeparationCatalogSchema, PreSeparationProgram } from './types';
+import type { CareerField } from '../crosswalk/types';
+import type { PathwayType } from '../analyzer/pathwayTypes';
+import { addDays, laterDate } from '../dates';
+import { mentionsPlace } from '../places';
+
+/**
+ * Pre-Separation Programs
+ *
+ * A bundled catalog (`data/programs.json`) of DoD SkillBridge internships,
+ * Hiring Our Heroes fellowships and apprenticeship programs that service
+ * members can join during their last 180 days of service, while still paid by
+ * the military. Given a separation date, programs are matched to a pathway and
+ * scheduled to end on the separation date.
+ *
+ * Usage:
+ *   const [program] = findPrograms({ pathwayType: 'fast-income', location: 'Fort Meade, MD' });
+ *   scheduleProgram(program, { separationDate: '2027-06-30', today: '2026-10-19' });
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const catalog = PreSeparationCatalogSchema.parse(dataset);
+
+/** SkillBridge participation is limited to the final 180 days of service */
+export const PROGRAM_WINDOW_DAYS = 180;
+
+/** How far ahead of a program start to apply and request command approval */
+export const APPLICATION_LEAD_DAYS = 90;
+
+/** Shortest time from today to a program start that still leaves room for approval */
+export const MIN_APPROVAL_DAYS = 30;
+
+/**
+ * Catalog programs that fit a pathway, most specific first
+ *
+ * A program fits when it leads into the pathway type, suits the career field
+ * (or any field), and trains online or near the veteran's duty location.
+ * Career-field and location-specific programs rank ahead of general ones.
+ */
+export function findPrograms({
+  pathwayType,
+  careerField,
+  location,
+}: {
+  pathwayType: PathwayType;
+  careerField?: CareerField;
+  /** Where the service member is stationed */
+  location: string;
+}): PreSeparationProgram[] {
+  const specificity = (program: PreSeparationProgram) =>
+    (program.careerFields.length ? 2 : 0) + (program.places.length ? 1 : 0);
+
+  return catalog.programs
+    .filter(
+      (program) =>
+        program.pathwayTypes.includes(pathwayType) &&
+        (!program.careerFields.length ||
+          (careerField !== undefined && program.careerFields.includes(careerField))) &&
+        (!program.places.length || program.places.some((place) => mentionsPlace(location, place)))
+    )
+    .sort((a, b) => specificity(b) - specificity(a));
+}
+
+export interface ProgramSchedule {
+  /** When to start applying and requesting command approval */
+  applicationStart: string;
+  startDate: string;
+  /** The separation date */
+  endDate: string;
+}
+
+/**
+ * Schedule a program to end on the separation date
+ *
+ * The program starts as early as its length allows within the final 180 days,
+ * but no sooner than the approval lead time from today.
+ *
+ * @returns The schedule, or undefined when the program no longer fits before separation
+ */
+export function scheduleProgram(
+  program: PreSeparationProgram,
+  { separationDate, today }: { separationDate: string; today: string }
+): ProgramSchedule | undefined {
+  const earliestStart = laterDate(
+    addDays(separationDate, -PROGRAM_WINDOW_DAYS),
+    addDays(today, MIN_APPROVAL_DAYS)
+  );
+  const latestStart = addDays(separationDate, -program.weeks.min * 7);
+  if (earliestStart > latestStart) return undefined;
+
+  const startDate = laterDate(addDays(separationDate, -program.weeks.max * 7), earliestStart);
+  const applicationStart = laterDate(addDays(startDate, -APPLICATION_LEAD_DAYS), today);
+
+  return { applicationStart, startDate, endDate: separationDate };
+}
+
+/**
+ * Version details of the bundled program catalog
+ */
+export function getProgramCatalogVersion(): { version: string; source: string } {
+  return { version: catalog.version, source: catalog.source };
+}
+
+export type { PreSeparationCatalog, PreSeparationProgram, ProgramKind } from './types';
+export { PROGRAM_KINDS } from './types';
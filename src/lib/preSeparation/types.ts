@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { CAREER_FIELDS } from '../crosswalk/types';
+import { PATHWAY_TYPES } from '../analyzer/pathwayTypes';
+
+/**
+ * Kinds of programs service members can join before separating
+ */
+export const PROGRAM_KINDS = ['skillbridge', 'hiring-our-heroes', 'apprenticeship'] as const;
+
+/**
+ * Zod Schema for a pre-separation program in the catalog
+ */
+export const PreSeparationProgramSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Program id must be kebab-case'),
+  name: z.string().min(1),
+  kind: z.enum(PROGRAM_KINDS),
+  /** Who runs or hosts the program ("Microsoft", "hospital systems") */
+  provider: z.string().min(1),
+  description: z.string().min(1),
+  /** Career fields the program suits; empty for any field */
+  careerFields: z.array(z.enum(CAREER_FIELDS)),
+  /** Pathway strategies the program leads into */
+  pathwayTypes: z.array(z.enum(PATHWAY_TYPES)).min(1),
+  /** Program length */
+  weeks: z
+    .object({
+      min: z.number().int().positive(),
+      max: z.number().int().positive(),
+    })
+    .refine((weeks) => weeks.max >= weeks.min, {
+      message: 'weeks.max must be greater than or equal to weeks.min',
+      path: ['max'],
+    }),
+  /** Lowercase places where the program trains; empty when online or nationwide */
+  places: z.array(z.string().min(1)),
+  url: z.url().optional(),
+});
+
+/**
+ * Zod Schema for the bundled program catalog
+ */
+export const PreSeparationCatalogSchema = z.object({
+  version: z.string().min(1),
+  source: z.string().min(1),
+  programs: z.array(PreSeparationProgramSchema),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type ProgramKind = (typeof PROGRAM_KINDS)[number];
+export type PreSeparationProgram = z.infer<typeof PreSeparationProgramSchema>;
+export type PreSeparationCatalog = z.infer<typeof PreSeparationCatalogSchema>;
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getStateBenefitsVersion, lookupStateBenefits, parseState } from '../index';
+import dataset from '../data/states.json';
+import metros from '../../costOfLiving/data/metros.json';
+import { StateBenefitsDatasetSchema } from '../types';
+
+describe('state benefits dataset', () => {
+  it('validates against the schema', () => {
+    expect(StateBenefitsDatasetSchema.safeParse(dataset).success).toBe(true);
+  });
+
+  it('has unique state codes', () => {
+    const codes = dataset.states.map((state) => state.code);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('covers the state of every bundled metro', () => {
+    const codes = dataset.states.map((state) => state.code);
+    for (const metro of metros.metros) {
+      expect(codes).toContain(metro.state);
+    }
+  });
+
+  it('reports its version', () => {
+    expect(getStateBenefitsVersion()).toEqual({
+      version: dataset.version,
+      source: dataset.source,
+    });
+  });
+});
+
+describe('parseState', () => {
+  it('reads postal codes and state names', () => {
+    expect(parseState('Tampa, FL')).toBe('FL');
+    expect(parseState('Washington, D.C.')).toBe('DC');
+    expect(parseState('Austin, Texas')).toBe('TX');
+    expect(parseState('seattle, wa')).toBe('WA');
+  });
+
+  it('ignores unlisted or missing states', () => {
+    expect(parseState('Omaha, NE')).toBeUndefined();
+    expect(parseState('Fort Liberty')).toBeUndefined();
+  });
+});
+
+describe('lookupStateBenefits', () => {
+  it('returns the state named in the location', () => {
+    expect(lookupStateBenefits('Fort Cavazos, TX')).toMatchObject({
+      name: 'Texas',
+      incomeTax: false,
+    });
+  });
+
+  it('falls back to the given state', () => {
+    expect(lookupStateBenefits('Fort Liberty', 'NC')?.name).toBe('North Carolina');
+    expect(lookupStateBenefits('Somewhere')).toBeUndefined();
+  });
+});
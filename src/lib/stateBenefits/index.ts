@@ -0,0 +1,58 @@
+import dataset from './data/states.json';
+import { StateBenefits, StateBenefitsDatasetSchema } from './types';
+import { mentionsPlace } from '../places';
+
+/**
+ * State Veteran Benefits
+ *
+ * Bundled summaries of how states tax wages and military retirement pay and
+ * their headline veteran benefits (`data/states.json`), used to compare
+ * locations. Only states around major installations and job markets are
+ * listed; benefits change often, so results point veterans to the state
+ * veterans affairs office to confirm.
+ *
+ * Usage:
+ *   lookupStateBenefits('Fort Cavazos, TX');     // Texas: no income tax, Hazlewood Act
+ *   lookupStateBenefits('Fort Liberty', 'NC');   // falls back to the metro's state
+ */
+
+// Validate once at module load so a malformed dataset fails fast
+const states = StateBenefitsDatasetSchema.parse(dataset);
+
+/**
+ * Find the state a free-text location is in ("Tampa, FL", "Austin, Texas")
+ *
+ * @returns The two-letter code of a listed state, or undefined
+ */
+export function parseState(location: string): string | undefined {
+  const postalCode = location.match(/,\s*([A-Za-z]\.?[A-Za-z])\.?\s*$/);
+  if (postalCode) {
+    const code = postalCode[1].replace('.', '').toUpperCase();
+    if (states.states.some((state) => state.code === code)) return code;
+  }
+
+  return states.states.find(({ name }) => mentionsPlace(location, name.toLowerCase()))?.code;
+}
+
+/**
+ * Look up state benefits for a location
+ *
+ * @param fallbackState - State to use when the location names none (e.g. the matched metro's state)
+ */
+export function lookupStateBenefits(
+  location: string,
+  fallbackState?: string
+): StateBenefits | undefined {
+  const code = parseState(location) ?? fallbackState;
+  return states.states.find((state) => state.code === code);
+}
+
+/**
+ * Version details of the bundled state benefits dataset
+ */
+export function getStateBenefitsVersion(): { version: string; source: string } {
+  return { version: states.version, source: states.source };
+}
+
+export type { RetirementTaxTreatment, StateBenefits, StateBenefitsDataset } from './types';
+export { RETIREMENT_TAX_TREATMENTS } from './types';
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/**
+ * How a state taxes military retirement pay
+ */
+export const RETIREMENT_TAX_TREATMENTS = ['exempt', 'partial', 'taxed'] as const;
+
+/**
+ * Zod Schema for one state's veteran-relevant tax treatment and benefits
+ */
+export const StateBenefitsSchema = z.object({
+  /** Two-letter postal code */
+  code: z.string().length(2),
+  name: z.string().min(1),
+  /** Whether the state taxes wage income */
+  incomeTax: z.boolean(),
+  militaryRetirement: z.enum(RETIREMENT_TAX_TREATMENTS),
+  /** Short, plain-language benefit summaries, most valuable first */
+  highlights: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Zod Schema for the bundled state benefits dataset
+ */
+export const StateBenefitsDatasetSchema = z.object({
+  version: z.string().min(1),
+  source: z.string().min(1),
+  states: z.array(StateBenefitsSchema),
+});
+
+/**
+ * TypeScript types inferred from Zod schemas
+ */
+export type RetirementTaxTreatment = (typeof RETIREMENT_TAX_TREATMENTS)[number];
+export type StateBenefits = z.infer<typeof StateBenefitsSchema>;
+export type StateBenefitsDataset = z.infer<typeof StateBenefitsDatasetSchema>;
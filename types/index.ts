@@ -4,4 +4,14 @@
  * This file re-exports types for backward compatibility.
  * New code should import from the analyzer service layer.
  */
-export type { VeteranProfile, CareerPathway, AnalysisResult } from '@/src/lib/analyzer';
+export type {
+  VeteranProfile,
+  CareerPathway,
+  AnalysisResult,
+  TemplateScore,
+  PathwayType,
+  AnalysisOptions,
+  AnalysisMetadata,
+  AnalysisResponse,
+  AnalysisStreamEvent,
+} from '@/src/lib/analyzer';